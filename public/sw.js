@@ -0,0 +1,123 @@
+// public/sw.js
+// Keeps the app usable offline, wakes pages to upload queued recordings
+// (src/lib/offline-queue.ts) and shows reminders sent through Web Push
+// (src/lib/reminders).
+
+const CACHE = "voice-diary-v1";
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((k) => k !== CACHE).map((k) => caches.delete(k))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Hashed build assets never change: cache first. Pages: network first, so
+// the cached copy is only what loads when offline. The API is never cached.
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(request).then(
+        (hit) =>
+          hit ||
+          fetch(request).then((res) => {
+            const copy = res.clone();
+            caches.open(CACHE).then((cache) => cache.put(request, copy));
+            return res;
+          })
+      )
+    );
+    return;
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((res) => {
+        if (res.ok) {
+          const copy = res.clone();
+          caches.open(CACHE).then((cache) => cache.put(request, copy));
+        }
+        return res;
+      })
+      .catch(() =>
+        caches
+          .match(request, { ignoreSearch: request.mode === "navigate" })
+          .then(
+            (hit) =>
+              hit || (request.mode === "navigate" ? caches.match("/") : hit)
+          )
+      )
+  );
+});
+
+// Uploads need the page's session token, so the worker asks open pages to flush
+self.addEventListener("sync", (event) => {
+  if (event.tag !== "upload-recordings") return;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window" })
+      .then((windows) =>
+        windows.forEach((w) => w.postMessage({ type: "flush-recordings" }))
+      )
+  );
+});
+
+self.addEventListener("push", (event) => {
+  let message = {
+    title: "Voice diary",
+    body: "Time to record today.",
+    url: "/",
+  };
+  try {
+    message = { ...message, ...event.data.json() };
+  } catch {
+    // Keep the defaults for an empty or non-JSON push
+  }
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      icon: "/favicon.ico",
+      tag: "diary-reminder",
+      data: { url: message.url },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(
+    event.notification.data?.url || "/",
+    self.location.origin
+  );
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        const open = windows.find((w) => new URL(w.url).origin === url.origin);
+        if (open)
+          return open.navigate(url.href).then((w) => (w || open).focus());
+        return self.clients.openWindow(url.href);
+      })
+  );
+});
@@ -0,0 +1,72 @@
+// src/app/api/audio/[...path]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import path from "node:path";
+import { readLocalAudio, verifyLocalUrl } from "@/lib/storage/local";
+
+export const runtime = "nodejs";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".webm": "audio/webm",
+  ".ogg": "audio/ogg",
+  ".m4a": "audio/mp4",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+};
+
+/** Serves locally stored recordings to holders of a signed URL (dev adapter) */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ path: string[] }> }
+) {
+  const { path: segments } = await context.params;
+  const relPath = segments.join("/");
+  const exp = Number(req.nextUrl.searchParams.get("exp"));
+  const sig = req.nextUrl.searchParams.get("sig") ?? "";
+
+  if (!verifyLocalUrl(relPath, exp, sig)) {
+    return NextResponse.json(
+      { error: "Invalid or expired link" },
+      { status: 403 }
+    );
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = await readLocalAudio(relPath);
+  } catch {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type":
+      CONTENT_TYPES[path.extname(relPath)] ?? "application/octet-stream",
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, max-age=3600",
+  };
+
+  // Browsers need range responses to seek within <audio>
+  const range = req.headers.get("range")?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range) {
+    const size = bytes.length;
+    const start = range[1] ? Number(range[1]) : size - Number(range[2]);
+    const end = range[1] && range[2] ? Number(range[2]) : size - 1;
+    if (start < 0 || start >= size || end >= size || start > end) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${size}` },
+      });
+    }
+    return new NextResponse(new Uint8Array(bytes.subarray(start, end + 1)), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${start}-${end}/${size}`,
+        "Content-Length": String(end - start + 1),
+      },
+    });
+  }
+
+  return new NextResponse(new Uint8Array(bytes), {
+    headers: { ...headers, "Content-Length": String(bytes.length) },
+  });
+}
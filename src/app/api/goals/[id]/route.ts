@@ -0,0 +1,93 @@
+// src/app/api/goals/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+
+/**
+ * Ends a goal (body `{ end_date }`, or null to resume it). Goals aren't
+ * edited in place: a new target is a new goal, so past days keep theirs.
+ */
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      end_date?: unknown;
+    };
+    const end = body.end_date ?? null;
+    if (
+      end !== null &&
+      !(typeof end === "string" && /^\d{4}-\d{2}-\d{2}$/.test(end))
+    ) {
+      return NextResponse.json(
+        { error: "end_date must be a yyyy-mm-dd date or null" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("goals")
+      .update({ end_date: end })
+      .eq("id", id)
+      .eq("user_id", userData.user.id)
+      .select()
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ goal: data });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** Deletes a goal and its history */
+export async function DELETE(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("goals")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userData.user.id)
+      .select("id");
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!data?.length) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
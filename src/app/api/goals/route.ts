@@ -0,0 +1,78 @@
+// src/app/api/goals/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { habitsFor } from "@/lib/habits";
+import { timeZoneFor, todayIn } from "@/lib/dates";
+import { parseGoal } from "@/lib/goals";
+
+/** The caller's goals, current and past */
+export async function GET(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("goals")
+      .select("*")
+      .eq("user_id", userData.user.id)
+      .order("start_date", { ascending: false });
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ goals: data ?? [] });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** Adds a goal; `start_date` defaults to today in the caller's timezone */
+export async function POST(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as Record<
+      string,
+      unknown
+    >;
+    const parsed = parseGoal(
+      {
+        ...body,
+        start_date: body.start_date || todayIn(timeZoneFor(userData.user)),
+      },
+      habitsFor(userData.user)
+    );
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid goal", fields: parsed.errors },
+        { status: 422 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("goals")
+      .insert({ ...parsed.data, user_id: userData.user.id })
+      .select()
+      .single();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ goal: data }, { status: 201 });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
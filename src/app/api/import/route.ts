@@ -0,0 +1,145 @@
+// src/app/api/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { timeZoneFor } from "@/lib/dates";
+import {
+  CONFLICT_MODES,
+  MAX_IMPORT_BYTES,
+  parseFiles,
+  planImport,
+  runImport,
+  type ConflictMode,
+  type ItemResult,
+} from "@/lib/import";
+
+export const runtime = "nodejs";
+
+/**
+ * Multipart upload of `files` (Day One JSON, Markdown/text named by date,
+ * dated audio, or zips of those) plus `conflict` and `dry_run`.
+ * A dry run answers with `{ results }`; an import streams NDJSON: one
+ * `{ type: "item", ... }` line per item, then `{ type: "done", counts }`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+    const user = userData.user;
+
+    // Refused before the body is read when the client says how big it is
+    const tooLarge = () =>
+      NextResponse.json(
+        {
+          error: `Imports are limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB`,
+        },
+        { status: 400 }
+      );
+    if (Number(req.headers.get("content-length")) > MAX_IMPORT_BYTES) {
+      return tooLarge();
+    }
+
+    const form = await req.formData();
+    const conflict = (form.get("conflict") as string) || "skip";
+    if (!CONFLICT_MODES.includes(conflict as ConflictMode)) {
+      return NextResponse.json(
+        { error: `conflict must be one of ${CONFLICT_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const dryRun = ["1", "true"].includes(String(form.get("dry_run")));
+    const uploads = form
+      .getAll("files")
+      .filter((f): f is File => f instanceof File);
+    if (!uploads.length) {
+      return NextResponse.json(
+        { error: "files must contain at least one file" },
+        { status: 400 }
+      );
+    }
+    if (uploads.reduce((sum, f) => sum + f.size, 0) > MAX_IMPORT_BYTES) {
+      return tooLarge();
+    }
+
+    const tz = timeZoneFor(user, form.get("tz") as string | null);
+    const { items, problems } = parseFiles(
+      await Promise.all(
+        uploads.map(async (f) => ({
+          name: f.name,
+          bytes: await f.arrayBuffer(),
+          contentType: f.type,
+        }))
+      ),
+      tz
+    );
+    const unreadable: ItemResult[] = problems.map((p) => ({
+      ...p,
+      action: "error",
+      done: false,
+    }));
+
+    if (dryRun) {
+      const planned = await planImport(
+        supabase,
+        user.id,
+        items,
+        conflict as ConflictMode
+      );
+      return NextResponse.json({ results: [...planned, ...unreadable] });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (line: unknown) =>
+          controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
+        const counts: Record<string, number> = {};
+        const count = (r: ItemResult) => {
+          const key = r.done
+            ? r.action
+            : r.action === "skip"
+            ? "skip"
+            : "error";
+          counts[key] = (counts[key] ?? 0) + 1;
+        };
+        try {
+          for await (const result of runImport(
+            supabase,
+            user,
+            items,
+            conflict as ConflictMode
+          )) {
+            count(result);
+            send({ type: "item", ...result });
+          }
+          for (const result of unreadable) {
+            count(result);
+            send({ type: "item", ...result });
+          }
+          send({ type: "done", counts });
+        } catch (e) {
+          send({
+            type: "error",
+            error: e instanceof Error ? e.message : "Unknown error",
+          });
+        }
+        controller.close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-cache, no-transform",
+      },
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+// src/app/api/insights/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { upgradeRow } from "@/lib/migrations";
+import { habitsFor } from "@/lib/habits";
+import { addDays, timeZoneFor, todayIn } from "@/lib/dates";
+import { computeInsights, MIN_PAIRS } from "@/lib/insights";
+import type { DayRow } from "@/lib/metrics";
+
+export const runtime = "nodejs";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_DAYS = 90;
+
+/** Correlations and next-day effects over the caller's days in `from`–`to` (default: last 90 days) */
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    // Validated before the defaults are derived from them
+    const fromParam = params.get("from");
+    const toParam = params.get("to");
+    if (
+      (fromParam && !ISO_DATE.test(fromParam)) ||
+      (toParam && !ISO_DATE.test(toParam))
+    ) {
+      return NextResponse.json(
+        { error: "from and to must be yyyy-mm-dd dates" },
+        { status: 400 }
+      );
+    }
+    const to = toParam || todayIn(timeZoneFor(userData.user));
+    const from = fromParam || addDays(to, -(DEFAULT_DAYS - 1));
+
+    // One extra day so next-day effects of the last day can be paired
+    const { data, error } = await supabase
+      .from("daily_logs")
+      .select("log_date, extracted, schema_version")
+      .eq("user_id", userData.user.id)
+      .gte("log_date", from)
+      .lte("log_date", addDays(to, 1))
+      .order("log_date", { ascending: true });
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const rows = (data ?? []).map(upgradeRow) as DayRow[];
+    const { insights, skipped } = computeInsights(
+      rows,
+      habitsFor(userData.user),
+      to
+    );
+    return NextResponse.json({
+      from,
+      to,
+      days: rows.filter((r) => r.log_date <= to).length,
+      min_days: MIN_PAIRS,
+      insights,
+      skipped,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+// src/app/api/jobs/[id]/retry/route.ts
+import { NextResponse, after } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { canRetry, resetJob, runJob, type ProcessJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+/** Re-runs a failed (or stuck) job from its stored audio */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+    const user = userData.user;
+
+    const { data, error } = await supabase
+      .from("process_jobs")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (!canRetry(data as ProcessJob)) {
+      return NextResponse.json(
+        { error: `Job is ${data.status} and can't be retried` },
+        { status: 409 }
+      );
+    }
+
+    const job = await resetJob(supabase, id);
+    after(() => runJob(supabase, user, job.id));
+
+    return NextResponse.json(
+      { job_id: job.id, status: job.status, job },
+      { status: 202 }
+    );
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
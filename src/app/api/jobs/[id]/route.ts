@@ -0,0 +1,81 @@
+// src/app/api/jobs/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { upgradeRow } from "@/lib/migrations";
+import { canRetry, type ProcessJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+/** Job status; once saved, also the day's row and the new entry (same shape /api/process used to return) */
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("process_jobs")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const job = data as ProcessJob;
+
+    if (job.status !== "saved" || !job.daily_log_id) {
+      return NextResponse.json({ job, can_retry: canRetry(job) });
+    }
+
+    const [{ data: row, error: rowErr }, { data: entry, error: entryErr }] =
+      await Promise.all([
+        supabase
+          .from("daily_logs")
+          .select("*")
+          .eq("id", job.daily_log_id)
+          .single(),
+        supabase
+          .from("log_entries")
+          .select("*")
+          .eq("id", job.entry_id)
+          .single(),
+      ]);
+    if (rowErr || entryErr) {
+      return NextResponse.json(
+        { error: (rowErr ?? entryErr)?.message },
+        { status: 400 }
+      );
+    }
+    const day = upgradeRow(row);
+
+    return NextResponse.json({
+      job,
+      can_retry: false,
+      transcript: job.transcript,
+      // The editor works on the day's merged view, not just this entry
+      extracted: day.extracted,
+      row: day,
+      entry: upgradeRow(entry),
+      stt_provider: job.stt_provider,
+      extractor: job.extractor,
+      extraction_fallback: job.extraction_fallback,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
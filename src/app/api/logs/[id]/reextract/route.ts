@@ -0,0 +1,48 @@
+// src/app/api/logs/[id]/reextract/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { upgradeRow } from "@/lib/migrations";
+import { reextractDay } from "@/lib/reextract";
+
+export const runtime = "nodejs";
+
+/** Re-runs extraction on a day's stored transcripts; body `{ overwrite?: boolean }` */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      overwrite?: boolean;
+    };
+    const result = await reextractDay(supabase, userData.user, id, {
+      overwrite: body.overwrite === true,
+    });
+    if (!result) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const { data: row, error } = await supabase
+      .from("daily_logs")
+      .select("*")
+      .eq("id", id)
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json({ ...result, row: upgradeRow(row) });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
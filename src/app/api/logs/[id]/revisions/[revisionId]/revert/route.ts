@@ -0,0 +1,82 @@
+// src/app/api/logs/[id]/revisions/[revisionId]/revert/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { parseExtracted } from "@/lib/extracted";
+import { migrateExtracted } from "@/lib/migrations";
+import { saveRevision } from "@/lib/revisions";
+
+/**
+ * Restores the day to how it looked right after this revision, or with
+ * `{ state: "before" }` right before it (e.g. the original extraction).
+ * The revert is itself recorded as a revision.
+ */
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const { id, revisionId } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      state?: "before" | "after";
+    };
+
+    const { data: revision, error } = await supabase
+      .from("log_revisions")
+      .select("before, after")
+      .eq("id", revisionId)
+      .eq("daily_log_id", id)
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!revision) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const target = body.state === "before" ? revision.before : revision.after;
+    // Older snapshots may predate the current schema; validate like an edit.
+    // Snapshots are written by us, so their own schema_version can be trusted.
+    const snapshot = (target ?? {}) as { schema_version?: unknown };
+    const parsed = parseExtracted(
+      migrateExtracted(
+        snapshot,
+        typeof snapshot.schema_version === "number"
+          ? snapshot.schema_version
+          : null
+      ).extracted
+    );
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Revision no longer valid", fields: parsed.errors },
+        { status: 422 }
+      );
+    }
+
+    const saved = await saveRevision(
+      supabase,
+      userData.user,
+      id,
+      parsed.data,
+      "revert"
+    );
+    if (!saved) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(saved);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -1,30 +1,83 @@
 // src/app/api/logs/[id]/route.ts
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { parseExtracted } from "@/lib/extracted";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { deleteDay } from "@/lib/daily-logs";
+import { saveRevision } from "@/lib/revisions";
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-export async function PATCH(req: Request, context: any) {
-  const { id } = (context?.params ?? {}) as { id: string };
+/** Replaces the day's extracted view as the caller, recording a revision */
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
 
   try {
-    const body = (await req.json()) as { extracted?: unknown };
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
 
-    const { data, error } = await supabase
-      .from("daily_logs")
-      .update({ extracted: body.extracted })
-      .eq("id", id)
-      .select()
-      .single();
+    const body = (await req.json().catch(() => ({}))) as {
+      extracted?: unknown;
+    };
+    if (!body.extracted || typeof body.extracted !== "object") {
+      return NextResponse.json(
+        { error: "extracted must be an object" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseExtracted(body.extracted);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: "Invalid extracted payload", fields: parsed.errors },
+        { status: 422 }
+      );
+    }
+
+    const saved = await saveRevision(supabase, userData.user, id, parsed.data);
+    if (!saved) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(saved);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** Deletes a day, its entries (FK cascade) and every recording stored for it */
+export async function DELETE(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const client = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await client.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
 
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 400 });
+    const deleted = await deleteDay(client, userData.user.id, id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ row: data });
+    return NextResponse.json({
+      deleted: id,
+      audio_deleted: deleted.audioDeleted,
+    });
   } catch (err) {
     const msg = err instanceof Error ? err.message : "Unknown error";
     return NextResponse.json({ error: msg }, { status: 500 });
@@ -0,0 +1,120 @@
+// src/app/api/logs/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { upgradeRow } from "@/lib/migrations";
+import { habitsFor } from "@/lib/habits";
+import {
+  EXPORT_FORMATS,
+  getExporter,
+  isExportFormat,
+  type ExportContext,
+  type ExportRow,
+} from "@/lib/export";
+
+export const runtime = "nodejs";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const PAGE_SIZE = 500;
+
+/** Streams the caller's days in `from`–`to` (both optional) as csv, json, md or ics */
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const format = params.get("format") ?? "json";
+    const from = params.get("from") || null;
+    const to = params.get("to") || null;
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if ((from && !ISO_DATE.test(from)) || (to && !ISO_DATE.test(to))) {
+      return NextResponse.json(
+        { error: "from and to must be yyyy-mm-dd dates" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+    const userId = userData.user.id;
+
+    const exporter = getExporter(format);
+    const ctx: ExportContext = {
+      from,
+      to,
+      habits: habitsFor(userData.user),
+      exportedAt: new Date().toISOString(),
+    };
+
+    const page = (offset: number) => {
+      let q = supabase
+        .from("daily_logs")
+        .select(
+          "id, log_date, transcript, extracted, schema_version, created_at, log_entries(id, recorded_at, transcript, extracted, schema_version)"
+        )
+        .eq("user_id", userId);
+      if (from) q = q.gte("log_date", from);
+      if (to) q = q.lte("log_date", to);
+      return q
+        .order("log_date", { ascending: true })
+        .order("recorded_at", { referencedTable: "log_entries" })
+        .range(offset, offset + PAGE_SIZE - 1);
+    };
+
+    // Fail before the headers go out if the query itself is broken
+    const first = await page(0);
+    if (first.error) {
+      return NextResponse.json({ error: first.error.message }, { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (s: string) => s && controller.enqueue(encoder.encode(s));
+        try {
+          write(exporter.header(ctx));
+          let index = 0;
+          let offset = 0;
+          let rows = first.data ?? [];
+          while (rows.length) {
+            for (const r of rows) {
+              const row = upgradeRow(r) as ExportRow;
+              row.log_entries = row.log_entries?.map(upgradeRow);
+              write(exporter.row(row, index++, ctx));
+            }
+            if (rows.length < PAGE_SIZE) break;
+            offset += PAGE_SIZE;
+            const next = await page(offset);
+            if (next.error) throw next.error;
+            rows = next.data ?? [];
+          }
+          write(exporter.footer(ctx));
+          controller.close();
+        } catch (e) {
+          console.error("[/api/logs/export] ERROR:", e);
+          controller.error(e);
+        }
+      },
+    });
+
+    const name = `voice-diary${from ? `-${from}` : ""}${to ? `-${to}` : ""}`;
+    return new Response(stream, {
+      headers: {
+        "Content-Type": exporter.contentType,
+        "Content-Disposition": `attachment; filename="${name}.${exporter.extension}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+// src/app/api/logs/migrate/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import {
+  LATEST_SCHEMA_VERSION,
+  migrateExtracted,
+  versionOf,
+} from "@/lib/migrations";
+
+export const runtime = "nodejs";
+
+const PAGE_SIZE = 500;
+
+/** Rewrites every one of the caller's rows to the latest schema_version */
+export async function POST(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+    const userId = userData.user.id;
+
+    let scanned = 0;
+    let migrated = 0;
+    const failed: { id: string; error: string }[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("daily_logs")
+        .select("id, extracted, schema_version")
+        .eq("user_id", userId)
+        .order("log_date", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw error;
+      if (!data?.length) break;
+
+      for (const row of data) {
+        scanned++;
+        if (row.extracted == null) continue;
+        if (versionOf(row.schema_version) >= LATEST_SCHEMA_VERSION) continue;
+
+        try {
+          const { extracted, version } = migrateExtracted(
+            row.extracted,
+            row.schema_version
+          );
+          const { error: upErr } = await supabase
+            .from("daily_logs")
+            .update({ extracted, schema_version: version })
+            .eq("id", row.id);
+          if (upErr) throw upErr;
+          migrated++;
+        } catch (e) {
+          failed.push({
+            id: row.id,
+            error: e instanceof Error ? e.message : String(e),
+          });
+        }
+      }
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return NextResponse.json({
+      latest: LATEST_SCHEMA_VERSION,
+      scanned,
+      migrated,
+      failed,
+    });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    console.error("[/api/logs/migrate] ERROR:", e);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
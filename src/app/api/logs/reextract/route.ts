@@ -0,0 +1,105 @@
+// src/app/api/logs/reextract/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { forEachLimited, reextractDay } from "@/lib/reextract";
+
+export const runtime = "nodejs";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Extractor calls in flight at once; the body may ask for fewer */
+const MAX_CONCURRENCY = Number(process.env.REEXTRACT_CONCURRENCY) || 3;
+
+/**
+ * Re-extracts every day in `{ from, to }` (inclusive). Responds with NDJSON:
+ * one `{ type: "progress", ... }` line per day, then `{ type: "done", ... }`.
+ */
+export async function POST(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+    const user = userData.user;
+
+    const body = (await req.json().catch(() => ({}))) as {
+      from?: string;
+      to?: string;
+      overwrite?: boolean;
+      concurrency?: unknown;
+    };
+    if (!ISO_DATE.test(body.from ?? "") || !ISO_DATE.test(body.to ?? "")) {
+      return NextResponse.json(
+        { error: "from and to must be yyyy-mm-dd dates" },
+        { status: 400 }
+      );
+    }
+    // Anything but a finite number (e.g. "3", NaN) means the default
+    const requested =
+      typeof body.concurrency === "number" && Number.isFinite(body.concurrency)
+        ? Math.floor(body.concurrency)
+        : MAX_CONCURRENCY;
+    const concurrency = Math.max(1, Math.min(MAX_CONCURRENCY, requested));
+
+    const { data: days, error } = await supabase
+      .from("daily_logs")
+      .select("id, log_date")
+      .eq("user_id", user.id)
+      .gte("log_date", body.from!)
+      .lte("log_date", body.to!)
+      .order("log_date", { ascending: true });
+    if (error) throw error;
+
+    const total = days?.length ?? 0;
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (line: unknown) =>
+          controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
+        let done = 0;
+        let succeeded = 0;
+        let failed = 0;
+
+        await forEachLimited(days ?? [], concurrency, async (day) => {
+          try {
+            const result = await reextractDay(supabase, user, day.id, {
+              overwrite: body.overwrite === true,
+            });
+            done++;
+            succeeded++;
+            send({ type: "progress", done, total, ok: true, ...result });
+          } catch (e) {
+            done++;
+            failed++;
+            send({
+              type: "progress",
+              done,
+              total,
+              ok: false,
+              id: day.id,
+              log_date: day.log_date,
+              error: e instanceof Error ? e.message : "Unknown error",
+            });
+          }
+        });
+
+        send({ type: "done", total, succeeded, failed });
+        controller.close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Cache-Control": "no-cache, no-transform",
+      },
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
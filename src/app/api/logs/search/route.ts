@@ -0,0 +1,52 @@
+// src/app/api/logs/search/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { splitSnippet, type SearchResult } from "@/lib/search";
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Ranked full-text search over the caller's transcripts, notes, highlights,
+ * challenges and gratitude. `q` accepts web-search syntax ("job offer", -work, or).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const q = req.nextUrl.searchParams.get("q")?.trim() ?? "";
+    if (!q) {
+      return NextResponse.json({ error: "q is required" }, { status: 400 });
+    }
+    const limit =
+      Number(req.nextUrl.searchParams.get("limit")) || DEFAULT_LIMIT;
+
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase.rpc("search_logs", {
+      q,
+      max_results: limit,
+    });
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const results: SearchResult[] = (
+      (data ?? []) as {
+        id: string;
+        log_date: string;
+        rank: number;
+        snippet: string | null;
+      }[]
+    ).map((r) => ({ ...r, snippet: splitSnippet(r.snippet ?? "") }));
+
+    return NextResponse.json({ q, results });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -1,206 +1,85 @@
 // app/api/process/route.ts
-import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { NextRequest, NextResponse, after } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { timeZoneFor, todayIn } from "@/lib/dates";
+import { createJob, runJob } from "@/lib/jobs";
+import { endSession, finishSession, getSession } from "@/lib/stt/live-sessions";
+import {
+  audioUploadError,
+  audioUploadType,
+  typedEntryError,
+} from "@/lib/uploads";
+import {
+  AUDIO_URL_TTL_SECONDS,
+  audioPath,
+  getAudioStorage,
+} from "@/lib/storage";
 
 export const runtime = "nodejs";
 
-/** IST yyyy-mm-dd */
-function todayInIST(): string {
-  const now = new Date();
-  const istOffsetMin = 330; // +05:30
-  const utc = now.getTime() + now.getTimezoneOffset() * 60000;
-  const ist = new Date(utc + istOffsetMin * 60000);
-  return ist.toISOString().slice(0, 10);
-}
-
-/** 1) Deepgram STT */
-async function transcribeWithDeepgram(bytes: ArrayBuffer, contentType: string) {
-  const body = new Blob([bytes], {
-    type: contentType || "application/octet-stream",
-  });
-
-  const res = await fetch(
-    "https://api.deepgram.com/v1/listen?model=nova-2&smart_format=true",
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Token ${process.env.DEEPGRAM_API_KEY!}`,
-        "Content-Type": body.type || "application/octet-stream",
-      },
-      body,
-    }
-  );
-  if (!res.ok) throw new Error(`Deepgram failed: ${await res.text()}`);
-
-  const j = await res.json();
-  const transcript =
-    j?.results?.channels?.[0]?.alternatives?.[0]?.transcript?.trim() ?? "";
-  return transcript;
-}
-
-/** 2) JSON schema for extraction (strict mode requires additionalProperties:false and required lists) */
-const extractionSchema = {
-  type: "object",
-  additionalProperties: false,
-  properties: {
-    schema_version: { type: "number" },
-    sleep_hours: { type: "number" },
-    mood: { type: "string" },
-    energy: { type: "number" },
-    focus: { type: "number" },
-    highlights: { type: "array", items: { type: "string" } },
-    challenges: { type: "array", items: { type: "string" } },
-    gratitude: { type: "array", items: { type: "string" } },
-    habits: {
-      type: "object",
-      additionalProperties: false,
-      properties: {
-        yoga: { type: "boolean" },
-        workout: { type: "boolean" },
-        reading_minutes: { type: "number" },
-        no_smoking: { type: "boolean" },
-      },
-      required: ["yoga", "workout", "reading_minutes", "no_smoking"],
-    },
-    work: {
-      type: "object",
-      additionalProperties: false,
-      properties: {
-        top_task_done: { type: "string" },
-        time_blocks: {
-          type: "array",
-          items: {
-            type: "object",
-            additionalProperties: false,
-            properties: {
-              label: { type: "string" },
-              minutes: { type: "number" },
-            },
-            required: ["label", "minutes"],
-          },
-        },
-      },
-      required: ["top_task_done", "time_blocks"],
-    },
-    health: {
-      type: "object",
-      additionalProperties: false,
-      properties: {
-        steps: { type: "number" },
-        water_glasses: { type: "number" },
-        calories: { type: "number" },
-      },
-      required: ["steps", "water_glasses", "calories"],
-    },
-    notes: { type: "string" },
-    todos_tomorrow: { type: "array", items: { type: "string" } },
-  },
-  required: [
-    "schema_version",
-    "sleep_hours",
-    "mood",
-    "energy",
-    "focus",
-    "highlights",
-    "challenges",
-    "gratitude",
-    "habits",
-    "work",
-    "health",
-    "notes",
-    "todos_tomorrow",
-  ],
-} as const;
-
-/** 3) OpenAI extraction via Responses API with json_schema formatter */
-async function extractWithOpenAI(transcript: string) {
-  const res = await fetch("https://api.openai.com/v1/responses", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY!}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      input: [
-        {
-          role: "system",
-          content:
-            "You extract structured daily journal data. Return ONLY JSON that conforms to the provided JSON schema.",
-        },
-        {
-          role: "user",
-          content:
-            `Schema: ${JSON.stringify(extractionSchema)}\n\n` +
-            "Rules:\n" +
-            "- Infer numbers from phrases (e.g., 'about seven and a half hours' → 7.5)\n" +
-            "- Omit fields not mentioned\n" +
-            "- mood: single lowercase word when possible\n" +
-            "- notes: 1–3 short sentences\n\n" +
-            `Transcript:\n${transcript}`,
-        },
-      ],
-      text: {
-        format: {
-          type: "json_schema",
-          name: "daily_log",
-          schema: extractionSchema,
-          strict: true,
-        },
-      },
-    }),
-  });
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
 
-  if (!res.ok) throw new Error(`OpenAI failed: ${await res.text()}`);
-  const j = await res.json();
-
-  const jsonText =
-    (Array.isArray(j?.output) &&
-      Array.isArray(j.output[0]?.content) &&
-      j.output[0].content.find((c: any) => c?.type === "output_text")?.text) ||
-    (typeof j?.output_text === "string" ? j.output_text : "");
-
-  const parsed = jsonText ? JSON.parse(jsonText) : {};
-  if (!parsed.schema_version) parsed.schema_version = 1;
-  return parsed;
+/** Final text of the caller's live session; nulls (→ batch STT) if there's none or it failed */
+async function streamedTranscript(streamId: unknown, userId: string) {
+  const none = { transcript: null, sttProvider: null };
+  if (typeof streamId !== "string" || !streamId) return none;
+  const session = getSession(streamId, userId);
+  if (!session) return none;
+  try {
+    const transcript = await finishSession(session);
+    return transcript
+      ? { transcript, sttProvider: `${session.provider}-live` }
+      : none;
+  } catch (e) {
+    console.warn("[/api/process] live transcript unavailable:", e);
+    return none;
+  } finally {
+    endSession(session);
+  }
 }
 
-/** 4) Main handler */
+/**
+ * Accepts a recording, an uploaded audio file or a typed entry (`text`),
+ * and returns a job to poll (GET /api/jobs/[id]). Audio is stored first;
+ * typed text goes straight to extraction.
+ */
 export async function POST(req: NextRequest) {
   try {
     const form = await req.formData();
 
-    // Validate we actually received a file
+    // Validate we actually received a file or some text
+    const text = form.get("text");
     const filePart = form.get("audio");
-    if (!(filePart instanceof File)) {
+    if (typeof text !== "string" && !(filePart instanceof File)) {
       return NextResponse.json(
-        { error: "audio must be a file upload (Blob/File)" },
+        { error: "Send audio as a file upload (Blob/File) or text" },
+        { status: 400 }
+      );
+    }
+    const invalid =
+      typeof text === "string"
+        ? typedEntryError(text)
+        : audioUploadError(filePart as File);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    // Part of the storage path, so nothing but yyyy-mm-dd gets through
+    const pickedDate = form.get("log_date");
+    if (
+      pickedDate !== null &&
+      pickedDate !== "" &&
+      (typeof pickedDate !== "string" || !ISO_DATE.test(pickedDate))
+    ) {
+      return NextResponse.json(
+        { error: "log_date must be yyyy-mm-dd" },
         { status: 400 }
       );
     }
-    const file = filePart as File;
-
-    const logDate = (form.get("log_date") as string) || todayInIST();
-
-    // Prepare audio for Deepgram
-    const arrayBuffer = await file.arrayBuffer();
-    const contentType = file.type || "application/octet-stream";
-
-    // 1) STT
-    const transcript = await transcribeWithDeepgram(arrayBuffer, contentType);
-
-    // 2) Extract JSON
-    const extracted = await extractWithOpenAI(transcript);
 
-    // 3) Supabase client with caller's JWT (RLS-friendly)
-    const authHeader = req.headers.get("Authorization") || "";
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      { global: { headers: { Authorization: authHeader } } }
-    );
+    // 1) Supabase client with caller's JWT (RLS-friendly)
+    const supabase = supabaseForRequest(req);
 
-    // 4) Get the authenticated user id from JWT
+    // 2) Get the authenticated user id from JWT
     const { data: userData, error: userErr } = await supabase.auth.getUser();
     if (userErr || !userData.user) {
       return NextResponse.json(
@@ -208,21 +87,65 @@ export async function POST(req: NextRequest) {
         { status: 401 }
       );
     }
-    const userId = userData.user.id;
-
-    // 5) Upsert row (RLS policies must allow owner access)
-    const { data, error } = await supabase
-      .from("daily_logs")
-      .upsert(
-        { user_id: userId, log_date: logDate, transcript, extracted },
-        { onConflict: "user_id,log_date" }
-      )
-      .select()
-      .single();
+    const user = userData.user;
+    const userId = user.id;
+
+    // "Today" in the user's zone unless the client picked a date
+    const logDate =
+      (pickedDate as string | null) ||
+      todayIn(timeZoneFor(user, form.get("tz") as string | null));
+
+    // A typed entry is its own transcript: no audio to keep, no STT
+    if (typeof text === "string") {
+      const job = await createJob(supabase, {
+        userId,
+        logDate,
+        audioPath: null,
+        audioUrl: null,
+        contentType: "text/plain",
+        transcript: text.trim(),
+      });
+      after(() => runJob(supabase, user, job.id));
+      return NextResponse.json(
+        { job_id: job.id, status: job.status, job },
+        { status: 202 }
+      );
+    }
 
-    if (error) throw error;
+    // 3) Keep the original audio: it is what the job works from, and what a retry reuses
+    const file = filePart as File;
+    const bytes = await file.arrayBuffer();
+    const contentType = audioUploadType(file.name, file.type)!;
+    const storage = getAudioStorage(supabase);
+    const storedPath = audioPath(userId, logDate, contentType);
+    await storage.put(storedPath, bytes, contentType);
+    const audioUrl = await storage.signedUrl(storedPath, AUDIO_URL_TTL_SECONDS);
+
+    // 4) Reuse the live transcript if this was recorded in streaming mode
+    const { transcript, sttProvider } = await streamedTranscript(
+      form.get("stream_id"),
+      userId
+    );
 
-    return NextResponse.json({ transcript, extracted, row: data });
+    // 5) Queue the job; transcription, extraction and saving run after the response
+    const job = await createJob(supabase, {
+      userId,
+      logDate,
+      audioPath: storedPath,
+      audioUrl,
+      contentType,
+      transcript,
+      sttProvider,
+    }).catch(async (e) => {
+      await storage.remove([storedPath]).catch(() => {});
+      throw e;
+    });
+    after(() => runJob(supabase, user, job.id));
+
+    return NextResponse.json(
+      { job_id: job.id, status: job.status, job },
+      { status: 202 }
+    );
   } catch (e: any) {
     console.error("[/api/process] ERROR:", e);
     return NextResponse.json({ error: e.message ?? "failed" }, { status: 500 });
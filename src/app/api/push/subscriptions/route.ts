@@ -0,0 +1,86 @@
+// src/app/api/push/subscriptions/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+
+type SubscriptionBody = {
+  endpoint?: unknown;
+  keys?: { p256dh?: unknown; auth?: unknown };
+};
+
+/** Saves this browser's PushSubscription (the JSON from `subscription.toJSON()`) */
+export async function POST(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as SubscriptionBody;
+    const { endpoint } = body;
+    const { p256dh, auth } = body.keys ?? {};
+    if (
+      typeof endpoint !== "string" ||
+      !endpoint.startsWith("https://") ||
+      typeof p256dh !== "string" ||
+      typeof auth !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "Expected { endpoint, keys: { p256dh, auth } }" },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .upsert(
+        { user_id: userData.user.id, endpoint, p256dh, auth },
+        { onConflict: "endpoint" }
+      );
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ subscribed: endpoint }, { status: 201 });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** Forgets a browser; body `{ endpoint }` */
+export async function DELETE(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as SubscriptionBody;
+    if (typeof body.endpoint !== "string") {
+      return NextResponse.json(
+        { error: "endpoint is required" },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .delete()
+      .eq("user_id", userData.user.id)
+      .eq("endpoint", body.endpoint);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ unsubscribed: body.endpoint });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
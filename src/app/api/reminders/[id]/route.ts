@@ -0,0 +1,115 @@
+// src/app/api/reminders/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import {
+  isReminderChannel,
+  parseSchedule,
+  REMINDER_CHANNELS,
+  type Reminder,
+} from "@/lib/reminders";
+
+/** Pauses, resumes or reschedules a reminder; body `{ enabled?, schedule?, channel? }` */
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      enabled?: unknown;
+      schedule?: unknown;
+      channel?: unknown;
+    };
+    const patch: Partial<Reminder> = {};
+    const fields: Record<string, string> = {};
+    if (body.enabled !== undefined) {
+      if (typeof body.enabled === "boolean") patch.enabled = body.enabled;
+      else fields.enabled = "Use true or false";
+    }
+    if (body.schedule !== undefined) {
+      const schedule = parseSchedule(
+        typeof body.schedule === "string" ? body.schedule : ""
+      );
+      if (schedule.ok) {
+        patch.time = schedule.time;
+        patch.days = schedule.days;
+      } else {
+        fields.schedule = schedule.error;
+      }
+    }
+    if (body.channel !== undefined) {
+      if (isReminderChannel(body.channel)) patch.channel = body.channel;
+      else fields.channel = `Use one of ${REMINDER_CHANNELS.join(", ")}`;
+    }
+    if (Object.keys(fields).length) {
+      return NextResponse.json(
+        { error: "Invalid reminder", fields },
+        { status: 422 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("reminders")
+      .update(patch)
+      .eq("id", id)
+      .eq("user_id", userData.user.id)
+      .select()
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ reminder: data });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("reminders")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userData.user.id)
+      .select("id")
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: id });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
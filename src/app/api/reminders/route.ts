@@ -0,0 +1,87 @@
+// src/app/api/reminders/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import {
+  isReminderChannel,
+  parseSchedule,
+  REMINDER_CHANNELS,
+} from "@/lib/reminders";
+
+/** The caller's reminder schedules */
+export async function GET(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("reminders")
+      .select("*")
+      .eq("user_id", userData.user.id)
+      .order("time", { ascending: true });
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ reminders: data ?? [] });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** Adds a reminder; body `{ schedule: "21:30 on weekdays", channel? }` */
+export async function POST(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      schedule?: unknown;
+      channel?: unknown;
+    };
+    const channel = body.channel ?? "push";
+    const schedule = parseSchedule(
+      typeof body.schedule === "string" ? body.schedule : ""
+    );
+    const fields: Record<string, string> = {};
+    if (!schedule.ok) fields.schedule = schedule.error;
+    if (!isReminderChannel(channel)) {
+      fields.channel = `Use one of ${REMINDER_CHANNELS.join(", ")}`;
+    }
+    if (!schedule.ok || !isReminderChannel(channel)) {
+      return NextResponse.json(
+        { error: "Invalid reminder", fields },
+        { status: 422 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("reminders")
+      .insert({
+        user_id: userData.user.id,
+        time: schedule.time,
+        days: schedule.days,
+        channel,
+      })
+      .select()
+      .single();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ reminder: data }, { status: 201 });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+// src/app/api/reminders/run/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-server";
+import { getReminderTransport, runReminders } from "@/lib/reminders";
+
+/**
+ * The reminder cron: call every few minutes with
+ * `Authorization: Bearer $CRON_SECRET`. `?now=<ISO time>` evaluates the
+ * schedules at another instant (handy with REMINDER_TRANSPORT=stub).
+ */
+async function run(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const nowParam = url.searchParams.get("now");
+  const now = nowParam ? new Date(nowParam) : new Date();
+  if (Number.isNaN(now.getTime())) {
+    return NextResponse.json(
+      { error: "now must be an ISO date-time" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const transport = getReminderTransport();
+    const results = await runReminders(supabaseAdmin(), {
+      now,
+      transport,
+      baseUrl: process.env.APP_URL || url.origin,
+    });
+    return NextResponse.json({
+      transport: transport.name,
+      now: now.toISOString(),
+      sent: results.filter((r) => r.status === "sent").length,
+      results,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,106 @@
+// src/app/api/stream/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import {
+  endSession,
+  getSession,
+  subscribe,
+  writeChunk,
+} from "@/lib/stt/live-sessions";
+
+export const runtime = "nodejs";
+
+const KEEPALIVE_MS = 15_000;
+
+type Context = { params: Promise<{ id: string }> };
+
+/** The caller's live session, or an error response */
+async function sessionFor(req: Request, context: Context) {
+  const { id } = await context.params;
+  const supabase = supabaseForRequest(req);
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userData.user) {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      ),
+    };
+  }
+  const session = getSession(id, userData.user.id);
+  if (!session) {
+    return {
+      error: NextResponse.json(
+        { error: "Stream not found or expired" },
+        { status: 404 }
+      ),
+    };
+  }
+  return { session };
+}
+
+/** Appends the next MediaRecorder chunk (raw bytes in the body) */
+export async function POST(req: Request, context: Context) {
+  try {
+    const { session, error } = await sessionFor(req, context);
+    if (error) return error;
+    writeChunk(session, new Uint8Array(await req.arrayBuffer()));
+    return NextResponse.json({ partial: session.partial });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** Server-sent events: `partial` while recording, then one `final` */
+export async function GET(req: Request, context: Context) {
+  const { session, error } = await sessionFor(req, context);
+  if (error) return error;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      const keepalive = setInterval(
+        () => controller.enqueue(encoder.encode(": keepalive\n\n")),
+        KEEPALIVE_MS
+      );
+      const unsubscribe = subscribe(session, ({ text, final }) => {
+        send(final ? "final" : "partial", { text });
+        if (final) cleanup();
+      });
+      cleanup = () => {
+        clearInterval(keepalive);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {}
+        cleanup = () => {};
+      };
+      req.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/** Abandons a session (e.g. the user discarded the recording) */
+export async function DELETE(req: Request, context: Context) {
+  const { session, error } = await sessionFor(req, context);
+  if (error) return error;
+  endSession(session);
+  return NextResponse.json({ ended: session.id });
+}
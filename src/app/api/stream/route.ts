@@ -0,0 +1,32 @@
+// src/app/api/stream/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { startSession } from "@/lib/stt/live-sessions";
+
+export const runtime = "nodejs";
+
+/** Opens a live transcription session; chunks go to POST /api/stream/[id] */
+export async function POST(req: Request) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      content_type?: string;
+    };
+    const { id, provider } = startSession(
+      userData.user.id,
+      body.content_type || "audio/webm"
+    );
+    return NextResponse.json({ session_id: id, provider });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
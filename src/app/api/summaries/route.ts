@@ -0,0 +1,88 @@
+// src/app/api/summaries/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { timeZoneFor, todayIn } from "@/lib/dates";
+import {
+  generateSummary,
+  isSummaryPeriod,
+  SUMMARY_PERIODS,
+} from "@/lib/summaries";
+
+export const runtime = "nodejs";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** The caller's stored reviews, newest first; `?period=week|month` to filter */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const period = req.nextUrl.searchParams.get("period");
+    let q = supabase
+      .from("summaries")
+      .select("*")
+      .eq("user_id", userData.user.id)
+      .order("start_date", { ascending: false })
+      .limit(100);
+    if (isSummaryPeriod(period)) q = q.eq("period", period);
+    const { data, error } = await q;
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ summaries: data ?? [] });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** (Re)generates the review for the week or month containing `date` (default: today) */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      period?: unknown;
+      date?: unknown;
+    };
+    if (!isSummaryPeriod(body.period)) {
+      return NextResponse.json(
+        { error: `period must be one of ${SUMMARY_PERIODS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const date = body.date ?? todayIn(timeZoneFor(userData.user));
+    if (typeof date !== "string" || !ISO_DATE.test(date)) {
+      return NextResponse.json(
+        { error: "date must be a yyyy-mm-dd date" },
+        { status: 400 }
+      );
+    }
+
+    const summary = await generateSummary(
+      supabase,
+      userData.user,
+      body.period,
+      date
+    );
+    return NextResponse.json({ summary });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    console.error("[/api/summaries] ERROR:", err);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
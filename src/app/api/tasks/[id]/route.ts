@@ -0,0 +1,62 @@
+// src/app/api/tasks/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { timeZoneFor, todayIn } from "@/lib/dates";
+import { isTaskStatus, TASK_STATUSES } from "@/lib/tasks";
+
+/** Marks a task done, dropped or open again; body `{ status, date? }` */
+export async function PATCH(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+
+  try {
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      status?: unknown;
+      date?: unknown;
+    };
+    if (!isTaskStatus(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${TASK_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const date =
+      typeof body.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(body.date)
+        ? body.date
+        : todayIn(timeZoneFor(userData.user));
+
+    const { data, error } = await supabase
+      .from("tasks")
+      .update({
+        status: body.status,
+        completed_on: body.status === "done" ? date : null,
+        closed_log_id: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("user_id", userData.user.id)
+      .select()
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({ task: data });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
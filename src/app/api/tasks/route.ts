@@ -0,0 +1,56 @@
+// src/app/api/tasks/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabase-server";
+import { isTaskStatus } from "@/lib/tasks";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The caller's tasks, oldest first. `status` filters; `from`/`to` keep the
+ * tasks that were alive at some point in that range.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const status = params.get("status");
+    const from = params.get("from");
+    const to = params.get("to");
+    if ((from && !ISO_DATE.test(from)) || (to && !ISO_DATE.test(to))) {
+      return NextResponse.json(
+        { error: "from and to must be yyyy-mm-dd dates" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = supabaseForRequest(req);
+    const { data: userData, error: userErr } = await supabase.auth.getUser();
+    if (userErr || !userData.user) {
+      return NextResponse.json(
+        { error: "Unauthorized (no session)" },
+        { status: 401 }
+      );
+    }
+
+    let q = supabase
+      .from("tasks")
+      .select("*")
+      .eq("user_id", userData.user.id)
+      .order("origin_date", { ascending: true })
+      .order("created_at", { ascending: true });
+    if (isTaskStatus(status)) q = q.eq("status", status);
+    if (to) q = q.lte("origin_date", to);
+    if (from) {
+      q = q.or(
+        `completed_on.gte.${from},and(completed_on.is.null,due_date.gte.${from})`
+      );
+    }
+    const { data, error } = await q;
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ tasks: data ?? [] });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
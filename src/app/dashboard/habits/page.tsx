@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabase-browser";
+import type { Session } from "@supabase/supabase-js";
+import { upgradeRow } from "@/lib/migrations";
+import { habitsFor } from "@/lib/habits";
+import { addDays, browserTimeZone, timeZoneFor, todayIn } from "@/lib/dates";
+import { dailySeries, metricsFor, type DayRow } from "@/lib/metrics";
+import { habitStreak, type PeriodCompletion } from "@/lib/streaks";
+import { CalendarHeatmap } from "@/components/CalendarHeatmap";
+
+const DAYS = 365;
+const RECENT_WEEKS = 8;
+const RECENT_MONTHS = 6;
+
+function Completion({
+  label,
+  periods,
+}: {
+  label: string;
+  periods: PeriodCompletion[];
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      <span className="w-16 text-neutral-500">{label}</span>
+      {periods.map((p) => (
+        <span
+          key={p.period}
+          title={`${p.period}: ${p.done}/${p.days} days`}
+          className="rounded bg-neutral-800 px-1.5 py-0.5 text-neutral-300"
+        >
+          {p.pct}%
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function HabitsPage() {
+  const router = useRouter();
+  const [session, setSession] = useState<Session | null>(null);
+  useEffect(() => {
+    supabase.auth
+      .getSession()
+      .then(({ data }) => setSession(data.session ?? null));
+    const { data: sub } = supabase.auth.onAuthStateChange((_e, s) =>
+      setSession(s)
+    );
+    return () => sub.subscription.unsubscribe();
+  }, []);
+
+  const habits = useMemo(() => habitsFor(session?.user), [session]);
+  const metrics = useMemo(() => metricsFor(habits), [habits]);
+  const tz = timeZoneFor(session?.user, browserTimeZone());
+  const today = todayIn(tz);
+  const from = addDays(today, -(DAYS - 1));
+
+  const [rows, setRows] = useState<DayRow[]>([]);
+  const [metricKey, setMetricKey] = useState(`habits.${habits[0]?.key}`);
+  const [err, setErr] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!session) return;
+    setLoading(true);
+    setErr(null);
+    supabase
+      .from("daily_logs")
+      .select("log_date, extracted, schema_version")
+      .gte("log_date", from)
+      .lte("log_date", today)
+      .order("log_date", { ascending: true })
+      .then(({ data, error }) => {
+        if (error) setErr(error.message);
+        else setRows((data ?? []).map(upgradeRow) as DayRow[]);
+        setLoading(false);
+      });
+  }, [session, from, today]);
+
+  const streaks = useMemo(
+    () => habits.map((h) => ({ def: h, ...habitStreak(rows, h, from, today) })),
+    [rows, habits, from, today]
+  );
+
+  const metric = metrics.find((m) => m.key === metricKey) ?? metrics[0];
+  const heat = useMemo(() => {
+    const { dates, values } = dailySeries(rows, metric, from, today);
+    return Object.fromEntries(dates.map((d, i) => [d, values[i]]));
+  }, [rows, metric, from, today]);
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="mx-auto max-w-5xl">
+        <h1 className="mb-3 text-2xl font-semibold">🔥 Habits</h1>
+
+        {!session && (
+          <div className="mb-4 rounded-md border border-yellow-800 bg-yellow-900/30 p-3 text-sm">
+            You’re not signed in. Go to{" "}
+            <Link href="/" className="underline">
+              Record
+            </Link>{" "}
+            and sign in first.
+          </div>
+        )}
+
+        {err && (
+          <div className="mb-4 rounded-md border border-rose-700 bg-rose-900/40 p-3 text-sm">
+            {err}
+          </div>
+        )}
+
+        <section className="mb-6 rounded-md border border-neutral-800 bg-neutral-900 p-3">
+          <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-neutral-300">
+            <span>Past year of</span>
+            <select
+              value={metric.key}
+              onChange={(e) => setMetricKey(e.target.value)}
+              className="rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1"
+            >
+              {metrics.map((m) => (
+                <option key={m.key} value={m.key}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            {loading && <span className="text-neutral-500">Loading…</span>}
+          </div>
+          <CalendarHeatmap
+            from={from}
+            to={today}
+            values={heat}
+            max={metric.max}
+            format={(v) =>
+              metric.boolean
+                ? v
+                  ? "done"
+                  : "not done"
+                : `${v}${metric.unit ? ` ${metric.unit}` : ""}`
+            }
+            onSelect={(d) => router.push(`/dashboard/logs?date=${d}`)}
+          />
+        </section>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {streaks.map((s) => (
+            <div
+              key={s.key}
+              className="rounded-md border border-neutral-800 bg-neutral-900 p-3"
+            >
+              <div className="mb-2 flex items-baseline justify-between">
+                <span className="font-medium">{s.def.name}</span>
+                <span className="text-sm text-neutral-400">
+                  🔥 {s.current} day{s.current === 1 ? "" : "s"} · best{" "}
+                  {s.longest}
+                  {s.longest_end && s.longest ? ` (to ${s.longest_end})` : ""}
+                </span>
+              </div>
+              <div className="space-y-1">
+                <Completion
+                  label="Weekly"
+                  periods={s.weeks.slice(-RECENT_WEEKS)}
+                />
+                <Completion
+                  label="Monthly"
+                  periods={s.months.slice(-RECENT_MONTHS)}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
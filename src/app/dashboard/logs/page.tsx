@@ -1,58 +1,72 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
 import { supabase } from "@/lib/supabase-browser";
 import type { Session } from "@supabase/supabase-js";
+import type { Extracted } from "@/lib/extracted";
+import { upgradeRow } from "@/lib/migrations";
+import type { LogRevision } from "@/lib/revisions";
+import type { SearchResult } from "@/lib/search";
+import type { Task, TaskStatus } from "@/lib/tasks";
+import { metricsFor } from "@/lib/metrics";
+import { describeGoal, goalHit, isActive, type Goal } from "@/lib/goals";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export/types";
+import {
+  formatHabitValue,
+  habitsFor,
+  type HabitDefinition,
+} from "@/lib/habits";
+import {
+  addDays,
+  browserTimeZone,
+  daysBetween,
+  formatTimeIn,
+  timeZoneFor,
+  todayIn,
+} from "@/lib/dates";
 
-/** yyyy-mm-dd in IST */
-function todayInIST(): string {
-  const now = new Date();
-  const istOffsetMin = 330;
-  const utcMs = now.getTime() + now.getTimezoneOffset() * 60000;
-  const ist = new Date(utcMs + istOffsetMin * 60000);
-  return ist.toISOString().slice(0, 10);
-}
-function addDays(dateISO: string, days: number) {
-  const d = new Date(dateISO);
-  d.setDate(d.getDate() + days);
-  return d.toISOString().slice(0, 10);
+/** The user's habits, plus any keys an older log has that are no longer defined */
+function habitRows(
+  defs: HabitDefinition[],
+  values: Extracted["habits"]
+): { def: HabitDefinition; value: unknown }[] {
+  const rows = defs.map((def) => ({ def, value: values?.[def.key] }));
+  for (const [key, value] of Object.entries(values ?? {})) {
+    if (defs.some((d) => d.key === key)) continue;
+    rows.push({
+      def: {
+        key,
+        name: key,
+        type: typeof value === "boolean" ? "boolean" : "number",
+      },
+      value,
+    });
+  }
+  return rows;
 }
 
-type Extracted = {
-  schema_version?: number;
-  sleep_hours?: number;
-  mood?: string;
-  energy?: number;
-  focus?: number;
-  highlights?: string[];
-  challenges?: string[];
-  gratitude?: string[];
-  habits?: {
-    yoga?: boolean;
-    workout?: boolean;
-    reading_minutes?: number;
-    no_smoking?: boolean;
-  };
-  work?: {
-    top_task_done?: string;
-    time_blocks?: { label: string; minutes: number }[];
-  };
-  health?: {
-    steps?: number;
-    water_glasses?: number;
-    calories?: number;
-  };
-  notes?: string;
-  todos_tomorrow?: string[];
+type LogEntry = {
+  id: string;
+  recorded_at: string;
+  transcript: string | null;
+  audio_url: string | null;
+  extracted: Extracted | null;
+  schema_version: number | null;
 };
 
 type DailyLog = {
   id: string;
   user_id: string;
   log_date: string; // stored as date in DB
-  transcript: string | null;
-  extracted: Extracted | null;
+  transcript: string | null; // every entry's transcript, oldest first
+  extracted: Extracted | null; // merged view of the day's entries
+  schema_version: number | null;
   created_at: string;
+  audio_url: string | null; // latest recording of the day
+  edited_fields: string[] | null; // corrected by hand; kept on re-extract
+  log_entries?: LogEntry[];
+  migration_error?: string; // shown as stored when it couldn't be upgraded
 };
 
 export default function LogsPage() {
@@ -68,240 +82,1190 @@ export default function LogsPage() {
     return () => sub.subscription.unsubscribe();
   }, []);
 
-  // date range – last 7 days to today by default
-  const [from, setFrom] = useState<string>(addDays(todayInIST(), -7));
-  const [to, setTo] = useState<string>(todayInIST());
+  const habits = habitsFor(session?.user);
+  const metrics = metricsFor(habits);
+
+  // date range – last 7 days to today (in the user's timezone) by default
+  const tz = timeZoneFor(session?.user, browserTimeZone());
+  const [from, setFrom] = useState<string>(() => addDays(todayIn(tz), -7));
+  const [to, setTo] = useState<string>(() => todayIn(tz));
+  const signedIn = Boolean(session?.user);
 
   // data
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [logs, setLogs] = useState<DailyLog[]>([]);
+  // The range `logs` were loaded for (the inputs may have moved on since)
+  const [loaded, setLoaded] = useState({ from, to });
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [view, setView] = useState<"list" | "calendar">("list");
+
+  // search (across all dates)
+  const [query, setQuery] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+
+  // export
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exporting, setExporting] = useState(false);
+
+  // re-extraction
+  const [overwriteEdits, setOverwriteEdits] = useState(false);
+  const [reextracting, setReextracting] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [bulk, setBulk] = useState<{
+    done: number;
+    total: number;
+    failed: number;
+    finished: boolean;
+  } | null>(null);
+
+  const fetchLogs = useCallback(
+    async (range: { from: string; to: string }) => {
+      setLoading(true);
+      setError(null);
+      try {
+        if (!signedIn) {
+          setLogs([]);
+          setError("Please sign in to see your logs.");
+          return;
+        }
 
-  async function fetchLogs() {
-    setLoading(true);
+        const { data, error } = await supabase
+          .from("daily_logs")
+          .select(
+            "*, log_entries(id, recorded_at, transcript, audio_url, extracted, schema_version)"
+          )
+          .gte("log_date", range.from)
+          .lte("log_date", range.to)
+          .order("log_date", { ascending: false })
+          .order("recorded_at", {
+            referencedTable: "log_entries",
+            ascending: true,
+          });
+
+        // Supabase errors are plain objects; rethrow them as Errors
+        if (error) throw new Error(error.message);
+
+        const { data: goalRows, error: goalErr } = await supabase
+          .from("goals")
+          .select("*")
+          .lte("start_date", range.to)
+          .or(`end_date.is.null,end_date.gte.${range.from}`);
+        if (goalErr) throw new Error(goalErr.message);
+        setGoals((goalRows ?? []) as Goal[]);
+
+        setLogs(
+          Array.isArray(data)
+            ? (data as DailyLog[]).map((d) => ({
+                ...upgradeRow(d),
+                log_entries: d.log_entries?.map(upgradeRow),
+              }))
+            : []
+        );
+        setLoaded(range);
+      } catch (e: unknown) {
+        setLogs([]);
+        setError(e instanceof Error ? e.message : "Failed to load logs.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [signedIn]
+  );
+
+  async function deleteLog(log: DailyLog) {
+    if (!session?.access_token) return;
+    if (!confirm(`Delete ${log.log_date} and its recordings?`)) return;
+    try {
+      const res = await fetch(`/api/logs/${log.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Delete failed");
+      setLogs((ls) => ls.filter((l) => l.id !== log.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Delete failed");
+    }
+  }
+
+  async function search(e: React.FormEvent) {
+    e.preventDefault();
+    if (!session?.access_token || !query.trim()) {
+      setResults(null);
+      return;
+    }
+    setSearching(true);
     setError(null);
     try {
-      if (!session?.user) {
-        setLogs([]);
-        setError("Please sign in to see your logs.");
-        return;
+      const res = await fetch(
+        `/api/logs/search?q=${encodeURIComponent(query.trim())}`,
+        { headers: { Authorization: `Bearer ${session.access_token}` } }
+      );
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Search failed");
+      setResults(json.results);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Search failed");
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  /** Downloads the current range (the route needs the auth header, so no plain link) */
+  async function exportRange() {
+    if (!session?.access_token) return;
+    setExporting(true);
+    setError(null);
+    try {
+      const qs = new URLSearchParams({ from, to, format: exportFormat });
+      const res = await fetch(`/api/logs/export?${qs}`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error || "Export failed");
       }
+      const name =
+        /filename="([^"]+)"/.exec(
+          res.headers.get("Content-Disposition") ?? ""
+        )?.[1] ?? `voice-diary.${exportFormat}`;
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function openDay(logDate: string) {
+    setView("list");
+    setFrom(logDate);
+    setTo(logDate);
+    fetchLogs({ from: logDate, to: logDate });
+  }
 
-      const { data, error } = await supabase
-        .from("daily_logs")
-        .select("*")
-        .gte("log_date", from)
-        .lte("log_date", to)
-        .order("log_date", { ascending: false });
-
-      if (error) throw error;
-      setLogs(Array.isArray(data) ? (data as DailyLog[]) : []);
-    } catch (e: any) {
-      setLogs([]);
-      setError(e?.message || "Failed to load logs.");
+  async function reextractLog(log: DailyLog) {
+    if (!session?.access_token) return;
+    setReextracting(log.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/logs/${log.id}/reextract`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ overwrite: overwriteEdits }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Re-extract failed");
+      setLogs((ls) =>
+        ls.map((l) => (l.id === log.id ? { ...l, ...json.row } : l))
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Re-extract failed");
     } finally {
-      setLoading(false);
+      setReextracting(null);
+    }
+  }
+
+  /** Re-extracts the whole range, following the server's NDJSON progress */
+  async function reextractRange() {
+    if (!session?.access_token) return;
+    if (
+      !confirm(
+        `Re-extract every day from ${from} to ${to}?` +
+          (overwriteEdits ? " Your hand edits will be overwritten." : "")
+      )
+    )
+      return;
+    setError(null);
+    setBulk({ done: 0, total: 0, failed: 0, finished: false });
+    try {
+      const res = await fetch("/api/logs/reextract", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ from, to, overwrite: overwriteEdits }),
+      });
+      if (!res.ok || !res.body) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error || "Re-extract failed");
+      }
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buf = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buf += value;
+        const lines = buf.split("\n");
+        buf = lines.pop() ?? "";
+        for (const line of lines.filter(Boolean)) {
+          const msg = JSON.parse(line);
+          if (msg.type === "progress") {
+            setBulk((b) => ({
+              done: msg.done,
+              total: msg.total,
+              failed: (b?.failed ?? 0) + (msg.ok ? 0 : 1),
+              finished: false,
+            }));
+          } else if (msg.type === "done") {
+            setBulk({
+              done: msg.total,
+              total: msg.total,
+              failed: msg.failed,
+              finished: true,
+            });
+          }
+        }
+      }
+      await fetchLogs({ from, to });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Re-extract failed");
+      setBulk(null);
     }
   }
 
+  // On sign-in, and again if the stored zone differs from the browser's:
+  // the last week in the user's zone
   useEffect(() => {
-    fetchLogs();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [session]);
+    const today = todayIn(tz);
+    let range = { from: addDays(today, -7), to: today };
+    // Linked to a single day, e.g. from the habits heatmap
+    const linked = new URLSearchParams(window.location.search).get("date");
+    if (linked && /^\d{4}-\d{2}-\d{2}$/.test(linked)) {
+      range = { from: linked, to: linked };
+    }
+    setFrom(range.from);
+    setTo(range.to);
+    fetchLogs(range);
+  }, [tz, fetchLogs]);
 
   return (
     <main className="min-h-screen p-6">
       <div className="mx-auto max-w-5xl">
-        <h1 className="mb-4 text-2xl font-semibold">📂 Logs</h1>
-
-        <div className="mb-4 flex items-center gap-3 text-sm">
-          <label>
-            From{" "}
-            <input
-              type="date"
-              value={from}
-              onChange={(e) => setFrom(e.target.value)}
-              className="ml-1 rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1 text-neutral-100"
-            />
-          </label>
-          <label>
-            To{" "}
-            <input
-              type="date"
-              value={to}
-              onChange={(e) => setTo(e.target.value)}
-              className="ml-1 rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1 text-neutral-100"
-            />
-          </label>
+        <div className="mb-4 flex items-center justify-between">
+          <h1 className="text-2xl font-semibold">📂 Logs</h1>
+          <div className="flex rounded-md border border-neutral-800 text-sm">
+            {(["list", "calendar"] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 capitalize ${
+                  view === v
+                    ? "bg-neutral-700 text-white"
+                    : "text-neutral-400 hover:text-neutral-200"
+                }`}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <form onSubmit={search} className="mb-4 flex items-center gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='Search all days, e.g. "job offer"'
+            className="flex-1 rounded-md border border-neutral-800 bg-neutral-900 px-3 py-1.5 text-neutral-100"
+          />
           <button
-            onClick={fetchLogs}
-            className="rounded-md bg-indigo-600 px-3 py-1.5 text-white hover:bg-indigo-500"
+            type="submit"
+            disabled={!session || searching}
+            className="rounded-md bg-neutral-700 px-3 py-1.5 text-sm text-white hover:bg-neutral-600 disabled:opacity-50"
           >
-            Refresh
+            {searching ? "Searching…" : "Search"}
           </button>
-        </div>
+          {results && (
+            <button
+              type="button"
+              onClick={() => {
+                setResults(null);
+                setQuery("");
+              }}
+              className="text-sm text-neutral-400 hover:text-neutral-200"
+            >
+              Clear
+            </button>
+          )}
+        </form>
 
-        {error && (
-          <div className="mb-4 rounded-md border border-rose-700 bg-rose-900/40 p-3">
-            {error}
+        {results && (
+          <div className="mb-6 rounded-lg border border-neutral-800 bg-neutral-900 p-3 text-sm">
+            {results.length === 0 ? (
+              <div className="text-neutral-400">No matches.</div>
+            ) : (
+              <ul className="space-y-2">
+                {results.map((r) => (
+                  <li key={r.id}>
+                    <button
+                      onClick={() => openDay(r.log_date)}
+                      className="font-medium text-indigo-300 hover:text-indigo-200"
+                    >
+                      {r.log_date}
+                    </button>
+                    <div className="text-neutral-400">
+                      {r.snippet.map((p, i) =>
+                        p.hit ? (
+                          <mark
+                            key={i}
+                            className="rounded bg-yellow-500/30 px-0.5 text-yellow-100"
+                          >
+                            {p.text}
+                          </mark>
+                        ) : (
+                          <span key={i}>{p.text}</span>
+                        )
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
-        {loading ? (
-          <div className="rounded-md border border-neutral-800 bg-neutral-900 p-4">
-            Loading…
-          </div>
-        ) : logs.length === 0 ? (
-          <div className="rounded-md border border-neutral-800 bg-neutral-900 p-4 text-neutral-400">
-            No logs in this range.
-          </div>
+        {view === "calendar" ? (
+          session && (
+            <MonthCalendar
+              userId={session.user.id}
+              today={todayIn(tz)}
+              onOpenDay={openDay}
+            />
+          )
         ) : (
-          <div className="space-y-6">
-            {logs.map((log) => {
-              const ex = (log.extracted ?? {}) as Extracted;
-              const fmt = (n?: number | null) =>
-                typeof n === "number" && !Number.isNaN(n) ? n : "—";
-              const list = (xs?: string[]) =>
-                (xs && xs.length ? xs : []).map((s, i) => (
-                  <li key={i} className="list-disc pl-4">
-                    {s}
-                  </li>
-                ));
+          <>
+            <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+              <label>
+                From{" "}
+                <input
+                  type="date"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className="ml-1 rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1 text-neutral-100"
+                />
+              </label>
+              <label>
+                To{" "}
+                <input
+                  type="date"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  className="ml-1 rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1 text-neutral-100"
+                />
+              </label>
+              <button
+                onClick={() => fetchLogs({ from, to })}
+                className="rounded-md bg-indigo-600 px-3 py-1.5 text-white hover:bg-indigo-500"
+              >
+                Refresh
+              </button>
+              <select
+                value={exportFormat}
+                onChange={(e) =>
+                  setExportFormat(e.target.value as ExportFormat)
+                }
+                className="rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1.5 text-neutral-100"
+              >
+                {EXPORT_FORMATS.map((f) => (
+                  <option key={f} value={f}>
+                    {f.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={exportRange}
+                disabled={!session || exporting}
+                className="rounded-md bg-neutral-700 px-3 py-1.5 text-white hover:bg-neutral-600 disabled:opacity-50"
+              >
+                {exporting ? "Exporting…" : "Export"}
+              </button>
+              <button
+                onClick={reextractRange}
+                disabled={!session || (bulk !== null && !bulk.finished)}
+                className="rounded-md bg-neutral-700 px-3 py-1.5 text-white hover:bg-neutral-600 disabled:opacity-50"
+              >
+                Re-extract range
+              </button>
+              <label className="flex items-center gap-1 text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={overwriteEdits}
+                  onChange={(e) => setOverwriteEdits(e.target.checked)}
+                />
+                Overwrite my edits
+              </label>
+              {bulk && (
+                <span className="text-neutral-400">
+                  {bulk.finished ? "Re-extracted" : "Re-extracting"} {bulk.done}
+                  /{bulk.total}
+                  {bulk.failed > 0 && (
+                    <span className="text-rose-400">
+                      {" "}
+                      ({bulk.failed} failed)
+                    </span>
+                  )}
+                </span>
+              )}
+            </div>
 
-              return (
-                <div
-                  key={log.id}
-                  className="rounded-lg border border-neutral-800 bg-neutral-900 p-4"
-                >
-                  <div className="mb-3 flex flex-wrap items-center justify-between gap-2 text-sm">
-                    <div className="font-medium">{log.log_date}</div>
-                    <div className="flex gap-4 text-neutral-400">
-                      <div>
-                        <span className="text-neutral-300">Mood:</span>{" "}
-                        {ex.mood ?? "—"}
-                      </div>
-                      <div>
-                        <span className="text-neutral-300">Energy:</span>{" "}
-                        {fmt(ex.energy)}
-                      </div>
-                      <div>
-                        <span className="text-neutral-300">Focus:</span>{" "}
-                        {fmt(ex.focus)}
-                      </div>
-                      <div>
-                        <span className="text-neutral-300">Sleep:</span>{" "}
-                        {fmt(ex.sleep_hours)}
-                      </div>
-                      <div>
-                        <span className="text-neutral-300">Top task:</span>{" "}
-                        {ex.work?.top_task_done || "—"}
-                      </div>
-                    </div>
-                  </div>
+            {error && (
+              <div className="mb-4 rounded-md border border-rose-700 bg-rose-900/40 p-3">
+                {error}
+              </div>
+            )}
 
-                  {/* Transcript */}
-                  {log.transcript ? (
-                    <div className="mb-4">
-                      <div className="mb-1 text-sm font-medium text-neutral-300">
-                        Transcript
-                      </div>
-                      <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3 leading-relaxed">
-                        {log.transcript}
-                      </div>
-                    </div>
-                  ) : null}
+            {session && (
+              <TaskTimeline
+                from={loaded.from}
+                to={loaded.to}
+                token={session.access_token}
+                refresh={logs}
+              />
+            )}
 
-                  {/* Panels */}
-                  <div className="grid gap-3 md:grid-cols-2">
-                    <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
-                      <div className="mb-1 text-sm font-medium text-neutral-300">
-                        Highlights
-                      </div>
-                      <ul className="space-y-1 text-neutral-200">
-                        {list(ex.highlights)}
-                        {!ex.highlights?.length && <div>—</div>}
-                      </ul>
-                    </div>
+            {loading ? (
+              <div className="rounded-md border border-neutral-800 bg-neutral-900 p-4">
+                Loading…
+              </div>
+            ) : logs.length === 0 ? (
+              <div className="rounded-md border border-neutral-800 bg-neutral-900 p-4 text-neutral-400">
+                No logs in this range.
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {logs.map((log) => {
+                  const ex = (log.extracted ?? {}) as Extracted;
+                  const fmt = (n?: number | null) =>
+                    typeof n === "number" && !Number.isNaN(n) ? n : "—";
+                  const list = (xs?: string[]) =>
+                    (xs && xs.length ? xs : []).map((s, i) => (
+                      <li key={i} className="list-disc pl-4">
+                        {s}
+                      </li>
+                    ));
 
-                    <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
-                      <div className="mb-1 text-sm font-medium text-neutral-300">
-                        Challenges
+                  return (
+                    <div
+                      key={log.id}
+                      className="rounded-lg border border-neutral-800 bg-neutral-900 p-4"
+                    >
+                      <div className="mb-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{log.log_date}</span>
+                          {log.migration_error && (
+                            <span
+                              title={log.migration_error}
+                              className="rounded bg-amber-900/50 px-1.5 py-0.5 text-xs text-amber-300"
+                            >
+                              Not upgraded
+                            </span>
+                          )}
+                          {goals
+                            .filter((g) => isActive(g, log.log_date))
+                            .map((g) => {
+                              const metric = metrics.find(
+                                (m) => m.key === g.metric
+                              );
+                              const hit = metric && goalHit(g, metric, ex);
+                              if (!metric || hit === undefined) return null;
+                              return (
+                                <span
+                                  key={g.id}
+                                  title={describeGoal(g, metric)}
+                                  className={`rounded px-1.5 py-0.5 text-xs ${
+                                    hit
+                                      ? "bg-emerald-900/60 text-emerald-300"
+                                      : "bg-rose-900/50 text-rose-300"
+                                  }`}
+                                >
+                                  {hit ? "✓" : "✗"} {metric.label}
+                                </span>
+                              );
+                            })}
+                        </div>
+                        <div className="flex gap-4 text-neutral-400">
+                          <div>
+                            <span className="text-neutral-300">Mood:</span>{" "}
+                            {ex.mood ?? "—"}
+                          </div>
+                          <div>
+                            <span className="text-neutral-300">Energy:</span>{" "}
+                            {fmt(ex.energy)}
+                          </div>
+                          <div>
+                            <span className="text-neutral-300">Focus:</span>{" "}
+                            {fmt(ex.focus)}
+                          </div>
+                          <div>
+                            <span className="text-neutral-300">Sleep:</span>{" "}
+                            {fmt(ex.sleep_hours)}
+                          </div>
+                          <div>
+                            <span className="text-neutral-300">Top task:</span>{" "}
+                            {ex.work?.top_task_done || "—"}
+                          </div>
+                          <button
+                            onClick={() => reextractLog(log)}
+                            disabled={reextracting === log.id}
+                            title={
+                              log.edited_fields?.length && !overwriteEdits
+                                ? `Keeps your edits to: ${log.edited_fields.join(
+                                    ", "
+                                  )}`
+                                : undefined
+                            }
+                            className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                          >
+                            {reextracting === log.id
+                              ? "Re-extracting…"
+                              : "Re-extract"}
+                          </button>
+                          <button
+                            onClick={() =>
+                              setHistoryFor((h) =>
+                                h === log.id ? null : log.id
+                              )
+                            }
+                            className="text-neutral-300 hover:text-white"
+                          >
+                            History
+                          </button>
+                          <button
+                            onClick={() => deleteLog(log)}
+                            className="text-rose-400 hover:text-rose-300"
+                          >
+                            Delete
+                          </button>
+                        </div>
                       </div>
-                      <ul className="space-y-1 text-neutral-200">
-                        {list(ex.challenges)}
-                        {!ex.challenges?.length && <div>—</div>}
-                      </ul>
-                    </div>
 
-                    <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
-                      <div className="mb-1 text-sm font-medium text-neutral-300">
-                        Gratitude
-                      </div>
-                      <ul className="space-y-1 text-neutral-200">
-                        {list(ex.gratitude)}
-                        {!ex.gratitude?.length && <div>—</div>}
-                      </ul>
-                    </div>
+                      {historyFor === log.id && session && (
+                        <RevisionHistory
+                          logId={log.id}
+                          token={session.access_token}
+                          userId={session.user.id}
+                          onReverted={(row) =>
+                            setLogs((ls) =>
+                              ls.map((l) =>
+                                l.id === log.id
+                                  ? { ...l, ...upgradeRow(row) }
+                                  : l
+                              )
+                            )
+                          }
+                        />
+                      )}
 
-                    <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
-                      <div className="mb-1 text-sm font-medium text-neutral-300">
-                        Habits
-                      </div>
-                      <div className="text-neutral-200">
-                        Yoga: {ex.habits?.yoga ? "✔" : "—"}
-                        {" · "}
-                        Workout: {ex.habits?.workout ? "✔" : "—"}
-                        {" · "}
-                        No smoking: {ex.habits?.no_smoking ? "✔" : "—"}
-                        {" · "}
-                        Reading minutes: {fmt(ex.habits?.reading_minutes)}
-                      </div>
-                    </div>
+                      {/* Entries timeline (one per recording) */}
+                      {log.log_entries?.length ? (
+                        <div className="mb-4">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Entries ({log.log_entries.length})
+                          </div>
+                          <ol className="space-y-3 border-l border-neutral-800 pl-4">
+                            {log.log_entries.map((entry) => (
+                              <li key={entry.id} className="relative">
+                                <span className="absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full bg-indigo-500" />
+                                <div className="mb-1 text-xs text-neutral-400">
+                                  {formatTimeIn(entry.recorded_at, tz)}
+                                  {entry.extracted?.mood
+                                    ? ` · ${entry.extracted.mood}`
+                                    : ""}
+                                </div>
+                                <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3 leading-relaxed">
+                                  {entry.transcript || "—"}
+                                </div>
+                                {entry.audio_url && (
+                                  <audio
+                                    controls
+                                    preload="none"
+                                    src={entry.audio_url}
+                                    className="mt-2 w-full"
+                                  />
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      ) : log.transcript ? (
+                        <div className="mb-4">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Transcript
+                          </div>
+                          <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3 leading-relaxed">
+                            {log.transcript}
+                          </div>
+                          {log.audio_url && (
+                            <audio
+                              controls
+                              preload="none"
+                              src={log.audio_url}
+                              className="mt-2 w-full"
+                            />
+                          )}
+                        </div>
+                      ) : null}
 
-                    <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
-                      <div className="mb-1 text-sm font-medium text-neutral-300">
-                        Health
-                      </div>
-                      <div className="grid grid-cols-3 gap-2 text-neutral-200">
-                        <div>Steps: {fmt(ex.health?.steps)}</div>
-                        <div>Water: {fmt(ex.health?.water_glasses)}</div>
-                        <div>Calories: {fmt(ex.health?.calories)}</div>
-                      </div>
-                    </div>
+                      {/* Panels */}
+                      <div className="grid gap-3 md:grid-cols-2">
+                        <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Highlights
+                          </div>
+                          <ul className="space-y-1 text-neutral-200">
+                            {list(ex.highlights)}
+                            {!ex.highlights?.length && <div>—</div>}
+                          </ul>
+                        </div>
 
-                    <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
-                      <div className="mb-1 text-sm font-medium text-neutral-300">
-                        Todos tomorrow
-                      </div>
-                      <ul className="space-y-1 text-neutral-200">
-                        {list(ex.todos_tomorrow)}
-                        {!ex.todos_tomorrow?.length && <div>—</div>}
-                      </ul>
-                    </div>
+                        <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Challenges
+                          </div>
+                          <ul className="space-y-1 text-neutral-200">
+                            {list(ex.challenges)}
+                            {!ex.challenges?.length && <div>—</div>}
+                          </ul>
+                        </div>
+
+                        <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Gratitude
+                          </div>
+                          <ul className="space-y-1 text-neutral-200">
+                            {list(ex.gratitude)}
+                            {!ex.gratitude?.length && <div>—</div>}
+                          </ul>
+                        </div>
+
+                        <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Habits
+                          </div>
+                          <div className="text-neutral-200">
+                            {habitRows(habits, ex.habits)
+                              .map(
+                                ({ def, value }) =>
+                                  `${def.name}: ${formatHabitValue(def, value)}`
+                              )
+                              .join(" · ")}
+                          </div>
+                        </div>
+
+                        <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Health
+                          </div>
+                          <div className="grid grid-cols-3 gap-2 text-neutral-200">
+                            <div>Steps: {fmt(ex.health?.steps)}</div>
+                            <div>Water: {fmt(ex.health?.water_glasses)}</div>
+                            <div>Calories: {fmt(ex.health?.calories)}</div>
+                          </div>
+                        </div>
+
+                        <div className="rounded-md border border-neutral-800 bg-neutral-950 p-3">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Todos tomorrow
+                          </div>
+                          <ul className="space-y-1 text-neutral-200">
+                            {list(ex.todos_tomorrow)}
+                            {!ex.todos_tomorrow?.length && <div>—</div>}
+                          </ul>
+                          {!!ex.tasks_done?.length && (
+                            <>
+                              <div className="mb-1 mt-2 text-sm font-medium text-neutral-300">
+                                Done from earlier
+                              </div>
+                              <ul className="space-y-1 text-emerald-300">
+                                {list(ex.tasks_done)}
+                              </ul>
+                            </>
+                          )}
+                        </div>
 
-                    <div className="md:col-span-2 rounded-md border border-neutral-800 bg-neutral-950 p-3">
-                      <div className="mb-1 text-sm font-medium text-neutral-300">
-                        Notes
+                        <div className="md:col-span-2 rounded-md border border-neutral-800 bg-neutral-950 p-3">
+                          <div className="mb-1 text-sm font-medium text-neutral-300">
+                            Notes
+                          </div>
+                          <div className="text-neutral-200">
+                            {ex.notes || "—"}
+                          </div>
+                        </div>
                       </div>
-                      <div className="text-neutral-200">{ex.notes || "—"}</div>
-                    </div>
-                  </div>
 
-                  {/* Raw JSON (read-only) */}
-                  <div className="mt-4 rounded-md border border-neutral-800 bg-neutral-950 p-3">
-                    <div className="mb-1 text-sm font-medium text-neutral-300">
-                      Extracted (raw JSON)
+                      {/* Raw JSON (read-only) */}
+                      <div className="mt-4 rounded-md border border-neutral-800 bg-neutral-950 p-3">
+                        <div className="mb-1 text-sm font-medium text-neutral-300">
+                          Extracted (raw JSON)
+                        </div>
+                        <pre className="overflow-auto text-xs text-neutral-200">
+                          {JSON.stringify(log.extracted ?? {}, null, 2)}
+                        </pre>
+                      </div>
                     </div>
-                    <pre className="overflow-auto text-xs text-neutral-200">
-                      {JSON.stringify(log.extracted ?? {}, null, 2)}
-                    </pre>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
         )}
       </div>
     </main>
   );
 }
+
+/* ---------------- Month calendar ---------------- */
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+type CalendarDay = Pick<DailyLog, "id" | "log_date" | "extracted">;
+
+/**
+ * A month at a time, Monday first. Logged days show mood and key metrics;
+ * past days without a log are marked missed and link to the recorder.
+ */
+function MonthCalendar({
+  userId,
+  today,
+  onOpenDay,
+}: {
+  userId: string;
+  today: string;
+  onOpenDay: (logDate: string) => void;
+}) {
+  const [month, setMonth] = useState(today.slice(0, 7));
+  const [days, setDays] = useState<Map<string, CalendarDay>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+
+  const first = `${month}-01`;
+  const [y, m] = month.split("-").map(Number);
+  const nextMonth = new Date(Date.UTC(y, m, 1)).toISOString().slice(0, 10);
+  const last = addDays(nextMonth, -1);
+
+  useEffect(() => {
+    supabase
+      .from("daily_logs")
+      .select("id, log_date, extracted, schema_version")
+      .eq("user_id", userId)
+      .gte("log_date", first)
+      .lte("log_date", last)
+      .then(({ data, error }) => {
+        if (error) {
+          setError(error.message);
+          return;
+        }
+        setError(null);
+        setDays(
+          new Map(
+            (data ?? []).map((d) => {
+              const row = upgradeRow(d) as CalendarDay;
+              return [row.log_date, row];
+            })
+          )
+        );
+      });
+  }, [userId, first, last]);
+
+  // Pad to whole Monday–Sunday weeks
+  const lead = (new Date(`${first}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const cells = Array.from(
+    { length: Math.ceil((lead + daysBetween(first, last) + 1) / 7) * 7 },
+    (_, i) => addDays(first, i - lead)
+  );
+  // Today isn't missed yet, only not recorded
+  const missed = cells.filter(
+    (d) => d >= first && d <= last && d < today && !days.has(d)
+  ).length;
+  const title = new Date(`${first}T00:00:00Z`).toLocaleString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+  return (
+    <section>
+      <div className="mb-3 flex flex-wrap items-center gap-3 text-sm">
+        <button
+          onClick={() => setMonth(addDays(first, -1).slice(0, 7))}
+          className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+        >
+          ←
+        </button>
+        <span className="w-36 text-center font-medium">{title}</span>
+        <button
+          onClick={() => setMonth(nextMonth.slice(0, 7))}
+          disabled={nextMonth > today}
+          className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700 disabled:opacity-40"
+        >
+          →
+        </button>
+        <span className={missed ? "text-rose-300" : "text-neutral-400"}>
+          {first > today
+            ? ""
+            : missed
+            ? `${missed} missed day${missed === 1 ? "" : "s"} this month`
+            : "No missed days this month 🎉"}
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-md border border-rose-700 bg-rose-900/40 p-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-7 gap-1 text-xs">
+        {WEEKDAYS.map((d) => (
+          <div key={d} className="px-1 text-neutral-500">
+            {d}
+          </div>
+        ))}
+        {cells.map((d) => {
+          const inMonth = d >= first && d <= last;
+          const log = days.get(d);
+          const x = log?.extracted ?? {};
+          const dayNum = Number(d.slice(8));
+
+          if (!inMonth) return <div key={d} />;
+          if (log) {
+            return (
+              <button
+                key={d}
+                onClick={() => onOpenDay(d)}
+                className="min-h-20 rounded-md border border-neutral-800 bg-neutral-900 p-1.5 text-left hover:border-neutral-600"
+              >
+                <div className="font-medium">{dayNum}</div>
+                <div className="truncate text-neutral-200">{x.mood ?? "—"}</div>
+                <div className="text-neutral-400">
+                  {x.energy !== undefined && `⚡${x.energy} `}
+                  {x.sleep_hours !== undefined && `🛌${x.sleep_hours}`}
+                </div>
+              </button>
+            );
+          }
+          if (d > today) {
+            return (
+              <div
+                key={d}
+                className="min-h-20 rounded-md border border-neutral-900 p-1.5 text-neutral-600"
+              >
+                {dayNum}
+              </div>
+            );
+          }
+          if (d === today) {
+            return (
+              <Link
+                key={d}
+                href="/"
+                title="Nothing logged yet today"
+                className="min-h-20 rounded-md border border-dashed border-neutral-700 p-1.5 text-neutral-300 hover:bg-neutral-800/60"
+              >
+                <div className="font-medium">{dayNum}</div>
+                <div className="text-neutral-500">+ record today</div>
+              </Link>
+            );
+          }
+          return (
+            <Link
+              key={d}
+              href={`/?log_date=${d}`}
+              title="Nothing logged — record it now"
+              className="min-h-20 rounded-md border border-dashed border-rose-800/70 p-1.5 text-rose-300/80 hover:bg-rose-900/20"
+            >
+              <div className="font-medium">{dayNum}</div>
+              <div>missed</div>
+              <div className="text-neutral-500">+ backfill</div>
+            </Link>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+/* ---------------- Task timeline ---------------- */
+
+const TASK_CELL: Record<TaskStatus, string> = {
+  open: "bg-amber-500/70",
+  done: "bg-emerald-500",
+  dropped: "bg-neutral-600",
+};
+
+/** Longer ranges list the tasks without the per-day cells */
+const TIMELINE_MAX_DAYS = 62;
+
+/** One row per task alive in the range: said → carried → done/dropped */
+function TaskTimeline({
+  from,
+  to,
+  token,
+  refresh,
+}: {
+  from: string;
+  to: string;
+  token: string;
+  refresh: unknown;
+}) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/tasks?from=${from}&to=${to}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || "Failed to load tasks");
+        setTasks(json.tasks);
+        setError(null);
+      })
+      .catch((e) => setError(e.message));
+  }, [from, to, token, refresh]);
+
+  async function setStatus(task: Task, status: TaskStatus) {
+    const res = await fetch(`/api/tasks/${task.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ status }),
+    });
+    const json = await res.json();
+    if (!res.ok) {
+      setError(json?.error || "Failed to update task");
+      return;
+    }
+    setTasks((ts) => ts.map((t) => (t.id === task.id ? json.task : t)));
+  }
+
+  if (!tasks.length && !error) return null;
+  const span = daysBetween(from, to);
+  const days =
+    span >= 0 && span < TIMELINE_MAX_DAYS
+      ? Array.from({ length: span + 1 }, (_, i) => addDays(from, i))
+      : [];
+  const cell = (t: Task, d: string) => {
+    if (d < t.origin_date) return "";
+    const end = t.completed_on ?? (t.status === "open" ? to : t.due_date);
+    if (d > end) return "";
+    if (d === t.completed_on) return TASK_CELL.done;
+    if (d === end && t.status === "dropped") return TASK_CELL.dropped;
+    return d === t.origin_date ? "bg-indigo-400" : TASK_CELL.open;
+  };
+
+  return (
+    <section className="mb-6 rounded-lg border border-neutral-800 bg-neutral-900 p-3 text-sm">
+      <h2 className="mb-2 font-medium">🗒️ Tasks</h2>
+      {error && <div className="mb-2 text-rose-300">{error}</div>}
+      <ul className="space-y-1.5">
+        {tasks.map((t) => (
+          <li key={t.id} className="flex flex-wrap items-center gap-2">
+            <span
+              className={`w-60 truncate ${
+                t.status === "dropped" ? "text-neutral-500 line-through" : ""
+              }`}
+              title={t.title}
+            >
+              {t.title}
+            </span>
+            {days.length > 0 && (
+              <span className="flex gap-[2px]">
+                {days.map((d) => (
+                  <span
+                    key={d}
+                    title={d}
+                    className={`h-3 w-3 rounded-sm ${
+                      cell(t, d) || "bg-neutral-800"
+                    }`}
+                  />
+                ))}
+              </span>
+            )}
+            <span className="text-xs text-neutral-500">
+              said {t.origin_date}
+              {t.carried > 0 && ` · carried ${t.carried}×`}
+              {t.completed_on && ` · done ${t.completed_on}`}
+            </span>
+            <span className="ml-auto flex gap-1 text-xs">
+              {t.status !== "done" && (
+                <button
+                  onClick={() => setStatus(t, "done")}
+                  className="rounded px-2 py-0.5 text-emerald-300 hover:bg-neutral-800"
+                >
+                  Done
+                </button>
+              )}
+              {t.status === "open" ? (
+                <button
+                  onClick={() => setStatus(t, "dropped")}
+                  className="rounded px-2 py-0.5 text-neutral-400 hover:bg-neutral-800"
+                >
+                  Drop
+                </button>
+              ) : (
+                <button
+                  onClick={() => setStatus(t, "open")}
+                  className="rounded px-2 py-0.5 text-neutral-400 hover:bg-neutral-800"
+                >
+                  Reopen
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/* ---------------- Revision history ---------------- */
+
+const show = (v: unknown) =>
+  v === null || v === undefined
+    ? "—"
+    : typeof v === "string"
+    ? v
+    : JSON.stringify(v);
+
+function RevisionHistory({
+  logId,
+  token,
+  userId,
+  onReverted,
+}: {
+  logId: string;
+  token: string;
+  userId: string;
+  onReverted: (row: DailyLog) => void;
+}) {
+  const [revisions, setRevisions] = useState<LogRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/logs/${logId}/revisions`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Failed to load history");
+      setRevisions(json.revisions);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load history");
+    }
+  }, [logId, token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function revert(rev: LogRevision, state: "before" | "after") {
+    const when = new Date(rev.created_at).toLocaleString();
+    if (
+      !confirm(
+        state === "before"
+          ? "Restore the day as it was before any edits?"
+          : `Restore the day as it was after the edit of ${when}?`
+      )
+    )
+      return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/logs/${logId}/revisions/${rev.id}/revert`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ state }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Revert failed");
+      onReverted(json.row);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Revert failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const oldest = revisions?.[revisions.length - 1];
+
+  return (
+    <div className="mb-4 rounded-md border border-neutral-800 bg-neutral-950 p-3 text-sm">
+      <div className="mb-2 font-medium text-neutral-300">History</div>
+      {error && <div className="mb-2 text-rose-300">{error}</div>}
+      {!revisions ? (
+        <div className="text-neutral-500">Loading…</div>
+      ) : revisions.length === 0 ? (
+        <div className="text-neutral-500">No edits yet.</div>
+      ) : (
+        <ol className="space-y-3">
+          {revisions.map((rev, i) => (
+            <li key={rev.id} className="border-l border-neutral-800 pl-3">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-400">
+                <span>{new Date(rev.created_at).toLocaleString()}</span>
+                <span>·</span>
+                <span>{rev.source === "revert" ? "reverted" : "edited"}</span>
+                <span>
+                  by {rev.author_id === userId ? "you" : rev.author_id}
+                </span>
+                {i > 0 && (
+                  <button
+                    disabled={busy}
+                    onClick={() => revert(rev, "after")}
+                    className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                  >
+                    Revert to this
+                  </button>
+                )}
+              </div>
+              {rev.diff.length === 0 ? (
+                <div className="text-neutral-500">No changes</div>
+              ) : (
+                <ul className="mt-1 space-y-0.5">
+                  {rev.diff.map((c) => (
+                    <li key={c.path}>
+                      <code className="text-fuchsia-300">{c.path}</code>:{" "}
+                      <span className="text-neutral-500 line-through">
+                        {show(c.before)}
+                      </span>{" "}
+                      →{" "}
+                      <span className="text-neutral-200">{show(c.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+      {oldest && (
+        <button
+          disabled={busy}
+          onClick={() => revert(oldest, "before")}
+          className="mt-3 text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+        >
+          Restore original (before any edits)
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,52 @@
 "use client";
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "@/lib/supabase-browser";
 import type { Session } from "@supabase/supabase-js";
+import { upgradeRow } from "@/lib/migrations";
+import { habitsFor } from "@/lib/habits";
+import { addDays, browserTimeZone, timeZoneFor, todayIn } from "@/lib/dates";
+import {
+  dailySeries,
+  hasData,
+  metricsFor,
+  rollingAverage,
+  shiftValues,
+  type DayRow,
+  type Metric,
+} from "@/lib/metrics";
+import type { Insight, Skipped } from "@/lib/insights";
+import { adherence, describeGoal, type Goal } from "@/lib/goals";
+import { MetricChart } from "@/components/MetricChart";
 
-type Point = { x: string; y: number };
+const ROLLING_DAYS = 7;
+const COLORS = { a: "#818cf8", b: "#f472b6" };
 
-function todayISO(n = 0) {
-  const d = new Date();
-  d.setDate(d.getDate() + n);
-  return d.toISOString().slice(0, 10);
-}
+const STRENGTH_STYLES: Record<Insight["strength"], string> = {
+  strong: "border-emerald-700 bg-emerald-900/30",
+  moderate: "border-indigo-700 bg-indigo-900/30",
+  weak: "border-neutral-700 bg-neutral-900",
+};
+
+type Insights = {
+  days: number;
+  min_days: number;
+  insights: Insight[];
+  skipped: Skipped[];
+};
+
+const axisTitle = (m: Metric) => (m.unit ? `${m.label} (${m.unit})` : m.label);
 
 export default function Dashboard() {
   const [session, setSession] = useState<Session | null>(null);
-  const [from, setFrom] = useState(todayISO(-30));
-  const [to, setTo] = useState(todayISO(0));
-  const [sleep, setSleep] = useState<Point[]>([]);
-  const [energy, setEnergy] = useState<Point[]>([]);
-  const [focus, setFocus] = useState<Point[]>([]);
+  const tz = timeZoneFor(session?.user, browserTimeZone());
+  const [from, setFrom] = useState(() => addDays(todayIn(tz), -30));
+  const [to, setTo] = useState(() => todayIn(tz));
+  const rangeTz = useRef(tz);
+  // Rows for the loaded range (plus the days rolling averages and lags need)
+  const [rows, setRows] = useState<DayRow[]>([]);
+  const [shown, setShown] = useState({ from, to });
+  const [insights, setInsights] = useState<Insights | null>(null);
+  const [goals, setGoals] = useState<Goal[]>([]);
   const [err, setErr] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -31,7 +60,9 @@ export default function Dashboard() {
     return () => sub.subscription.unsubscribe();
   }, []);
 
-  async function load() {
+  const habits = useMemo(() => habitsFor(session?.user), [session]);
+
+  async function load(range = { from, to }) {
     if (!session) {
       setErr("Please sign in to see your dashboard.");
       return;
@@ -41,29 +72,30 @@ export default function Dashboard() {
     try {
       const { data, error } = await supabase
         .from("daily_logs")
-        .select("log_date, extracted")
-        .gte("log_date", from)
-        .lte("log_date", to)
+        .select("log_date, extracted, schema_version")
+        .gte("log_date", addDays(range.from, -(ROLLING_DAYS - 1)))
+        .lte("log_date", addDays(range.to, 1))
         .order("log_date", { ascending: true });
 
       if (error) throw error;
 
-      const s: Point[] = [];
-      const e: Point[] = [];
-      const f: Point[] = [];
-
-      for (const row of data ?? []) {
-        const ex = (row as any).extracted ?? {};
-        if (typeof ex.sleep_hours === "number")
-          s.push({ x: row.log_date, y: ex.sleep_hours });
-        if (typeof ex.energy === "number")
-          e.push({ x: row.log_date, y: ex.energy });
-        if (typeof ex.focus === "number")
-          f.push({ x: row.log_date, y: ex.focus });
-      }
-      setSleep(s);
-      setEnergy(e);
-      setFocus(f);
+      setRows((data ?? []).map(upgradeRow) as DayRow[]);
+      setShown(range);
+
+      const { data: goalRows, error: goalErr } = await supabase
+        .from("goals")
+        .select("*")
+        .order("start_date", { ascending: true });
+      if (goalErr) throw goalErr;
+      setGoals((goalRows ?? []) as Goal[]);
+
+      const res = await fetch(
+        `/api/insights?from=${range.from}&to=${range.to}`,
+        { headers: { Authorization: `Bearer ${session.access_token}` } }
+      );
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to load insights");
+      setInsights(json);
     } catch (e: any) {
       setErr(e.message || "Failed to load dashboard");
     } finally {
@@ -72,35 +104,46 @@ export default function Dashboard() {
   }
 
   useEffect(() => {
-    if (session) load();
+    // Same "today" as the recorder: re-anchor when the stored zone arrives
+    let range = { from, to };
+    if (rangeTz.current !== tz) {
+      rangeTz.current = tz;
+      const today = todayIn(tz);
+      range = { from: addDays(today, -30), to: today };
+      setFrom(range.from);
+      setTo(range.to);
+    }
+    if (session) load(range);
   }, [session]);
 
-  const Chart = useMemo(
-    () =>
-      function Chart({ title, data }: { title: string; data: Point[] }) {
-        return (
-          <div className="rounded-md border border-neutral-800 bg-neutral-900 p-3">
-            <div className="mb-2 text-sm text-neutral-300">{title}</div>
-            {data.length === 0 ? (
-              <div className="py-12 text-center text-sm text-neutral-500">
-                No data
-              </div>
-            ) : (
-              <ul className="space-y-1 text-xs text-neutral-300">
-                {data.map((p) => (
-                  <li key={p.x} className="flex justify-between">
-                    <span>{p.x}</span>
-                    <span>{p.y}</span>
-                  </li>
-                ))}
-              </ul>
-            )}
-          </div>
-        );
-      },
-    []
+  const metrics = useMemo(() => metricsFor(habits), [habits]);
+  const goalResults = useMemo(
+    () => adherence(goals, rows, habits, shown.from, shown.to, todayIn(tz)),
+    [goals, rows, habits, shown, tz]
   );
 
+  // Series cover the extra leading days so the first averages are complete
+  const lead = ROLLING_DAYS - 1;
+  const series = useMemo(() => {
+    const start = addDays(shown.from, -lead);
+    const end = addDays(shown.to, 1);
+    return Object.fromEntries(
+      metrics.map((m) => [m.key, dailySeries(rows, m, start, end)])
+    );
+  }, [rows, metrics, shown, lead]);
+  const visible = <T,>(values: T[]) => values.slice(lead, values.length - 1);
+  const dates = visible(series[metrics[0].key].dates);
+
+  const charted = metrics.filter((m) => hasData(visible(series[m.key].values)));
+  const empty = metrics.filter((m) => !charted.includes(m));
+
+  // Overlay of two metrics on their own axes, e.g. sleep vs next-day energy
+  const [overlayA, setOverlayA] = useState("sleep_hours");
+  const [overlayB, setOverlayB] = useState("energy");
+  const [lagDays, setLagDays] = useState(1);
+  const metricA = metrics.find((m) => m.key === overlayA) ?? metrics[0];
+  const metricB = metrics.find((m) => m.key === overlayB) ?? metrics[1];
+
   return (
     <main className="min-h-screen p-6">
       <div className="mx-auto max-w-5xl">
@@ -142,7 +185,7 @@ export default function Dashboard() {
             />
           </label>
           <button
-            onClick={load}
+            onClick={() => load()}
             disabled={!session || loading}
             className={`rounded-md px-3 py-1 text-white ${
               !session || loading
@@ -154,13 +197,198 @@ export default function Dashboard() {
           </button>
         </div>
 
-        <div className="grid gap-4 md:grid-cols-2">
-          <Chart title="🛌 Sleep (hrs)" data={sleep} />
-          <Chart title="⚡️ Energy (0–10)" data={energy} />
-          <div className="md:col-span-2">
-            <Chart title="🎯 Focus (0–10)" data={focus} />
+        {goalResults.length > 0 && (
+          <section className="mb-6">
+            <h2 className="mb-2 text-lg font-medium">🎯 Goals</h2>
+            <div className="grid gap-3 md:grid-cols-2">
+              {goalResults.map((r) => (
+                <div
+                  key={r.goal.id}
+                  className="rounded-md border border-neutral-800 bg-neutral-900 p-3 text-sm"
+                >
+                  <div className="mb-1 flex items-baseline justify-between gap-2">
+                    <span>{describeGoal(r.goal, r.metric)}</span>
+                    <span className="text-neutral-400">
+                      {r.rate === null
+                        ? "nothing logged"
+                        : `${r.hits}/${r.hits + r.misses} days · ${r.rate}%`}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 text-xs">
+                    {r.weeks.map((w) => (
+                      <span
+                        key={w.week}
+                        title={`Week of ${w.week}: ${w.hits}/${w.needed}`}
+                        className={`rounded px-1.5 py-0.5 ${
+                          w.met === true
+                            ? "bg-emerald-900/60 text-emerald-300"
+                            : w.met === false
+                            ? "bg-rose-900/50 text-rose-300"
+                            : "bg-neutral-800 text-neutral-400"
+                        }`}
+                      >
+                        {w.week.slice(5)}{" "}
+                        {w.met === true ? "✓" : w.met === false ? "✗" : "…"}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {insights && (
+          <section className="mb-6">
+            <h2 className="mb-2 text-lg font-medium">💡 Insights</h2>
+            {insights.insights.length ? (
+              <div className="grid gap-3 md:grid-cols-2">
+                {insights.insights.map((i) => (
+                  <div
+                    key={i.id}
+                    className={`rounded-md border p-3 text-sm ${
+                      STRENGTH_STYLES[i.strength]
+                    }`}
+                  >
+                    <p className="text-neutral-100">{i.text}</p>
+                    <p className="mt-1 text-xs text-neutral-400">
+                      {i.strength} ·{" "}
+                      {i.kind === "correlation" ? `r = ${i.r}` : `d = ${i.d}`} ·{" "}
+                      {i.n} days
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-neutral-500">
+                {insights.days < insights.min_days
+                  ? `Log at least ${insights.min_days} days in this range to see patterns (${insights.days} so far).`
+                  : "No clear patterns in this range yet."}
+              </p>
+            )}
+            {insights.skipped.length > 0 && (
+              <details className="mt-2 text-xs text-neutral-500">
+                <summary className="cursor-pointer">
+                  {insights.skipped.length} comparison
+                  {insights.skipped.length === 1 ? "" : "s"} not reported
+                </summary>
+                <ul className="mt-1 space-y-0.5">
+                  {insights.skipped.map((s) => (
+                    <li key={s.id}>
+                      {s.predictor} → {s.outcome}
+                      {s.lag ? " (next day)" : ""}: {s.reason}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </section>
+        )}
+
+        <section className="mb-6 rounded-md border border-neutral-800 bg-neutral-900 p-3">
+          <div className="mb-2 flex flex-wrap items-center gap-2 text-sm text-neutral-300">
+            <span>Compare</span>
+            <select
+              value={metricA.key}
+              onChange={(e) => setOverlayA(e.target.value)}
+              className="rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1"
+            >
+              {metrics.map((m) => (
+                <option key={m.key} value={m.key}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <span>with</span>
+            <select
+              value={lagDays}
+              onChange={(e) => setLagDays(Number(e.target.value))}
+              className="rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1"
+            >
+              <option value={0}>same-day</option>
+              <option value={1}>next-day</option>
+            </select>
+            <select
+              value={metricB.key}
+              onChange={(e) => setOverlayB(e.target.value)}
+              className="rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1"
+            >
+              {metrics.map((m) => (
+                <option key={m.key} value={m.key}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
           </div>
+          <MetricChart
+            dates={dates}
+            height={280}
+            left={{
+              title: axisTitle(metricA),
+              min: metricA.min,
+              max: metricA.max,
+            }}
+            right={{
+              title: axisTitle(metricB),
+              min: metricB.min,
+              max: metricB.max,
+            }}
+            lines={[
+              {
+                label: metricA.label,
+                values: visible(series[metricA.key].values),
+                color: COLORS.a,
+              },
+              {
+                label: `${metricB.label}${lagDays ? " (next day)" : ""}`,
+                values: visible(
+                  shiftValues(series[metricB.key].values, lagDays)
+                ),
+                color: COLORS.b,
+                right: true,
+              },
+            ]}
+          />
+        </section>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {charted.map((m) => (
+            <div
+              key={m.key}
+              className="rounded-md border border-neutral-800 bg-neutral-900 p-3"
+            >
+              <div className="mb-2 text-sm text-neutral-300">
+                {axisTitle(m)}
+              </div>
+              <MetricChart
+                dates={dates}
+                left={{ min: m.min, max: m.max }}
+                lines={[
+                  {
+                    label: "Daily",
+                    values: visible(series[m.key].values),
+                    color: COLORS.a,
+                  },
+                  {
+                    label: `${ROLLING_DAYS}-day average`,
+                    values: visible(
+                      rollingAverage(series[m.key].values, ROLLING_DAYS)
+                    ),
+                    color: COLORS.b,
+                    smooth: true,
+                  },
+                ]}
+              />
+            </div>
+          ))}
         </div>
+
+        {empty.length > 0 && (
+          <p className="mt-4 text-sm text-neutral-500">
+            Nothing logged in this range for:{" "}
+            {empty.map((m) => m.label).join(", ")}
+          </p>
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,272 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase-browser";
+import type { Session } from "@supabase/supabase-js";
+import { browserTimeZone, timeZoneFor } from "@/lib/dates";
+import {
+  CONFLICT_MODES,
+  type ConflictMode,
+  type ItemResult,
+} from "@/lib/import/types";
+
+const CONFLICT_LABELS: Record<ConflictMode, string> = {
+  skip: "Skip days that already have a log",
+  merge: "Merge into the existing day",
+  replace: "Replace the existing day",
+};
+
+const ACTION_STYLES: Record<ItemResult["action"], string> = {
+  create: "text-emerald-300",
+  merge: "text-indigo-300",
+  replace: "text-yellow-300",
+  skip: "text-neutral-500",
+  error: "text-rose-300",
+};
+
+// Lets the second picker select a whole folder
+const folderProps = {
+  webkitdirectory: "",
+} as React.InputHTMLAttributes<HTMLInputElement>;
+
+export default function ImportPage() {
+  const [session, setSession] = useState<Session | null>(null);
+  useEffect(() => {
+    supabase.auth
+      .getSession()
+      .then(({ data }) => setSession(data.session ?? null));
+    const { data: sub } = supabase.auth.onAuthStateChange((_evt, s) =>
+      setSession(s)
+    );
+    return () => sub.subscription.unsubscribe();
+  }, []);
+
+  const [files, setFiles] = useState<File[]>([]);
+  const [conflict, setConflict] = useState<ConflictMode>("skip");
+  const [results, setResults] = useState<ItemResult[] | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function addFiles(list: FileList | null) {
+    setFiles((fs) => [...fs, ...Array.from(list ?? [])]);
+    setResults(null);
+  }
+
+  function form(preview: boolean) {
+    const fd = new FormData();
+    // Folder uploads keep their relative path so dates in folder names still count
+    for (const f of files)
+      fd.append("files", f, f.webkitRelativePath || f.name);
+    fd.append("conflict", conflict);
+    fd.append("dry_run", preview ? "1" : "0");
+    fd.append("tz", timeZoneFor(session?.user, browserTimeZone()));
+    return fd;
+  }
+
+  async function run(preview: boolean) {
+    if (!session?.access_token || !files.length) return;
+    setBusy(true);
+    setError(null);
+    setResults(preview ? null : []);
+    setDryRun(preview);
+    try {
+      const res = await fetch("/api/import", {
+        method: "POST",
+        body: form(preview),
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (!res.ok || !res.body) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error || "Import failed");
+      }
+      if (preview) {
+        setResults((await res.json()).results);
+        return;
+      }
+
+      // The import streams one line per item as it goes
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buf = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buf += value;
+        const lines = buf.split("\n");
+        buf = lines.pop() ?? "";
+        for (const line of lines.filter(Boolean)) {
+          const msg = JSON.parse(line);
+          if (msg.type === "item") {
+            setResults((rs) => [...(rs ?? []), msg as ItemResult]);
+          } else if (msg.type === "error") {
+            setError(msg.error);
+          }
+        }
+      }
+      setFiles([]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const counts = (results ?? []).reduce<Record<string, number>>((acc, r) => {
+    acc[r.action] = (acc[r.action] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="mx-auto max-w-4xl">
+        <h1 className="mb-4 text-2xl font-semibold">📥 Import</h1>
+
+        {!session ? (
+          <div className="mb-4 rounded-md border border-yellow-800 bg-yellow-900/30 p-3 text-sm">
+            You’re not signed in. Go to{" "}
+            <Link href="/" className="underline">
+              Record
+            </Link>{" "}
+            and sign in first.
+          </div>
+        ) : (
+          <>
+            <p className="mb-4 text-sm text-neutral-400">
+              Bring in a Day One JSON export, Markdown or text files named by
+              date (<code>2021-03-07.md</code>), dated audio files (
+              <code>2021-03-07 evening.m4a</code>), or a zip of any of these.
+              Each one is transcribed if needed, run through extraction and
+              added to that day’s log.
+            </p>
+
+            <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+              <label className="cursor-pointer rounded-md bg-neutral-700 px-3 py-1.5 text-white hover:bg-neutral-600">
+                Add files
+                <input
+                  type="file"
+                  multiple
+                  accept=".json,.md,.markdown,.txt,.zip,audio/*"
+                  className="hidden"
+                  onChange={(e) => addFiles(e.target.files)}
+                />
+              </label>
+              <label className="cursor-pointer rounded-md bg-neutral-700 px-3 py-1.5 text-white hover:bg-neutral-600">
+                Add folder
+                <input
+                  type="file"
+                  className="hidden"
+                  {...folderProps}
+                  onChange={(e) => addFiles(e.target.files)}
+                />
+              </label>
+              {files.length > 0 && (
+                <>
+                  <span className="text-neutral-400">
+                    {files.length} file{files.length === 1 ? "" : "s"} selected
+                  </span>
+                  <button
+                    onClick={() => {
+                      setFiles([]);
+                      setResults(null);
+                    }}
+                    className="text-neutral-400 hover:text-neutral-200"
+                  >
+                    Clear
+                  </button>
+                </>
+              )}
+            </div>
+
+            <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+              <select
+                value={conflict}
+                onChange={(e) => {
+                  setConflict(e.target.value as ConflictMode);
+                  setResults(null);
+                }}
+                className="rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1.5 text-neutral-100"
+              >
+                {CONFLICT_MODES.map((m) => (
+                  <option key={m} value={m}>
+                    {CONFLICT_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => run(true)}
+                disabled={busy || !files.length}
+                className="rounded-md bg-neutral-700 px-3 py-1.5 text-white hover:bg-neutral-600 disabled:opacity-50"
+              >
+                Preview
+              </button>
+              <button
+                onClick={() => run(false)}
+                disabled={busy || !files.length}
+                className="rounded-md bg-indigo-600 px-4 py-1.5 text-white hover:bg-indigo-500 disabled:opacity-50"
+              >
+                {busy && !dryRun ? "Importing…" : "Import"}
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 rounded-md border border-rose-700 bg-rose-900/40 p-3">
+                {error}
+              </div>
+            )}
+
+            {results && (
+              <section className="rounded-lg border border-neutral-800 bg-neutral-900 p-3 text-sm">
+                <div className="mb-2 flex flex-wrap gap-3 text-neutral-400">
+                  <span className="font-medium text-neutral-200">
+                    {dryRun ? "Preview" : busy ? "Importing…" : "Imported"}
+                  </span>
+                  {Object.entries(counts).map(([action, n]) => (
+                    <span
+                      key={action}
+                      className={ACTION_STYLES[action as ItemResult["action"]]}
+                    >
+                      {n} {action}
+                    </span>
+                  ))}
+                </div>
+                <table className="w-full text-left">
+                  <thead className="text-neutral-500">
+                    <tr>
+                      <th className="py-1 pr-3 font-normal">Date</th>
+                      <th className="py-1 pr-3 font-normal">Action</th>
+                      <th className="py-1 pr-3 font-normal">Source</th>
+                      <th className="py-1 font-normal">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map((r, i) => (
+                      <tr
+                        key={`${r.source}-${i}`}
+                        className="border-t border-neutral-800 align-top"
+                      >
+                        <td className="py-1 pr-3 whitespace-nowrap">
+                          {r.log_date ?? "—"}
+                        </td>
+                        <td className={`py-1 pr-3 ${ACTION_STYLES[r.action]}`}>
+                          {r.action}
+                          {!dryRun && r.done && " ✔"}
+                        </td>
+                        <td className="py-1 pr-3 break-all text-neutral-400">
+                          {r.source}
+                        </td>
+                        <td className="py-1 text-neutral-300">
+                          {r.error ?? r.preview ?? ""}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
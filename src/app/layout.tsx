@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import ServiceWorker from "@/components/ServiceWorker";
 import "./globals.css";
 
 const geistSans = Geist({ variable: "--font-geist-sans", subsets: ["latin"] });
@@ -37,9 +38,25 @@ export default function RootLayout({
             <a href="/dashboard" className="text-neutral-400 hover:text-white">
               Dashboard
             </a>
+            <a
+              href="/dashboard/habits"
+              className="text-neutral-400 hover:text-white"
+            >
+              Habits
+            </a>
+            <a href="/summaries" className="text-neutral-400 hover:text-white">
+              Reviews
+            </a>
+            <a href="/import" className="text-neutral-400 hover:text-white">
+              Import
+            </a>
+            <a href="/settings" className="text-neutral-400 hover:text-white">
+              Settings
+            </a>
           </div>
         </nav>
         {children}
+        <ServiceWorker />
       </body>
     </html>
   );
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from "next";
+
+/** Served as /manifest.webmanifest; together with public/sw.js makes the app installable */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Voice Diary",
+    short_name: "Diary",
+    description: "Record a quick audio log and track your day.",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#0a0a0a",
+    theme_color: "#4f46e5",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml" },
+      { src: "/favicon.ico", sizes: "48x48", type: "image/x-icon" },
+    ],
+  };
+}
@@ -1,45 +1,279 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
 import { supabase } from "@/lib/supabase-browser";
 import type { Session } from "@supabase/supabase-js";
+import type { Extracted } from "@/lib/extracted";
+import { habitsFor, unitLabel, type HabitDefinition } from "@/lib/habits";
+import { LATEST_SCHEMA_VERSION } from "@/lib/migrations";
+import { browserTimeZone, timeZoneFor, todayIn } from "@/lib/dates";
+import type { ProcessJob } from "@/lib/jobs";
+import { openTasksBefore, type Task, type TaskStatus } from "@/lib/tasks";
+import {
+  discardRecording,
+  enqueueRecording,
+  flushQueue,
+  listRecordings,
+  QUEUE_EVENT,
+  uploadRecording,
+  type QueuedRecording,
+  type QueueStatus,
+} from "@/lib/offline-queue";
+import {
+  AUDIO_ACCEPT,
+  audioUploadError,
+  audioUploadType,
+  MAX_AUDIO_BYTES,
+  MAX_AUDIO_SECONDS,
+  MAX_TEXT_CHARS,
+  typedEntryError,
+} from "@/lib/uploads";
 
-/** IST yyyy-mm-dd */
-function todayInIST(): string {
-  const now = new Date();
-  const istOffsetMin = 330;
-  const utcMs = now.getTime() + now.getTimezoneOffset() * 60000;
-  const ist = new Date(utcMs + istOffsetMin * 60000);
-  return ist.toISOString().slice(0, 10);
+const JOB_STEPS = [
+  ["queued", "Uploaded"],
+  ["transcribing", "Transcribing"],
+  ["extracting", "Extracting"],
+  ["saved", "Saved"],
+] as const;
+
+const POLL_MS = 1500;
+
+type LiveStream = {
+  id: string;
+  token: string;
+  /** Chunk uploads, chained so the server sees them in order */
+  queue: Promise<void>;
+  /** A chunk didn't reach the server, so its transcript is incomplete */
+  failed: boolean;
+  events: AbortController;
+};
+
+/** Reads `event:`/`data:` frames from a fetch() body (EventSource can't send auth headers) */
+async function readEvents(
+  res: Response,
+  onEvent: (event: string, data: { text: string }) => void
+) {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buf = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buf += value;
+    let end: number;
+    while ((end = buf.indexOf("\n\n")) !== -1) {
+      const frame = buf.slice(0, end);
+      buf = buf.slice(end + 2);
+      const event = /^event: (.*)$/m.exec(frame)?.[1];
+      const data = /^data: (.*)$/m.exec(frame)?.[1];
+      if (event && data) onEvent(event, JSON.parse(data));
+    }
+  }
 }
 
-type Extracted = {
-  schema_version?: number;
-  sleep_hours?: number;
-  mood?: string;
-  energy?: number;
-  focus?: number;
-  highlights?: string[];
-  challenges?: string[];
-  gratitude?: string[];
-  habits?: {
-    yoga?: boolean;
-    workout?: boolean;
-    reading_minutes?: number;
-    no_smoking?: boolean;
-  };
-  work?: {
-    top_task_done?: string;
-    time_blocks?: { label: string; minutes: number }[];
-  };
-  health?: {
-    steps?: number;
-    water_glasses?: number;
-    calories?: number;
-  };
-  notes?: string;
-  todos_tomorrow?: string[];
+function JobProgress({
+  job,
+  canRetry,
+  onRetry,
+}: {
+  job: ProcessJob;
+  canRetry: boolean;
+  onRetry: () => void;
+}) {
+  const current = JOB_STEPS.findIndex(([s]) => s === job.status);
+  return (
+    <div className="mb-4 rounded-md border border-neutral-800 bg-neutral-900 p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {JOB_STEPS.map(([status, label], i) => (
+          <span
+            key={status}
+            className={`rounded-full px-3 py-1 ${
+              job.status === "failed"
+                ? "bg-neutral-800 text-neutral-500"
+                : i < current || job.status === "saved"
+                ? "bg-emerald-700 text-white"
+                : i === current
+                ? "bg-indigo-600 text-white"
+                : "bg-neutral-800 text-neutral-400"
+            }`}
+          >
+            {label}
+          </span>
+        ))}
+        {job.attempts > 1 && job.status !== "saved" && (
+          <span className="text-neutral-400">
+            attempt {job.attempts}/{job.max_attempts}
+          </span>
+        )}
+      </div>
+      {job.last_error && job.status !== "saved" && (
+        <div
+          className={`mt-2 ${
+            job.status === "failed" ? "text-rose-300" : "text-yellow-300"
+          }`}
+        >
+          {job.status === "failed" ? "Failed: " : "Retrying after: "}
+          {job.last_error}
+        </div>
+      )}
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-2 rounded-md bg-neutral-700 px-3 py-1 text-white hover:bg-neutral-600"
+        >
+          Retry (uses the uploaded audio)
+        </button>
+      )}
+    </div>
+  );
+}
+
+const QUEUE_STYLES: Record<QueueStatus, string> = {
+  pending: "text-yellow-300",
+  uploading: "text-indigo-300",
+  failed: "text-rose-300",
+  synced: "text-emerald-300",
 };
+
+type EntryMode = "record" | "type" | "upload";
+
+const ENTRY_MODES: [EntryMode, string][] = [
+  ["record", "🎙️ Record"],
+  ["type", "⌨️ Type"],
+  ["upload", "📁 Upload"],
+];
+
+/** What the browser reports for an audio file; null when it can't tell (e.g. webm) */
+function audioDuration(file: File): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (seconds: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(seconds);
+    };
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () =>
+      done(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => done(null);
+    audio.src = url;
+  });
+}
+
+const clock = (sec: number) =>
+  `${Math.floor(sec / 60)}:${(sec % 60).toString().padStart(2, "0")}`;
+
+/** Recordings kept on this device until the server has them; flushed when back online */
+function RecordingQueue({ session }: { session: Session }) {
+  const [items, setItems] = useState<QueuedRecording[]>([]);
+  const [online, setOnline] = useState(true);
+  const token = session.access_token;
+
+  useEffect(() => {
+    const refresh = () =>
+      listRecordings()
+        .then(setItems)
+        .catch((err) => console.warn("[queue] unavailable:", err));
+    const flush = () =>
+      flushQueue(token)
+        .catch((err) => console.warn("[queue] flush failed:", err))
+        .finally(refresh);
+    const onOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const onOffline = () => setOnline(false);
+    // Background Sync: the service worker asks us to flush
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === "flush-recordings") flush();
+    };
+
+    setOnline(navigator.onLine);
+    if (navigator.onLine) flush();
+    else refresh();
+    window.addEventListener(QUEUE_EVENT, refresh);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    navigator.serviceWorker?.addEventListener("message", onMessage);
+    return () => {
+      window.removeEventListener(QUEUE_EVENT, refresh);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      navigator.serviceWorker?.removeEventListener("message", onMessage);
+    };
+  }, [token]);
+
+  async function discard(item: QueuedRecording) {
+    if (
+      item.status !== "synced" &&
+      !confirm(
+        `Discard the ${clock(item.duration_sec)} recording for ${
+          item.log_date
+        }? It hasn’t been uploaded.`
+      )
+    )
+      return;
+    await discardRecording(item.id);
+  }
+
+  if (!items.length) return null;
+  const waiting = items.filter((i) => i.status !== "synced").length;
+
+  return (
+    <section className="mb-4 rounded-md border border-neutral-800 bg-neutral-900 p-3 text-sm">
+      <div className="mb-2 flex flex-wrap items-center gap-3">
+        <span className="font-medium">Recording queue</span>
+        <span className="text-neutral-400">
+          {waiting ? `${waiting} waiting to upload` : "All uploaded"}
+        </span>
+        {!online && <span className="text-yellow-300">Offline</span>}
+      </div>
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.id} className="flex flex-wrap items-center gap-3">
+            <span className="w-24">{item.log_date}</span>
+            <span className="w-12 text-neutral-400">
+              {clock(item.duration_sec)}
+            </span>
+            <span className={`w-20 ${QUEUE_STYLES[item.status]}`}>
+              {item.status}
+            </span>
+            <span className="flex-1 text-neutral-400">
+              {item.status === "synced" ? (
+                <Link
+                  href={`/dashboard/logs?date=${item.log_date}`}
+                  className="underline hover:text-neutral-200"
+                >
+                  View day
+                </Link>
+              ) : (
+                item.error ??
+                `Recorded ${new Date(item.created_at).toLocaleString()}`
+              )}
+            </span>
+            {(item.status === "pending" || item.status === "failed") && (
+              <button
+                onClick={() => uploadRecording(item, token)}
+                className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+              >
+                Retry
+              </button>
+            )}
+            {item.status !== "uploading" && (
+              <button
+                onClick={() => discard(item)}
+                className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+              >
+                {item.status === "synced" ? "Clear" : "Discard"}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
 function PromptChips() {
   const prompts = [
     "One win today…",
@@ -62,6 +296,71 @@ function PromptChips() {
   );
 }
 
+/** Tasks still open from earlier days, as things to talk about (or tick off here) */
+function OpenTasks({
+  session,
+  logDate,
+  refreshKey,
+}: {
+  session: Session;
+  logDate: string;
+  refreshKey?: string;
+}) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+
+  useEffect(() => {
+    openTasksBefore(supabase, session.user.id, logDate)
+      .then(setTasks)
+      .catch((e) => console.warn("[tasks] could not load open tasks:", e));
+  }, [session, logDate, refreshKey]);
+
+  async function close(task: Task, status: TaskStatus) {
+    const res = await fetch(`/api/tasks/${task.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ status, date: logDate }),
+    });
+    if (res.ok) setTasks((ts) => ts.filter((t) => t.id !== task.id));
+  }
+
+  if (!tasks.length) return null;
+  return (
+    <div className="mb-4 rounded-md border border-neutral-800 bg-neutral-900 p-3 text-sm">
+      <div className="mb-2 text-neutral-400">
+        Still open — did you get to these?
+      </div>
+      <ul className="space-y-1">
+        {tasks.map((t) => (
+          <li key={t.id} className="flex items-center gap-2">
+            <span className="flex-1">
+              {t.title}
+              <span className="ml-2 text-xs text-neutral-500">
+                from {t.origin_date}
+                {t.carried > 0 && ` · carried ${t.carried}×`}
+              </span>
+            </span>
+            <button
+              onClick={() => close(t, "done")}
+              className="rounded px-2 py-0.5 text-xs text-emerald-300 hover:bg-neutral-800"
+            >
+              Done
+            </button>
+            <button
+              onClick={() => close(t, "dropped")}
+              className="rounded px-2 py-0.5 text-xs text-neutral-400 hover:bg-neutral-800"
+            >
+              Drop
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export default function Page() {
   // --- Auth
   const [session, setSession] = useState<Session | null>(null);
@@ -77,18 +376,51 @@ export default function Page() {
     return () => sub.subscription.unsubscribe();
   }, []);
 
+  // First sign-in on this account: remember the browser's timezone
+  useEffect(() => {
+    const tz = browserTimeZone();
+    if (session && tz && !session.user.user_metadata?.timezone) {
+      supabase.auth.updateUser({ data: { timezone: tz } });
+    }
+  }, [session]);
+
   // --- Recorder state
-  const [logDate, setLogDate] = useState(todayInIST);
+  const tz = timeZoneFor(session?.user, browserTimeZone());
+  const [logDate, setLogDate] = useState(() => todayIn(tz));
+  useEffect(() => {
+    // Backfill links from the logs calendar carry ?log_date=
+    const linked = new URLSearchParams(window.location.search).get("log_date");
+    setLogDate(
+      linked && /^\d{4}-\d{2}-\d{2}$/.test(linked) ? linked : todayIn(tz)
+    );
+  }, [tz]);
   const [recording, setRecording] = useState(false);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [result, setResult] = useState<{
     transcript?: string;
     extracted?: Extracted;
     row?: any;
+    stt_provider?: string;
+    extractor?: string;
+    extraction_fallback?: string | null;
   } | null>(null);
+  const [job, setJob] = useState<ProcessJob | null>(null);
+  const [jobCanRetry, setJobCanRetry] = useState(false);
+  const pollRef = useRef<number | null>(null);
+  const [liveMode, setLiveMode] = useState(true);
+  const [partial, setPartial] = useState("");
+  const streamRef = useRef<LiveStream | null>(null);
   const [chunks, setChunks] = useState<BlobPart[]>([]);
   const [durationSec, setDurationSec] = useState(0);
+  const [mode, setMode] = useState<EntryMode>("record");
+  const [typed, setTyped] = useState("");
+  const [picked, setPicked] = useState<{
+    file: File;
+    durationSec: number | null;
+    error: string | null;
+  } | null>(null);
   const [mimeType, setMimeType] = useState<string>("");
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -115,9 +447,133 @@ export default function Page() {
     setMimeType("");
   }, []);
 
+  function stopPolling() {
+    if (pollRef.current) window.clearTimeout(pollRef.current);
+    pollRef.current = null;
+  }
+  useEffect(() => stopPolling, []);
+
+  /** Follows a job until it is saved (→ result) or failed (→ retry button) */
+  function pollJob(id: string, token: string) {
+    stopPolling();
+    const tick = async () => {
+      try {
+        const res = await fetch(`/api/jobs/${id}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const json = await res.json();
+        if (!res.ok) throw new Error(json?.error || "Server error");
+        setJob(json.job);
+        setJobCanRetry(Boolean(json.can_retry));
+        if (json.job.status === "saved") {
+          setResult(json);
+          setBusy(false);
+          return;
+        }
+        if (json.job.status === "failed") {
+          setBusy(false);
+          return;
+        }
+      } catch (err) {
+        // Transient network errors: keep polling, the job runs server-side
+        console.warn("[jobs] poll failed:", err);
+      }
+      pollRef.current = window.setTimeout(tick, POLL_MS);
+    };
+    pollRef.current = window.setTimeout(tick, POLL_MS);
+  }
+
+  async function retryJob() {
+    if (!job || !session?.access_token) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/jobs/${job.id}/retry`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Retry failed");
+      setJob(json.job);
+      setJobCanRetry(false);
+      pollJob(json.job_id, session.access_token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Retry failed");
+      setBusy(false);
+    }
+  }
+
+  /** Opens a live transcription session and follows its partials */
+  async function openStream(token: string, contentType: string) {
+    const res = await fetch("/api/stream", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ content_type: contentType }),
+    });
+    const json = await res.json();
+    if (!res.ok)
+      throw new Error(json?.error || "Could not start live transcript");
+
+    const stream: LiveStream = {
+      id: json.session_id,
+      token,
+      queue: Promise.resolve(),
+      failed: false,
+      events: new AbortController(),
+    };
+    fetch(`/api/stream/${stream.id}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: stream.events.signal,
+    })
+      .then((r) => readEvents(r, (_event, data) => setPartial(data.text)))
+      .catch(() => {});
+    return stream;
+  }
+
+  function sendChunk(stream: LiveStream, chunk: Blob) {
+    stream.queue = stream.queue.then(() =>
+      fetch(`/api/stream/${stream.id}`, {
+        method: "POST",
+        body: chunk,
+        headers: { Authorization: `Bearer ${stream.token}` },
+      })
+        .then((res) => {
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        })
+        .catch((err) => {
+          stream.failed = true;
+          console.warn("[stream] chunk failed:", err);
+        })
+    );
+  }
+
+  /** Abandons the live session of a recording that won't be saved */
+  function dropStream() {
+    const stream = streamRef.current;
+    streamRef.current = null;
+    if (stream) closeStream(stream);
+  }
+
+  function closeStream(stream: LiveStream) {
+    stream.events.abort();
+    fetch(`/api/stream/${stream.id}`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${stream.token}` },
+    }).catch(() => {});
+  }
+  useEffect(() => () => streamRef.current?.events.abort(), []);
+
   async function startRec() {
     setError(null);
+    setNotice(null);
     setResult(null);
+    setJob(null);
+    stopPolling();
+    dropStream();
+    setPartial("");
     setChunks([]);
     setDurationSec(0);
     try {
@@ -129,8 +585,24 @@ export default function Page() {
       const options: MediaRecorderOptions = mimeType ? { mimeType } : {};
       const mr = new MediaRecorder(stream, options);
 
-      mr.ondataavailable = (e) =>
-        e.data.size && setChunks((p) => [...p, e.data]);
+      // Live transcript is best-effort: without it the upload is transcribed as usual
+      if (liveMode && session?.access_token) {
+        try {
+          streamRef.current = await openStream(
+            session.access_token,
+            mimeType || "audio/webm"
+          );
+        } catch (err) {
+          console.warn("[stream] live transcript unavailable:", err);
+        }
+      }
+      const live = streamRef.current;
+
+      mr.ondataavailable = (e) => {
+        if (!e.data.size) return;
+        setChunks((p) => [...p, e.data]);
+        if (live) sendChunk(live, e.data);
+      };
       mr.onstop = () => {
         stream.getTracks().forEach((t) => t.stop());
         if (timerRef.current) window.clearInterval(timerRef.current);
@@ -155,7 +627,66 @@ export default function Page() {
     setRecording(false);
   }
 
-  async function processAndSave() {
+  function startProcessing() {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    setResult(null);
+    setJob(null);
+  }
+
+  /** Queues audio (a recording or a picked file), uploads it and follows the job */
+  async function submitAudio(
+    audio: Blob,
+    seconds: number,
+    onQueued: () => void,
+    live: LiveStream | null = null
+  ) {
+    if (!session?.access_token) {
+      setError("Please sign in first.");
+      return;
+    }
+    startProcessing();
+    try {
+      // Kept on the device until the server has it; the queue owns it from here
+      const rec = await enqueueRecording({
+        audio,
+        log_date: logDate,
+        tz,
+        duration_sec: seconds,
+      });
+      onQueued();
+
+      // Reuse the live transcript once every chunk has reached the server;
+      // if one didn't, the stored audio is transcribed in full instead
+      if (live) await live.queue;
+      if (live?.failed) closeStream(live);
+
+      const sent = await uploadRecording(rec, session.access_token, {
+        streamId: live && !live.failed ? live.id : undefined,
+      });
+      if (sent.status === "synced" && sent.job_id) {
+        // Busy until the job is saved or fails
+        pollJob(sent.job_id, session.access_token);
+        return;
+      }
+      if (sent.status === "pending") {
+        setNotice(
+          "You’re offline. The recording is saved on this device and will upload when you’re back online."
+        );
+      } else {
+        setError(
+          `${sent.error ?? "Upload failed"}. It’s kept in the queue to retry.`
+        );
+      }
+      setBusy(false);
+    } catch (err: any) {
+      setError(err?.message || "Could not save the recording");
+      setBusy(false);
+    }
+  }
+
+  function processAndSave() {
     if (!chunks.length) {
       setError("No audio recorded yet.");
       return;
@@ -164,27 +695,75 @@ export default function Page() {
       setError("Please sign in first.");
       return;
     }
-    setBusy(true);
+    const live = streamRef.current;
+    streamRef.current = null;
+    return submitAudio(
+      new Blob(chunks, { type: mimeType || "audio/webm" }),
+      durationSec,
+      () => setChunks([]),
+      live
+    );
+  }
+
+  async function pickFile(file: File | undefined) {
+    setPicked(null);
     setError(null);
-    try {
-      const ct = mimeType || "audio/webm";
-      const blob = new Blob(chunks, { type: ct });
+    if (!file) return;
+    const info = { name: file.name, type: file.type, size: file.size };
+    const durationSec = audioUploadError(info)
+      ? null
+      : await audioDuration(file);
+    setPicked({
+      file,
+      durationSec,
+      error: audioUploadError({ ...info, durationSec }),
+    });
+  }
+
+  function processFile() {
+    if (!picked || picked.error) return;
+    const { file, durationSec } = picked;
+    const type = audioUploadType(file.name, file.type) ?? file.type;
+    return submitAudio(
+      new Blob([file], { type }),
+      Math.round(durationSec ?? 0),
+      () => setPicked(null)
+    );
+  }
 
+  /** Typed entries skip the queue and speech-to-text: the text is the transcript */
+  async function processText() {
+    const invalid = typedEntryError(typed);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    if (!session?.access_token) {
+      setError("Please sign in first.");
+      return;
+    }
+    startProcessing();
+    try {
       const fd = new FormData();
-      fd.append("audio", blob, ct.includes("ogg") ? "entry.ogg" : "entry.webm");
+      fd.append("text", typed);
       fd.append("log_date", logDate);
-
+      fd.append("tz", tz);
       const res = await fetch("/api/process", {
         method: "POST",
         body: fd,
         headers: { Authorization: `Bearer ${session.access_token}` },
       });
       const json = await res.json();
-      if (!res.ok) setError(json?.error || "Server error");
-      else setResult(json);
-    } catch (err: any) {
-      setError(err?.message || "Network error");
-    } finally {
+      if (!res.ok) {
+        setError(json?.error || "Server error");
+        setBusy(false);
+        return;
+      }
+      setTyped("");
+      setJob(json.job);
+      pollJob(json.job_id, session.access_token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
       setBusy(false);
     }
   }
@@ -251,7 +830,7 @@ export default function Page() {
 
         <div className="mb-4 flex items-center gap-4">
           <label className="text-sm">
-            Log date (IST):{" "}
+            Log date ({tz}):{" "}
             <input
               className="ml-2 rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1 text-neutral-100"
               type="date"
@@ -265,45 +844,170 @@ export default function Page() {
           </span>
         </div>
 
-        <div className="mb-4 flex items-center gap-3">
-          {!recording ? (
+        {session && (
+          <OpenTasks
+            session={session}
+            logDate={logDate}
+            refreshKey={job?.status === "saved" ? job.id : undefined}
+          />
+        )}
+
+        <div className="mb-4 flex gap-1 text-sm">
+          {ENTRY_MODES.map(([m, label]) => (
             <button
-              onClick={startRec}
-              className="rounded-xl bg-indigo-600 px-4 py-2 text-white hover:bg-indigo-500"
+              key={m}
+              onClick={() => setMode(m)}
+              disabled={recording || busy}
+              className={`rounded-md px-3 py-1 disabled:opacity-50 ${
+                mode === m
+                  ? "bg-neutral-700 text-white"
+                  : "text-neutral-400 hover:text-neutral-200"
+              }`}
             >
-              Start Recording
+              {label}
             </button>
-          ) : (
+          ))}
+        </div>
+
+        {mode === "record" && (
+          <div className="mb-4 flex items-center gap-3">
+            {!recording ? (
+              <button
+                onClick={startRec}
+                className="rounded-xl bg-indigo-600 px-4 py-2 text-white hover:bg-indigo-500"
+              >
+                Start Recording
+              </button>
+            ) : (
+              <button
+                onClick={stopRec}
+                className="rounded-xl bg-rose-600 px-4 py-2 text-white hover:bg-rose-500"
+              >
+                Stop
+              </button>
+            )}
+            {recording && <PromptChips />}
+
+            <label className="flex items-center gap-1 text-sm text-neutral-400">
+              <input
+                type="checkbox"
+                checked={liveMode}
+                disabled={recording}
+                onChange={(e) => setLiveMode(e.target.checked)}
+              />
+              Live transcript
+            </label>
+
             <button
-              onClick={stopRec}
-              className="rounded-xl bg-rose-600 px-4 py-2 text-white hover:bg-rose-500"
+              onClick={processAndSave}
+              disabled={!chunks.length || busy || !session}
+              title={!session ? "Sign in to save" : undefined}
+              className={`rounded-xl px-4 py-2 text-white ${
+                !chunks.length || busy || !session
+                  ? "cursor-not-allowed bg-emerald-800/70"
+                  : "bg-emerald-600 hover:bg-emerald-500"
+              }`}
             >
-              Stop
+              {busy ? "Processing..." : "Process & Save"}
             </button>
-          )}
-          {recording && <PromptChips />}
-
-          <button
-            onClick={processAndSave}
-            disabled={!chunks.length || busy || !session}
-            title={!session ? "Sign in to save" : undefined}
-            className={`rounded-xl px-4 py-2 text-white ${
-              !chunks.length || busy || !session
-                ? "cursor-not-allowed bg-emerald-800/70"
-                : "bg-emerald-600 hover:bg-emerald-500"
-            }`}
-          >
-            {busy ? "Processing..." : "Process & Save"}
-          </button>
-
-          <span className="ml-2 text-sm text-neutral-400">
-            {recording
-              ? `⏺️ ${minutes}:${seconds.toString().padStart(2, "0")}`
-              : chunks.length
-              ? `Recorded ${minutes}:${seconds.toString().padStart(2, "0")}`
-              : ""}
-          </span>
-        </div>
+
+            <span className="ml-2 text-sm text-neutral-400">
+              {recording
+                ? `⏺️ ${minutes}:${seconds.toString().padStart(2, "0")}`
+                : chunks.length
+                ? `Recorded ${minutes}:${seconds.toString().padStart(2, "0")}`
+                : ""}
+            </span>
+          </div>
+        )}
+
+        {mode === "type" && (
+          <div className="mb-4">
+            <textarea
+              value={typed}
+              onChange={(e) => setTyped(e.target.value)}
+              placeholder="How was your day? Sleep, energy, what you did, what’s next…"
+              className="mb-2 h-40 w-full rounded-md border border-neutral-800 bg-neutral-900 p-3 text-neutral-100"
+            />
+            <div className="flex items-center gap-3">
+              <button
+                onClick={processText}
+                disabled={!typed.trim() || busy || !session}
+                title={!session ? "Sign in to save" : undefined}
+                className="rounded-xl bg-emerald-600 px-4 py-2 text-white hover:bg-emerald-500 disabled:cursor-not-allowed disabled:bg-emerald-800/70"
+              >
+                {busy ? "Processing..." : "Save entry"}
+              </button>
+              <span
+                className={`text-sm ${
+                  typed.length > MAX_TEXT_CHARS
+                    ? "text-rose-300"
+                    : "text-neutral-400"
+                }`}
+              >
+                {typed.length.toLocaleString()} /{" "}
+                {MAX_TEXT_CHARS.toLocaleString()}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {mode === "upload" && (
+          <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+            <label className="cursor-pointer rounded-xl bg-neutral-700 px-4 py-2 text-white hover:bg-neutral-600">
+              Choose audio file
+              <input
+                type="file"
+                accept={`${AUDIO_ACCEPT},audio/*`}
+                className="hidden"
+                onChange={(e) => {
+                  pickFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              onClick={processFile}
+              disabled={!picked || !!picked.error || busy || !session}
+              title={!session ? "Sign in to save" : undefined}
+              className="rounded-xl bg-emerald-600 px-4 py-2 text-white hover:bg-emerald-500 disabled:cursor-not-allowed disabled:bg-emerald-800/70"
+            >
+              {busy ? "Processing..." : "Process & Save"}
+            </button>
+            {picked ? (
+              <span
+                className={picked.error ? "text-rose-300" : "text-neutral-400"}
+              >
+                {picked.file.name} ·{" "}
+                {(picked.file.size / 1024 / 1024).toFixed(1)} MB
+                {picked.durationSec !== null &&
+                  ` · ${clock(Math.round(picked.durationSec))}`}
+                {picked.error && ` · ${picked.error}`}
+              </span>
+            ) : (
+              <span className="text-neutral-500">
+                m4a, mp3, wav, ogg or webm; up to{" "}
+                {MAX_AUDIO_BYTES / 1024 / 1024} MB and {MAX_AUDIO_SECONDS / 60}{" "}
+                minutes
+              </span>
+            )}
+          </div>
+        )}
+
+        {partial && !result?.transcript && (
+          <p className="mb-4 rounded-md border border-neutral-800 bg-neutral-900 p-3 leading-relaxed text-neutral-300">
+            {partial}
+            {recording && <span className="animate-pulse"> ▍</span>}
+          </p>
+        )}
+
+        {job && (
+          <JobProgress
+            job={job}
+            canRetry={jobCanRetry && !busy}
+            onRetry={retryJob}
+          />
+        )}
 
         {error && (
           <div className="mb-4 rounded-md border border-rose-700 bg-rose-900/40 p-3">
@@ -311,10 +1015,28 @@ export default function Page() {
           </div>
         )}
 
+        {notice && (
+          <div className="mb-4 rounded-md border border-yellow-800 bg-yellow-900/30 p-3 text-sm">
+            {notice}
+          </div>
+        )}
+
+        {session && <RecordingQueue session={session} />}
+
         {/* Transcript */}
         {result?.transcript && (
           <section className="mb-6">
-            <h2 className="mb-2 text-xl font-semibold">Transcript</h2>
+            <h2 className="mb-2 text-xl font-semibold">
+              Transcript
+              {result.stt_provider && (
+                <span className="ml-2 align-middle text-xs font-normal text-neutral-400">
+                  via{" "}
+                  <code className="text-fuchsia-300">
+                    {result.stt_provider}
+                  </code>
+                </span>
+              )}
+            </h2>
             <p className="leading-relaxed rounded-md border border-neutral-800 bg-neutral-900 p-3">
               {result.transcript}
             </p>
@@ -324,7 +1046,21 @@ export default function Page() {
         {/* Raw JSON (optional while developing) */}
         {result?.extracted && (
           <section className="mb-6">
-            <h2 className="mb-2 text-xl font-semibold">Extracted JSON</h2>
+            <h2 className="mb-2 text-xl font-semibold">
+              Extracted JSON
+              {result.extractor && (
+                <span className="ml-2 align-middle text-xs font-normal text-neutral-400">
+                  via{" "}
+                  <code className="text-fuchsia-300">{result.extractor}</code>
+                </span>
+              )}
+            </h2>
+            {result.extraction_fallback && (
+              <div className="mb-2 rounded-md border border-yellow-800 bg-yellow-900/30 p-2 text-sm">
+                The model was unreachable, so a rule-based extraction was saved.
+                Check the fields below before saving changes.
+              </div>
+            )}
             <textarea
               defaultValue={JSON.stringify(result.extracted, null, 2)}
               onChange={(e) => {
@@ -347,6 +1083,7 @@ export default function Page() {
             initial={extracted}
             rowId={result.row.id}
             token={session?.access_token ?? ""}
+            habits={habitsFor(session?.user)}
             onSaved={(next) => setExtracted(next)}
           />
         )}
@@ -361,31 +1098,32 @@ function FriendlyEditor({
   initial,
   rowId,
   token,
+  habits,
   onSaved,
 }: {
   initial: Extracted;
   rowId: string;
   token: string;
+  habits: HabitDefinition[];
   onSaved: (next: Extracted) => void;
 }) {
   const [form, setForm] = useState<Extracted>(() => ({
-    schema_version: 1,
     highlights: [],
     challenges: [],
     gratitude: [],
-    habits: {
-      yoga: false,
-      workout: false,
-      reading_minutes: 0,
-      no_smoking: false,
-    },
-    work: { top_task_done: "", time_blocks: [] },
-    health: { steps: 0, water_glasses: 0, calories: 0 },
     todos_tomorrow: [],
     ...initial,
+    habits: {
+      ...Object.fromEntries(
+        habits.filter((h) => h.type === "boolean").map((h) => [h.key, false])
+      ),
+      ...(initial.habits ?? {}),
+    },
+    schema_version: LATEST_SCHEMA_VERSION,
   }));
   const [saving, setSaving] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   // helpers for list <-> textarea
   const listToText = (xs?: string[]) => (xs ?? []).join("\n");
@@ -398,6 +1136,7 @@ function FriendlyEditor({
   async function save() {
     setSaving(true);
     setMsg(null);
+    setFieldErrors({});
     try {
       const res = await fetch(`/api/logs/${rowId}`, {
         method: "PATCH",
@@ -408,9 +1147,12 @@ function FriendlyEditor({
         body: JSON.stringify({ extracted: form }),
       });
       const json = await res.json();
-      if (!res.ok) throw new Error(json?.error || "Save failed");
+      if (!res.ok) {
+        if (json?.fields) setFieldErrors(json.fields);
+        throw new Error(json?.error || "Save failed");
+      }
       setMsg("Saved!");
-      onSaved(form);
+      onSaved(json.row?.extracted ?? form);
     } catch (e: any) {
       setMsg(e.message || "Save failed");
     } finally {
@@ -532,43 +1274,48 @@ function FriendlyEditor({
         <div className="rounded-md border border-neutral-800 bg-neutral-900 p-3">
           <div className="mb-2 text-sm text-neutral-300">Habits</div>
           <div className="space-y-2">
-            {[
-              ["yoga", "Yoga"],
-              ["workout", "Workout"],
-              ["no_smoking", "No smoking"],
-            ].map(([k, label]) => (
-              <label key={k} className="flex items-center gap-2 text-sm">
-                <input
-                  type="checkbox"
-                  checked={Boolean((form.habits as any)?.[k])}
-                  onChange={(e) =>
-                    setForm({
-                      ...form,
-                      habits: { ...(form.habits ?? {}), [k]: e.target.checked },
-                    })
-                  }
-                />
-                {label}
-              </label>
-            ))}
-            <label className="block text-sm">
-              Reading minutes
-              <input
-                type="number"
-                min={0}
-                value={form.habits?.reading_minutes ?? 0}
-                onChange={(e) =>
-                  setForm({
-                    ...form,
-                    habits: {
-                      ...(form.habits ?? {}),
-                      reading_minutes: Number(e.target.value),
-                    },
-                  })
-                }
-                className="mt-1 w-full rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1"
-              />
-            </label>
+            {habits.map((h) =>
+              h.type === "boolean" ? (
+                <label key={h.key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(form.habits?.[h.key])}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        habits: {
+                          ...(form.habits ?? {}),
+                          [h.key]: e.target.checked,
+                        },
+                      })
+                    }
+                  />
+                  {h.name}
+                </label>
+              ) : (
+                <label key={h.key} className="block text-sm">
+                  {h.name}
+                  {unitLabel(h) && (
+                    <span className="text-neutral-500"> ({unitLabel(h)})</span>
+                  )}
+                  <input
+                    type="number"
+                    min={0}
+                    value={Number(form.habits?.[h.key] ?? 0)}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        habits: {
+                          ...(form.habits ?? {}),
+                          [h.key]: Number(e.target.value),
+                        },
+                      })
+                    }
+                    className="mt-1 w-full rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1"
+                  />
+                </label>
+              )
+            )}
           </div>
         </div>
 
@@ -655,6 +1402,15 @@ function FriendlyEditor({
         </button>
         {msg && <span className="text-sm text-neutral-400">{msg}</span>}
       </div>
+      {Object.keys(fieldErrors).length > 0 && (
+        <ul className="mt-3 space-y-1 rounded-md border border-rose-700 bg-rose-900/40 p-3 text-sm">
+          {Object.entries(fieldErrors).map(([field, message]) => (
+            <li key={field}>
+              <code className="text-rose-200">{field}</code>: {message}
+            </li>
+          ))}
+        </ul>
+      )}
     </section>
   );
 }
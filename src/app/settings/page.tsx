@@ -0,0 +1,705 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase-browser";
+import type { Session } from "@supabase/supabase-js";
+import {
+  HABIT_TYPES,
+  habitDefinitionsSchema,
+  habitKey,
+  habitsFor,
+  type HabitDefinition,
+} from "@/lib/habits";
+import {
+  addDays,
+  browserTimeZone,
+  isValidTimeZone,
+  supportedTimeZones,
+  timeZoneFor,
+  todayIn,
+} from "@/lib/dates";
+import { metricsFor } from "@/lib/metrics";
+import { describeGoal, GOAL_OPS, type Goal, type GoalOp } from "@/lib/goals";
+import { describeSchedule } from "@/lib/reminders/schedule";
+import {
+  REMINDER_CHANNELS,
+  type Reminder,
+  type ReminderChannel,
+} from "@/lib/reminders/types";
+
+/** Rows added in this session get their key from the name; saved keys never change */
+type HabitRow = HabitDefinition & { isNew?: boolean };
+
+export default function SettingsPage() {
+  const [session, setSession] = useState<Session | null>(null);
+  useEffect(() => {
+    supabase.auth
+      .getSession()
+      .then(({ data }) => setSession(data.session ?? null));
+    const { data: sub } = supabase.auth.onAuthStateChange((_evt, s) =>
+      setSession(s)
+    );
+    return () => sub.subscription.unsubscribe();
+  }, []);
+
+  const [habits, setHabits] = useState<HabitRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const [timeZone, setTimeZone] = useState("");
+  const [tzMsg, setTzMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHabits(habitsFor(session?.user));
+    setTimeZone(timeZoneFor(session?.user, browserTimeZone()));
+  }, [session]);
+
+  async function saveTimeZone() {
+    setTzMsg(null);
+    if (!isValidTimeZone(timeZone)) {
+      setTzMsg("Unknown timezone");
+      return;
+    }
+    const { error } = await supabase.auth.updateUser({
+      data: { timezone: timeZone },
+    });
+    setTzMsg(error ? error.message : "Saved!");
+    setTimeout(() => setTzMsg(null), 2000);
+  }
+
+  function update(i: number, patch: Partial<HabitRow>) {
+    setHabits((hs) => hs.map((h, j) => (j === i ? { ...h, ...patch } : h)));
+  }
+
+  async function save() {
+    setMsg(null);
+    const parsed = habitDefinitionsSchema.safeParse(
+      habits.map(({ key, name, type, unit }) => ({ key, name, type, unit }))
+    );
+    if (!parsed.success) {
+      setErrors(
+        parsed.error.issues.map((i) =>
+          i.path.length
+            ? `#${Number(i.path[0]) + 1} ${i.path.slice(1).join(".")}: ${
+                i.message
+              }`
+            : i.message
+        )
+      );
+      return;
+    }
+    setErrors([]);
+    setSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({
+        data: { habits: parsed.data },
+      });
+      if (error) throw error;
+      setHabits(parsed.data);
+      setMsg("Saved!");
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : "Save failed");
+    } finally {
+      setSaving(false);
+      setTimeout(() => setMsg(null), 2000);
+    }
+  }
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="mx-auto max-w-3xl">
+        <h1 className="mb-4 text-2xl font-semibold">⚙️ Settings</h1>
+
+        {!session ? (
+          <div className="mb-4 rounded-md border border-yellow-800 bg-yellow-900/30 p-3 text-sm">
+            You’re not signed in. Go to{" "}
+            <Link href="/" className="underline">
+              Record
+            </Link>{" "}
+            and sign in first.
+          </div>
+        ) : (
+          <>
+            <section className="mb-8">
+              <h2 className="mb-1 text-xl font-semibold">Timezone</h2>
+              <p className="mb-3 text-sm text-neutral-400">
+                Decides which day a recording belongs to and what “today” means
+                on the logs and dashboard pages.
+              </p>
+              <div className="flex items-center gap-3">
+                <input
+                  list="time-zones"
+                  className="w-72 rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1"
+                  value={timeZone}
+                  onChange={(e) => setTimeZone(e.target.value)}
+                />
+                <datalist id="time-zones">
+                  {supportedTimeZones().map((z) => (
+                    <option key={z} value={z} />
+                  ))}
+                </datalist>
+                <button
+                  className="rounded-md bg-neutral-700 px-3 py-1.5 text-white hover:bg-neutral-600"
+                  onClick={() => setTimeZone(browserTimeZone() ?? timeZone)}
+                >
+                  Use this device’s
+                </button>
+                <button
+                  onClick={saveTimeZone}
+                  className="rounded-md bg-indigo-600 px-4 py-1.5 text-white hover:bg-indigo-500"
+                >
+                  Save timezone
+                </button>
+                {tzMsg && (
+                  <span className="text-sm text-neutral-400">{tzMsg}</span>
+                )}
+              </div>
+            </section>
+
+            <section className="mb-8">
+              <h2 className="mb-1 text-xl font-semibold">Habits & metrics</h2>
+              <p className="mb-3 text-sm text-neutral-400">
+                These drive what gets extracted from your recordings and what
+                the editor, logs and dashboard show. Renaming a habit keeps its
+                key, so past logs still line up.
+              </p>
+
+              <div className="space-y-2">
+                {habits.map((h, i) => (
+                  <div
+                    key={i}
+                    className="grid grid-cols-[1fr_8rem_6rem_auto] items-center gap-2 rounded-md border border-neutral-800 bg-neutral-900 p-2"
+                  >
+                    <div>
+                      <input
+                        className="w-full rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1"
+                        placeholder="Name (e.g. Meditation)"
+                        value={h.name}
+                        onChange={(e) =>
+                          update(i, {
+                            name: e.target.value,
+                            ...(h.isNew
+                              ? { key: habitKey(e.target.value) }
+                              : {}),
+                          })
+                        }
+                      />
+                      <div className="mt-1 text-xs text-neutral-500">
+                        key: <code>{h.key || "—"}</code>
+                      </div>
+                    </div>
+                    <select
+                      className="rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1"
+                      value={h.type}
+                      onChange={(e) =>
+                        update(i, {
+                          type: e.target.value as HabitDefinition["type"],
+                        })
+                      }
+                    >
+                      {HABIT_TYPES.map((t) => (
+                        <option key={t} value={t}>
+                          {t}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      className="rounded-md border border-neutral-800 bg-neutral-950 px-2 py-1 disabled:opacity-40"
+                      placeholder={h.type === "duration" ? "min" : "unit"}
+                      disabled={h.type === "boolean"}
+                      value={h.unit ?? ""}
+                      onChange={(e) =>
+                        update(i, { unit: e.target.value || undefined })
+                      }
+                    />
+                    <button
+                      className="rounded-md bg-neutral-800 px-2 py-1 text-sm hover:bg-neutral-700"
+                      onClick={() =>
+                        setHabits((hs) => hs.filter((_, j) => j !== i))
+                      }
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-3 flex items-center gap-3">
+                <button
+                  className="rounded-md bg-neutral-700 px-3 py-1.5 text-white hover:bg-neutral-600"
+                  onClick={() =>
+                    setHabits((hs) => [
+                      ...hs,
+                      { key: "", name: "", type: "boolean", isNew: true },
+                    ])
+                  }
+                >
+                  Add habit
+                </button>
+                <button
+                  onClick={save}
+                  disabled={saving}
+                  className={`rounded-md px-4 py-1.5 text-white ${
+                    saving
+                      ? "cursor-not-allowed bg-indigo-800/70"
+                      : "bg-indigo-600 hover:bg-indigo-500"
+                  }`}
+                >
+                  {saving ? "Saving..." : "Save habits"}
+                </button>
+                {msg && <span className="text-sm text-neutral-400">{msg}</span>}
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="mt-3 space-y-1 rounded-md border border-rose-700 bg-rose-900/40 p-3 text-sm">
+                  {errors.map((e) => (
+                    <li key={e}>{e}</li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <GoalSettings session={session} />
+            <ReminderSettings session={session} />
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+/* ---------------- Goals ---------------- */
+
+function GoalSettings({ session }: { session: Session }) {
+  const metrics = metricsFor(habitsFor(session.user));
+  const today = todayIn(timeZoneFor(session.user, browserTimeZone()));
+
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [metric, setMetric] = useState(metrics[0].key);
+  const [op, setOp] = useState<GoalOp>(">=");
+  const [target, setTarget] = useState("7");
+  const [perWeek, setPerWeek] = useState(0);
+  const [startDate, setStartDate] = useState(today);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const selected = metrics.find((m) => m.key === metric);
+
+  const token = session.access_token;
+  const call = useCallback(
+    async (path: string, init?: RequestInit) => {
+      const res = await fetch(path, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(
+          json?.fields
+            ? Object.entries(json.fields).map(([k, v]) => `${k}: ${v}`)
+            : [json?.error || "Request failed"]
+        );
+        return null;
+      }
+      setErrors([]);
+      return json;
+    },
+    [token]
+  );
+
+  useEffect(() => {
+    call("/api/goals").then((json) => json && setGoals(json.goals));
+  }, [call]);
+
+  async function add() {
+    const json = await call("/api/goals", {
+      method: "POST",
+      body: JSON.stringify({
+        metric,
+        op,
+        target: Number(target),
+        per_week: perWeek || null,
+        start_date: startDate,
+      }),
+    });
+    if (json) setGoals((gs) => [json.goal, ...gs]);
+  }
+
+  async function end(goal: Goal, endDate: string | null) {
+    const json = await call(`/api/goals/${goal.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ end_date: endDate }),
+    });
+    if (json)
+      setGoals((gs) => gs.map((g) => (g.id === goal.id ? json.goal : g)));
+  }
+
+  async function remove(goal: Goal) {
+    const label = describeGoal(
+      goal,
+      metrics.find((m) => m.key === goal.metric)
+    );
+    if (!confirm(`Delete the goal “${label}”?`)) return;
+    if (await call(`/api/goals/${goal.id}`, { method: "DELETE" })) {
+      setGoals((gs) => gs.filter((g) => g.id !== goal.id));
+    }
+  }
+
+  return (
+    <section className="mb-8">
+      <h2 className="mb-1 text-xl font-semibold">Goals</h2>
+      <p className="mb-3 text-sm text-neutral-400">
+        Targets for any metric, checked against each day’s log on the dashboard
+        and logs pages. To change a target, end the goal and add a new one so
+        past days keep the target they had.
+      </p>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value)}
+          className="rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1"
+        >
+          {metrics.map((m) => (
+            <option key={m.key} value={m.key}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        {!selected?.boolean && (
+          <>
+            <select
+              value={op}
+              onChange={(e) => setOp(e.target.value as GoalOp)}
+              className="rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1"
+            >
+              {GOAL_OPS.map((o) => (
+                <option key={o} value={o}>
+                  {o === ">=" ? "at least" : "at most"}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="w-24 rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1"
+            />
+            {selected?.unit && (
+              <span className="text-neutral-400">{selected.unit}</span>
+            )}
+          </>
+        )}
+        <select
+          value={perWeek}
+          onChange={(e) => setPerWeek(Number(e.target.value))}
+          className="rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1"
+        >
+          <option value={0}>every day</option>
+          {[1, 2, 3, 4, 5, 6].map((n) => (
+            <option key={n} value={n}>
+              on {n} day{n === 1 ? "" : "s"} a week
+            </option>
+          ))}
+        </select>
+        <label className="text-neutral-400">
+          from{" "}
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1 text-neutral-100"
+          />
+        </label>
+        <button
+          onClick={add}
+          className="rounded-md bg-indigo-600 px-4 py-1.5 text-white hover:bg-indigo-500"
+        >
+          Add goal
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mb-3 space-y-1 rounded-md border border-rose-700 bg-rose-900/40 p-3 text-sm">
+          {errors.map((e) => (
+            <li key={e}>{e}</li>
+          ))}
+        </ul>
+      )}
+
+      <ul className="space-y-2 text-sm">
+        {goals.map((g) => {
+          const ended = g.end_date !== null && g.end_date < today;
+          return (
+            <li
+              key={g.id}
+              className="flex flex-wrap items-center gap-3 rounded-md border border-neutral-800 bg-neutral-900 p-2"
+            >
+              <span className={`flex-1 ${ended ? "text-neutral-500" : ""}`}>
+                {describeGoal(
+                  g,
+                  metrics.find((m) => m.key === g.metric)
+                )}
+              </span>
+              <span className="text-xs text-neutral-500">
+                {g.start_date} → {g.end_date ?? "ongoing"}
+              </span>
+              {g.end_date ? (
+                <button
+                  onClick={() => end(g, null)}
+                  className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+                >
+                  Resume
+                </button>
+              ) : (
+                <button
+                  onClick={() =>
+                    end(g, g.start_date < today ? addDays(today, -1) : today)
+                  }
+                  className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+                >
+                  End
+                </button>
+              )}
+              <button
+                onClick={() => remove(g)}
+                className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+              >
+                Delete
+              </button>
+            </li>
+          );
+        })}
+        {!goals.length && <li className="text-neutral-500">No goals yet.</li>}
+      </ul>
+    </section>
+  );
+}
+
+/* ---------------- Reminders ---------------- */
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+/** base64url → the bytes pushManager.subscribe expects */
+function applicationServerKey(b64url: string) {
+  const b64 = b64url.replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+type PushState = "unsupported" | "off" | "on" | "denied";
+
+function ReminderSettings({ session }: { session: Session }) {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [schedule, setSchedule] = useState("21:30 on weekdays");
+  const [channel, setChannel] = useState<ReminderChannel>("push");
+  const [push, setPush] = useState<PushState>("unsupported");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const token = session.access_token;
+  const call = useCallback(
+    async (path: string, init?: RequestInit) => {
+      const res = await fetch(path, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(
+          json?.fields
+            ? Object.entries(json.fields).map(([k, v]) => `${k}: ${v}`)
+            : [json?.error || "Request failed"]
+        );
+        return null;
+      }
+      setErrors([]);
+      return json;
+    },
+    [token]
+  );
+
+  useEffect(() => {
+    call("/api/reminders").then((json) => json && setReminders(json.reminders));
+  }, [call]);
+
+  useEffect(() => {
+    if (!VAPID_PUBLIC_KEY || !("serviceWorker" in navigator)) return;
+    if (!("PushManager" in window)) return;
+    if (Notification.permission === "denied") {
+      setPush("denied");
+      return;
+    }
+    navigator.serviceWorker
+      .getRegistration("/sw.js")
+      .then((reg) => reg?.pushManager.getSubscription())
+      .then((sub) => setPush(sub ? "on" : "off"));
+  }, []);
+
+  async function enablePush() {
+    if (!VAPID_PUBLIC_KEY) return;
+    if ((await Notification.requestPermission()) !== "granted") {
+      setPush("denied");
+      return;
+    }
+    const reg = await navigator.serviceWorker.register("/sw.js");
+    await navigator.serviceWorker.ready;
+    const sub =
+      (await reg.pushManager.getSubscription()) ??
+      (await reg.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: applicationServerKey(VAPID_PUBLIC_KEY),
+      }));
+    const json = await call("/api/push/subscriptions", {
+      method: "POST",
+      body: JSON.stringify(sub.toJSON()),
+    });
+    if (json) setPush("on");
+  }
+
+  async function disablePush() {
+    const reg = await navigator.serviceWorker.getRegistration("/sw.js");
+    const sub = await reg?.pushManager.getSubscription();
+    if (sub) {
+      await call("/api/push/subscriptions", {
+        method: "DELETE",
+        body: JSON.stringify({ endpoint: sub.endpoint }),
+      });
+      await sub.unsubscribe();
+    }
+    setPush("off");
+  }
+
+  async function add() {
+    const json = await call("/api/reminders", {
+      method: "POST",
+      body: JSON.stringify({ schedule, channel }),
+    });
+    if (json) setReminders((rs) => [...rs, json.reminder]);
+  }
+
+  async function toggle(r: Reminder) {
+    const json = await call(`/api/reminders/${r.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ enabled: !r.enabled }),
+    });
+    if (json)
+      setReminders((rs) => rs.map((x) => (x.id === r.id ? json.reminder : x)));
+  }
+
+  async function remove(r: Reminder) {
+    if (!confirm(`Delete the reminder “${describeSchedule(r)}”?`)) return;
+    if (await call(`/api/reminders/${r.id}`, { method: "DELETE" })) {
+      setReminders((rs) => rs.filter((x) => x.id !== r.id));
+    }
+  }
+
+  return (
+    <section className="mb-8">
+      <h2 className="mb-1 text-xl font-semibold">Reminders</h2>
+      <p className="mb-3 text-sm text-neutral-400">
+        A nudge to record, at a time in your timezone such as{" "}
+        <code>21:30 on weekdays</code>, <code>07:00 daily</code> or{" "}
+        <code>20:00 on mon, thu</code>. Nothing is sent on days you’ve already
+        logged.
+      </p>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-neutral-400">Push on this browser:</span>
+        {push === "on" ? (
+          <button
+            onClick={disablePush}
+            className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+          >
+            On · turn off
+          </button>
+        ) : push === "off" ? (
+          <button
+            onClick={enablePush}
+            className="rounded-md bg-neutral-700 px-3 py-1 text-white hover:bg-neutral-600"
+          >
+            Enable
+          </button>
+        ) : (
+          <span className="text-neutral-500">
+            {push === "denied"
+              ? "blocked in the browser’s site settings"
+              : "not available here"}
+          </span>
+        )}
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+        <input
+          value={schedule}
+          onChange={(e) => setSchedule(e.target.value)}
+          className="w-56 rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1"
+        />
+        <select
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as ReminderChannel)}
+          className="rounded-md border border-neutral-800 bg-neutral-900 px-2 py-1"
+        >
+          {REMINDER_CHANNELS.map((c) => (
+            <option key={c} value={c}>
+              {c === "push" ? "Push notification" : "Email"}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={add}
+          className="rounded-md bg-indigo-600 px-4 py-1.5 text-white hover:bg-indigo-500"
+        >
+          Add reminder
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mb-3 space-y-1 rounded-md border border-rose-700 bg-rose-900/40 p-3 text-sm">
+          {errors.map((e) => (
+            <li key={e}>{e}</li>
+          ))}
+        </ul>
+      )}
+
+      <ul className="space-y-2 text-sm">
+        {reminders.map((r) => (
+          <li
+            key={r.id}
+            className="flex flex-wrap items-center gap-3 rounded-md border border-neutral-800 bg-neutral-900 p-2"
+          >
+            <span className={`flex-1 ${r.enabled ? "" : "text-neutral-500"}`}>
+              {describeSchedule(r)}
+            </span>
+            <span className="text-xs text-neutral-500">
+              {r.channel}
+              {r.last_sent_on && ` · last sent ${r.last_sent_on}`}
+            </span>
+            <button
+              onClick={() => toggle(r)}
+              className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+            >
+              {r.enabled ? "Pause" : "Resume"}
+            </button>
+            <button
+              onClick={() => remove(r)}
+              className="rounded-md bg-neutral-800 px-2 py-1 hover:bg-neutral-700"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+        {!reminders.length && (
+          <li className="text-neutral-500">No reminders yet.</li>
+        )}
+      </ul>
+    </section>
+  );
+}
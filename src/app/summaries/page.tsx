@@ -0,0 +1,333 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase-browser";
+import type { Session } from "@supabase/supabase-js";
+import { addDays, browserTimeZone, timeZoneFor, todayIn } from "@/lib/dates";
+import type {
+  Review,
+  Summary,
+  SummaryPeriod,
+  Theme,
+  Todo,
+} from "@/lib/summaries/types";
+
+const TREND_LABELS: Record<Review["mood"]["trend"], string> = {
+  up: "↗ trending up",
+  down: "↘ trending down",
+  steady: "→ steady",
+  unknown: "not enough moods logged",
+};
+
+function Themes({ title, themes }: { title: string; themes: Theme[] }) {
+  return (
+    <div>
+      <h3 className="mb-1 text-sm font-medium text-neutral-300">{title}</h3>
+      {themes.length ? (
+        <ul className="space-y-1 text-sm">
+          {themes.map((t) => (
+            <li key={t.theme}>
+              <span className="font-medium">{t.theme}</span>{" "}
+              <span className="text-neutral-500">({t.days} days)</span>
+              <div className="text-xs text-neutral-400">
+                {t.examples.join(" · ")}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-neutral-500">Nothing came up twice.</p>
+      )}
+    </div>
+  );
+}
+
+function Todos({ title, todos }: { title: string; todos: Todo[] }) {
+  if (!todos.length) return null;
+  return (
+    <div>
+      <h4 className="text-xs text-neutral-500">
+        {title} ({todos.length})
+      </h4>
+      <ul className="list-inside list-disc text-sm">
+        {todos.map((t) => (
+          <li key={`${t.planned_on}-${t.text}`}>
+            {t.text}
+            <span className="text-xs text-neutral-500">
+              {" "}
+              — planned {t.planned_on}
+              {t.done_on ? `, done ${t.done_on}` : ""}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ReviewView({ summary }: { summary: Summary }) {
+  const r = summary.review;
+  return (
+    <div className="space-y-5">
+      <div>
+        <h2 className="text-lg font-medium">
+          {r.period === "week" ? "Week" : "Month"} of {r.start} – {r.end}
+        </h2>
+        <p className="text-xs text-neutral-500">
+          {r.days_logged}/{r.days} days logged · written by {summary.narrator}
+          {summary.narrator_fallback &&
+            ` (fallback: ${summary.narrator_fallback})`}{" "}
+          · {new Date(summary.generated_at).toLocaleString()}
+        </p>
+      </div>
+
+      <p className="leading-relaxed text-neutral-100">{summary.narrative}</p>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Themes title="✨ Recurring highlights" themes={r.highlights} />
+        <Themes title="🧗 Recurring challenges" themes={r.challenges} />
+      </div>
+
+      <div>
+        <h3 className="mb-1 text-sm font-medium text-neutral-300">🙂 Mood</h3>
+        <p className="text-sm">
+          {TREND_LABELS[r.mood.trend]}
+          {r.mood.average !== null && ` · average ${r.mood.average}/5`}
+          {r.mood.previous !== null && ` (previously ${r.mood.previous})`}
+        </p>
+        {r.mood.words.length > 0 && (
+          <p className="text-xs text-neutral-400">
+            {r.mood.words.map((w) => `${w.mood} ×${w.days}`).join(", ")}
+          </p>
+        )}
+      </div>
+
+      {r.metrics.length > 0 && (
+        <div>
+          <h3 className="mb-1 text-sm font-medium text-neutral-300">
+            📊 Averages vs previous {r.period}
+          </h3>
+          <table className="w-full text-left text-sm">
+            <tbody>
+              {r.metrics.map((m) => (
+                <tr key={m.key} className="border-t border-neutral-800">
+                  <td className="py-1 pr-3">{m.label}</td>
+                  <td className="py-1 pr-3">
+                    {m.average ?? "—"}
+                    {m.unit && m.average !== null ? ` ${m.unit}` : ""}
+                  </td>
+                  <td className="py-1 pr-3 text-neutral-500">
+                    {m.previous ?? "—"}
+                  </td>
+                  <td
+                    className={`py-1 ${
+                      !m.change
+                        ? "text-neutral-500"
+                        : m.change > 0
+                        ? "text-emerald-300"
+                        : "text-rose-300"
+                    }`}
+                  >
+                    {m.change === null
+                      ? ""
+                      : `${m.change > 0 ? "+" : ""}${m.change}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-neutral-300">📝 Todos</h3>
+        <Todos title="Completed" todos={r.todos.completed} />
+        <Todos title="Dropped" todos={r.todos.dropped} />
+        <Todos title="Still open" todos={r.todos.open} />
+        {!r.todos.completed.length &&
+          !r.todos.dropped.length &&
+          !r.todos.open.length && (
+            <p className="text-sm text-neutral-500">No todos planned.</p>
+          )}
+      </div>
+    </div>
+  );
+}
+
+export default function SummariesPage() {
+  const [session, setSession] = useState<Session | null>(null);
+  useEffect(() => {
+    supabase.auth
+      .getSession()
+      .then(({ data }) => setSession(data.session ?? null));
+    const { data: sub } = supabase.auth.onAuthStateChange((_evt, s) =>
+      setSession(s)
+    );
+    return () => sub.subscription.unsubscribe();
+  }, []);
+
+  const [summaries, setSummaries] = useState<Summary[]>([]);
+  const [selected, setSelected] = useState<Summary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = todayIn(timeZoneFor(session?.user, browserTimeZone()));
+
+  const token = session?.access_token;
+  const call = useCallback(
+    async (path: string, init?: RequestInit) => {
+      const res = await fetch(path, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Request failed");
+      return json;
+    },
+    [token]
+  );
+
+  function remember(s: Summary) {
+    setSelected(s);
+    setSummaries((all) =>
+      [s, ...all.filter((x) => x.id !== s.id)].sort((a, b) =>
+        b.start_date.localeCompare(a.start_date)
+      )
+    );
+  }
+
+  async function generate(period: SummaryPeriod, date: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      remember(
+        (
+          await call("/api/summaries", {
+            method: "POST",
+            body: JSON.stringify({ period, date }),
+          })
+        ).summary
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to generate review");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Opening a stale review regenerates it on the server */
+  async function open(s: Summary) {
+    setSelected(s);
+    if (!s.stale) return;
+    setBusy(true);
+    setError(null);
+    try {
+      remember((await call(`/api/summaries/${s.id}`)).summary);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to refresh review");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!token) return;
+    call("/api/summaries")
+      .then((json) => setSummaries(json.summaries))
+      .catch((e) => setError(e.message));
+  }, [token, call]);
+
+  const lastMonth = addDays(`${today.slice(0, 7)}-01`, -1);
+  const shortcuts: { label: string; period: SummaryPeriod; date: string }[] = [
+    { label: "This week", period: "week", date: today },
+    { label: "Last week", period: "week", date: addDays(today, -7) },
+    { label: "This month", period: "month", date: today },
+    { label: "Last month", period: "month", date: lastMonth },
+  ];
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="mx-auto max-w-5xl">
+        <h1 className="mb-4 text-2xl font-semibold">🗓️ Reviews</h1>
+
+        {!session ? (
+          <div className="mb-4 rounded-md border border-yellow-800 bg-yellow-900/30 p-3 text-sm">
+            You’re not signed in. Go to{" "}
+            <Link href="/" className="underline">
+              Record
+            </Link>{" "}
+            and sign in first.
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-neutral-400">Write a review for</span>
+              {shortcuts.map((s) => (
+                <button
+                  key={s.label}
+                  onClick={() => generate(s.period, s.date)}
+                  disabled={busy}
+                  className="rounded-md bg-neutral-700 px-3 py-1.5 text-white hover:bg-neutral-600 disabled:opacity-50"
+                >
+                  {s.label}
+                </button>
+              ))}
+              {busy && <span className="text-neutral-500">Writing…</span>}
+            </div>
+
+            {error && (
+              <div className="mb-4 rounded-md border border-rose-700 bg-rose-900/40 p-3 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+              <ul className="space-y-1 text-sm">
+                {summaries.map((s) => (
+                  <li key={s.id}>
+                    <button
+                      onClick={() => open(s)}
+                      className={`w-full rounded-md px-2 py-1.5 text-left hover:bg-neutral-800 ${
+                        selected?.id === s.id ? "bg-neutral-800" : ""
+                      }`}
+                    >
+                      <span className="mr-2 rounded bg-neutral-700 px-1.5 py-0.5 text-xs">
+                        {s.period}
+                      </span>
+                      {s.start_date}
+                      {s.stale && (
+                        <span
+                          className="ml-1 text-xs text-yellow-300"
+                          title="Logs changed since this was written; opening it rewrites it"
+                        >
+                          ●
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+                {!summaries.length && (
+                  <li className="text-neutral-500">No reviews yet.</li>
+                )}
+              </ul>
+
+              <section className="rounded-lg border border-neutral-800 bg-neutral-900 p-4">
+                {selected ? (
+                  <ReviewView summary={selected} />
+                ) : (
+                  <p className="text-sm text-neutral-500">
+                    Pick a review, or write one for this week or month.
+                  </p>
+                )}
+              </section>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
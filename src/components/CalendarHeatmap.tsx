@@ -0,0 +1,104 @@
+"use client";
+
+import React from "react";
+import { addDays, daysBetween } from "@/lib/dates";
+import { weekStart } from "@/lib/streaks";
+
+const LEVELS = [
+  "bg-emerald-900",
+  "bg-emerald-700",
+  "bg-emerald-500",
+  "bg-emerald-300",
+];
+const EMPTY = "bg-neutral-900";
+const ZERO = "bg-neutral-800";
+const WEEKDAYS = ["Mon", "", "Wed", "", "Fri", "", ""];
+
+function level(value: number | null, max: number) {
+  if (value === null) return EMPTY;
+  if (value <= 0 || max <= 0) return ZERO;
+  const i = Math.ceil((Math.min(value, max) / max) * LEVELS.length) - 1;
+  return LEVELS[Math.max(0, i)];
+}
+
+/**
+ * GitHub-style grid: one column per week (Monday first), one cell per day
+ * from `from` to `to`. Days with no value are blank, zero is grey, and the
+ * rest are shaded in quarters of `max` (default: the largest value).
+ */
+export function CalendarHeatmap({
+  from,
+  to,
+  values,
+  max,
+  format = (v) => String(v),
+  onSelect,
+}: {
+  from: string;
+  to: string;
+  values: Record<string, number | null>;
+  max?: number;
+  format?: (value: number) => string;
+  onSelect?: (date: string) => void;
+}) {
+  const top =
+    max ??
+    Math.max(
+      0,
+      ...Object.values(values).filter((v): v is number => v !== null)
+    );
+  const first = weekStart(from);
+  const weeks = Math.floor(daysBetween(first, to) / 7) + 1;
+
+  return (
+    <div className="flex gap-1 overflow-x-auto pb-1 text-[10px] text-neutral-500">
+      <div className="mt-4 grid grid-rows-7 gap-[3px] pr-1">
+        {WEEKDAYS.map((d, i) => (
+          <span key={i} className="h-3 leading-3">
+            {d}
+          </span>
+        ))}
+      </div>
+      {Array.from({ length: weeks }, (_, w) => {
+        const monday = addDays(first, w * 7);
+        const days = Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+        // Label the column a month starts in (and the first, unless it's cramped)
+        const newMonth = days.find((d) => d >= from && d.endsWith("-01"));
+        const label = newMonth
+          ? monthLabel(newMonth)
+          : w === 0 && Number(from.slice(8)) <= 17
+          ? monthLabel(from)
+          : "";
+        return (
+          <div key={monday} className="flex flex-col gap-[3px]">
+            <span className="h-3 whitespace-nowrap leading-3">{label}</span>
+            {days.map((d) => {
+              if (d < from || d > to)
+                return <span key={d} className="h-3 w-3" />;
+              const v = values[d] ?? null;
+              return (
+                <button
+                  key={d}
+                  type="button"
+                  title={`${d}: ${v === null ? "not logged" : format(v)}`}
+                  onClick={() => onSelect?.(d)}
+                  className={`h-3 w-3 rounded-sm ${level(v, top)} ${
+                    onSelect ? "hover:ring-1 hover:ring-neutral-300" : ""
+                  }`}
+                />
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function monthLabel(date: string) {
+  const [y, m] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, 1)).toLocaleString("en-US", {
+    month: "short",
+    timeZone: "UTC",
+  });
+}
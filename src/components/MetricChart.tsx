@@ -0,0 +1,102 @@
+"use client";
+
+import React from "react";
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+  type ChartOptions,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+);
+
+export type ChartLine = {
+  label: string;
+  values: (number | null)[];
+  color: string;
+  /** Draws the line dashed and without points (rolling averages) */
+  smooth?: boolean;
+  /** Plots against the right-hand axis */
+  right?: boolean;
+};
+
+type Axis = { title?: string; min?: number; max?: number };
+
+const GRID = "rgba(64, 64, 64, 0.5)";
+const TICKS = "#a3a3a3";
+
+/** Line chart over calendar days; nulls are drawn as gaps */
+export function MetricChart({
+  dates,
+  lines,
+  left,
+  right,
+  height = 220,
+}: {
+  dates: string[];
+  lines: ChartLine[];
+  left?: Axis;
+  right?: Axis;
+  height?: number;
+}) {
+  const axis = (a: Axis | undefined, position: "left" | "right") => ({
+    position,
+    min: a?.min,
+    max: a?.max,
+    grid: { color: GRID, drawOnChartArea: position === "left" },
+    ticks: { color: TICKS },
+    title: { display: Boolean(a?.title), text: a?.title, color: TICKS },
+  });
+
+  const options: ChartOptions<"line"> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    spanGaps: false,
+    interaction: { mode: "index", intersect: false },
+    plugins: {
+      legend: { labels: { color: TICKS, boxWidth: 12 } },
+    },
+    scales: {
+      x: {
+        grid: { color: GRID },
+        ticks: { color: TICKS, maxTicksLimit: 8, maxRotation: 0 },
+      },
+      y: axis(left, "left"),
+      ...(lines.some((l) => l.right) ? { y1: axis(right, "right") } : {}),
+    },
+  };
+
+  return (
+    <div style={{ height }}>
+      <Line
+        options={options}
+        data={{
+          labels: dates,
+          datasets: lines.map((l) => ({
+            label: l.label,
+            data: l.values,
+            borderColor: l.color,
+            backgroundColor: l.color,
+            borderWidth: l.smooth ? 2 : 1.5,
+            borderDash: l.smooth ? [6, 4] : undefined,
+            pointRadius: l.smooth ? 0 : 2,
+            tension: l.smooth ? 0.3 : 0,
+            yAxisID: l.right ? "y1" : "y",
+          })),
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Registers public/sw.js on every page. Skipped in development, where the
+ * cache would serve stale bundles; push reminders register it on demand.
+ */
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((err) => console.warn("[sw] registration failed:", err));
+  }, []);
+  return null;
+}
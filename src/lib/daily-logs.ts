@@ -0,0 +1,229 @@
+// src/lib/daily-logs.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Extracted } from "@/lib/extracted";
+import { joinTranscripts, mergeExtracted } from "@/lib/merge";
+import { migrateRow } from "@/lib/migrations";
+import { getAudioStorage } from "@/lib/storage";
+import { syncTasks } from "@/lib/tasks";
+
+export type NewEntry = {
+  userId: string;
+  logDate: string;
+  transcript: string;
+  extracted: Extracted;
+  sttProvider?: string | null;
+  extractor?: string | null;
+  recordedAt?: string;
+  audioPath?: string | null;
+  audioUrl?: string | null;
+  /** Reuse on retry so the recording is merged and stored only once */
+  entryId?: string;
+};
+
+/** Writes lost to a concurrent save are retried this many times */
+const MAX_SAVE_ATTEMPTS = 5;
+
+/**
+ * Stores one recording as a `log_entries` row and folds it into the day's
+ * `daily_logs` row. Merging onto the stored day (rather than re-merging all
+ * entries) keeps any hand edits made through the editor. The day's todos
+ * and completed tasks then update `tasks`.
+ *
+ * Saving is idempotent per `entryId`: the day records which entries it has
+ * merged, and an entry row that already exists is read back, so a retry
+ * after a partial save finishes it instead of merging the transcript twice.
+ */
+export async function saveEntry(supabase: SupabaseClient, e: NewEntry) {
+  const entryId = e.entryId ?? crypto.randomUUID();
+  const row = await mergeIntoDay(supabase, e, entryId);
+  const entry = await insertEntry(supabase, row.id, e, entryId);
+
+  await syncTasks(supabase, e.userId, row);
+  return { row, entry };
+}
+
+/**
+ * Replaces day `dayId` with a single new entry, in place. The new entry is
+ * stored before anything old is removed, so a failure leaves the day as it
+ * was (at worst with the new entry added to its list).
+ */
+export async function replaceDay(
+  supabase: SupabaseClient,
+  dayId: string,
+  e: NewEntry
+) {
+  const entry = await insertEntry(supabase, dayId, e);
+
+  const { data: row, error } = await supabase
+    .from("daily_logs")
+    .update({
+      transcript: e.transcript,
+      extracted: e.extracted,
+      schema_version: e.extracted.schema_version,
+      edited_fields: [],
+      merged_entry_ids: [entry.id],
+      audio_url: e.audioUrl ?? null,
+    })
+    .eq("id", dayId)
+    .eq("user_id", e.userId)
+    .select()
+    .single();
+  if (error) throw error;
+
+  const { data: old, error: oldErr } = await supabase
+    .from("log_entries")
+    .select("id, audio_path")
+    .eq("daily_log_id", dayId)
+    .neq("id", entry.id);
+  if (oldErr) throw oldErr;
+  if (old?.length) {
+    const { error: delErr } = await supabase
+      .from("log_entries")
+      .delete()
+      .in(
+        "id",
+        old.map((o: { id: string }) => o.id)
+      );
+    if (delErr) throw delErr;
+    await getAudioStorage(supabase).remove(
+      old
+        .map((o: { audio_path: string | null }) => o.audio_path)
+        .filter((p): p is string => Boolean(p))
+    );
+  }
+
+  await syncTasks(supabase, e.userId, row);
+  return { row, entry };
+}
+
+async function insertEntry(
+  supabase: SupabaseClient,
+  dayId: string,
+  e: NewEntry,
+  entryId: string = e.entryId ?? crypto.randomUUID()
+) {
+  const { data: entry, error: entryErr } = await supabase
+    .from("log_entries")
+    .insert({
+      id: entryId,
+      user_id: e.userId,
+      daily_log_id: dayId,
+      log_date: e.logDate,
+      recorded_at: e.recordedAt ?? new Date().toISOString(),
+      transcript: e.transcript,
+      extracted: e.extracted,
+      schema_version: e.extracted.schema_version,
+      stt_provider: e.sttProvider ?? null,
+      extractor: e.extractor ?? null,
+      audio_path: e.audioPath ?? null,
+      audio_url: e.audioUrl ?? null,
+    })
+    .select()
+    .single();
+  // Stored by an earlier attempt of the same save
+  if (entryErr?.code === "23505") {
+    const { data: stored, error } = await supabase
+      .from("log_entries")
+      .select()
+      .eq("id", entryId)
+      .eq("user_id", e.userId)
+      .single();
+    if (error) throw error;
+    return stored;
+  }
+  if (entryErr) throw entryErr;
+  return entry;
+}
+
+/**
+ * Read, merge, then write only if the day is unchanged since the read
+ * (`updated_at`, bumped by a trigger on every update); otherwise re-read
+ * and merge again. Two jobs for the same day would otherwise both merge
+ * onto the same snapshot and the second write would drop the first.
+ */
+async function mergeIntoDay(
+  supabase: SupabaseClient,
+  e: NewEntry,
+  entryId: string
+) {
+  for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+    const { data: existing, error: readErr } = await supabase
+      .from("daily_logs")
+      .select("*")
+      .eq("user_id", e.userId)
+      .eq("log_date", e.logDate)
+      .maybeSingle();
+    if (readErr) throw readErr;
+
+    const day = existing ? migrateRow(existing) : null;
+    const merged: string[] = day?.merged_entry_ids ?? [];
+    // An earlier attempt already merged this entry
+    if (day && merged.includes(entryId)) return day;
+
+    const extracted = day?.extracted
+      ? mergeExtracted(day.extracted as Extracted, e.extracted)
+      : e.extracted;
+    const values = {
+      transcript: joinTranscripts(day?.transcript, e.transcript),
+      extracted,
+      schema_version: extracted.schema_version,
+      merged_entry_ids: [...merged, entryId],
+      // The day's player points at its latest recording
+      ...(e.audioUrl ? { audio_url: e.audioUrl } : {}),
+    };
+
+    if (!day) {
+      const { data: row, error } = await supabase
+        .from("daily_logs")
+        .insert({ user_id: e.userId, log_date: e.logDate, ...values })
+        .select()
+        .single();
+      // Another save created the day first: merge onto theirs
+      if (error?.code === "23505") continue;
+      if (error) throw error;
+      return row;
+    }
+
+    const { data: row, error } = await supabase
+      .from("daily_logs")
+      .update(values)
+      .eq("id", day.id)
+      .eq("updated_at", day.updated_at)
+      .select()
+      .maybeSingle();
+    if (error) throw error;
+    if (row) return row;
+  }
+  throw new Error(
+    `daily_logs ${e.logDate} kept changing while saving; try again`
+  );
+}
+
+/**
+ * Deletes one of the user's days, its entries (FK cascade) and every
+ * recording stored for it. Returns null when there is no such day.
+ */
+export async function deleteDay(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string
+) {
+  const { data: row, error: readErr } = await supabase
+    .from("daily_logs")
+    .select("id, log_entries(audio_path)")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (readErr) throw readErr;
+  if (!row) return null;
+
+  const paths = (row.log_entries ?? [])
+    .map((e: { audio_path: string | null }) => e.audio_path)
+    .filter((p): p is string => Boolean(p));
+  await getAudioStorage(supabase).remove(paths);
+
+  const { error } = await supabase.from("daily_logs").delete().eq("id", id);
+  if (error) throw error;
+
+  return { audioDeleted: paths.length };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  DEFAULT_TIME_ZONE,
+  daysBetween,
+  timeZoneFor,
+  todayIn,
+} from "./dates";
+
+const at = (iso: string) => new Date(iso);
+
+describe("todayIn", () => {
+  it("rolls over at local midnight in Asia/Kolkata (UTC+5:30)", () => {
+    expect(todayIn("Asia/Kolkata", at("2026-03-14T18:29:00Z"))).toBe(
+      "2026-03-14"
+    );
+    expect(todayIn("Asia/Kolkata", at("2026-03-14T18:31:00Z"))).toBe(
+      "2026-03-15"
+    );
+  });
+
+  it("rolls over at local midnight in a zone behind UTC", () => {
+    // America/Los_Angeles is UTC-7 in July
+    expect(todayIn("America/Los_Angeles", at("2026-07-15T06:59:00Z"))).toBe(
+      "2026-07-14"
+    );
+    expect(todayIn("America/Los_Angeles", at("2026-07-15T07:01:00Z"))).toBe(
+      "2026-07-15"
+    );
+  });
+
+  it("follows the offset change on DST days", () => {
+    // New York springs forward on 2026-03-08: midnight is 05:00Z, not 04:00Z
+    expect(todayIn("America/New_York", at("2026-03-08T04:59:00Z"))).toBe(
+      "2026-03-07"
+    );
+    expect(todayIn("America/New_York", at("2026-03-09T03:59:00Z"))).toBe(
+      "2026-03-08"
+    );
+    expect(todayIn("America/New_York", at("2026-03-09T04:01:00Z"))).toBe(
+      "2026-03-09"
+    );
+  });
+});
+
+describe("addDays and daysBetween across DST", () => {
+  it("steps one calendar day over the America/New_York changes", () => {
+    expect(addDays("2026-03-07", 1)).toBe("2026-03-08");
+    expect(addDays("2026-03-08", 1)).toBe("2026-03-09");
+    expect(addDays("2026-11-01", -1)).toBe("2026-10-31");
+    expect(addDays("2026-10-31", 2)).toBe("2026-11-02");
+  });
+
+  it("counts whole days over the Europe/London changes", () => {
+    // Clocks go forward on 2026-03-29 and back on 2026-10-25
+    expect(daysBetween("2026-03-28", "2026-03-30")).toBe(2);
+    expect(daysBetween("2026-10-24", "2026-10-26")).toBe(2);
+    expect(daysBetween("2026-03-01", "2026-11-01")).toBe(245);
+    expect(daysBetween("2026-10-26", "2026-10-24")).toBe(-2);
+  });
+
+  it("round-trips", () => {
+    const from = "2026-03-01";
+    for (const n of [0, 7, 30, 240, -30]) {
+      expect(daysBetween(from, addDays(from, n))).toBe(n);
+    }
+  });
+});
+
+describe("timeZoneFor", () => {
+  const user = (timezone?: unknown) => ({ user_metadata: { timezone } });
+
+  it("prefers the zone stored on the user", () => {
+    expect(timeZoneFor(user("Europe/London"), "America/New_York")).toBe(
+      "Europe/London"
+    );
+  });
+
+  it("falls back to the given zone when none is stored", () => {
+    expect(timeZoneFor(user(), "America/New_York")).toBe("America/New_York");
+    expect(timeZoneFor(null, "America/New_York")).toBe("America/New_York");
+  });
+
+  it("skips an invalid stored zone", () => {
+    expect(timeZoneFor(user("Mars/Olympus"), "Europe/London")).toBe(
+      "Europe/London"
+    );
+  });
+
+  it("ends at the default zone", () => {
+    expect(timeZoneFor(user("Mars/Olympus"), "nope")).toBe(DEFAULT_TIME_ZONE);
+    expect(timeZoneFor(undefined, null)).toBe(DEFAULT_TIME_ZONE);
+    expect(timeZoneFor()).toBe(DEFAULT_TIME_ZONE);
+  });
+});
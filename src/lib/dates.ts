@@ -0,0 +1,82 @@
+// src/lib/dates.ts
+import type { User } from "@supabase/supabase-js";
+
+/**
+ * Calendar-day helpers. A "day" is always a yyyy-mm-dd string in the user's
+ * IANA timezone (stored as `timezone` in Supabase user metadata).
+ */
+
+/** What every account used before timezones were configurable */
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
+export function isValidTimeZone(tz: unknown): tz is string {
+  if (typeof tz !== "string" || !tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The browser's zone, or undefined on the server / very old browsers */
+export function browserTimeZone(): string | undefined {
+  if (typeof Intl === "undefined") return undefined;
+  const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(tz) ? tz : undefined;
+}
+
+/** Stored zone → `fallback` (e.g. the browser's or one posted by the client) → IST */
+export function timeZoneFor(
+  user?: Pick<User, "user_metadata"> | null,
+  fallback?: string | null
+): string {
+  const stored = user?.user_metadata?.timezone;
+  if (isValidTimeZone(stored)) return stored;
+  if (isValidTimeZone(fallback)) return fallback;
+  return DEFAULT_TIME_ZONE;
+}
+
+/** yyyy-mm-dd of `now` as seen on a wall clock in `timeZone` */
+export function todayIn(timeZone: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+/** Pure calendar arithmetic on yyyy-mm-dd — no timezone or DST involved */
+export function addDays(dateISO: string, days: number): string {
+  const [y, m, d] = dateISO.split("-").map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return date.toISOString().slice(0, 10);
+}
+
+/** Whole days from `a` to `b` (positive when b is later) */
+export function daysBetween(a: string, b: string): number {
+  const toUtc = (iso: string) => {
+    const [y, m, d] = iso.split("-").map(Number);
+    return Date.UTC(y, m - 1, d);
+  };
+  return Math.round((toUtc(b) - toUtc(a)) / 86_400_000);
+}
+
+/** "21:04" — wall-clock time of an instant in `timeZone` */
+export function formatTimeIn(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+/** Every zone the runtime knows, for pickers */
+export function supportedTimeZones(): string[] {
+  return typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : [DEFAULT_TIME_ZONE, "UTC"];
+}
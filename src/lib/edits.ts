@@ -0,0 +1,90 @@
+// src/lib/edits.ts
+import type { Extracted } from "@/lib/extracted";
+
+/**
+ * Hand edits made through the editor are remembered per field in
+ * `daily_logs.edited_fields` (e.g. "mood", "habits.yoga", "health.steps") so
+ * re-extraction can keep them. Objects are tracked one level deep.
+ */
+const NESTED = new Set(["habits", "work", "health"]);
+
+/** undefined, null, "", [] and false all mean "nothing said" */
+function isEmpty(v: unknown) {
+  return (
+    v === undefined ||
+    v === null ||
+    v === "" ||
+    v === false ||
+    (Array.isArray(v) && v.length === 0)
+  );
+}
+
+function same(a: unknown, b: unknown) {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+type Fields = Record<string, unknown>;
+
+function flatten(x: Extracted): Fields {
+  const out: Fields = {};
+  for (const [k, v] of Object.entries(x)) {
+    if (k === "schema_version") continue;
+    if (NESTED.has(k) && v && typeof v === "object") {
+      for (const [sub, sv] of Object.entries(v)) out[`${k}.${sub}`] = sv;
+    } else {
+      out[k] = v;
+    }
+  }
+  return out;
+}
+
+export type FieldChange = { path: string; before: unknown; after: unknown };
+
+/** Per-field JSON diff between two payloads, sorted by path */
+export function diffFields(before: Extracted, after: Extracted): FieldChange[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys]
+    .filter((k) => !same(a[k], b[k]))
+    .sort()
+    .map((path) => ({
+      path,
+      before: a[path] ?? null,
+      after: b[path] ?? null,
+    }));
+}
+
+/** Dotted paths whose value differs between two payloads */
+export function changedFields(before: Extracted, after: Extracted): string[] {
+  return diffFields(before, after).map((c) => c.path);
+}
+
+/** Union of two edited-field lists, sorted */
+export function addEditedFields(
+  prev: string[] | null | undefined,
+  next: string[]
+) {
+  return [...new Set([...(prev ?? []), ...next])].sort();
+}
+
+/** `fresh` with every edited path taken from `current` instead */
+export function keepEdited(
+  fresh: Extracted,
+  current: Extracted,
+  edited: string[]
+): Extracted {
+  const out: Record<string, unknown> = { ...fresh };
+  for (const path of edited) {
+    const [key, sub] = path.split(".");
+    const from = (current as Record<string, unknown>)[key];
+    if (!sub) {
+      out[key] = from;
+      continue;
+    }
+    const value = (from as Record<string, unknown> | undefined)?.[sub];
+    out[key] = { ...(out[key] as object | undefined), [sub]: value };
+  }
+  return out as Extracted;
+}
@@ -0,0 +1,64 @@
+// src/lib/export/csv.ts
+import type { Extracted } from "@/lib/extracted";
+import type { ExportContext, Exporter } from "./types";
+
+type Column = [header: string, value: (x: Extracted) => unknown];
+
+const list = (xs?: string[]) => (xs ?? []).join("; ");
+
+/** One column per scalar; nested objects are flattened to `habits.yoga`, `health.steps`, … */
+function columns(ctx: ExportContext): Column[] {
+  return [
+    ["sleep_hours", (x) => x.sleep_hours],
+    ["mood", (x) => x.mood],
+    ["energy", (x) => x.energy],
+    ["focus", (x) => x.focus],
+    ...ctx.habits.map<Column>((h) => [
+      `habits.${h.key}`,
+      (x) => x.habits?.[h.key],
+    ]),
+    ["work.top_task_done", (x) => x.work?.top_task_done],
+    [
+      "work.minutes",
+      (x) => x.work?.time_blocks?.reduce((sum, b) => sum + (b.minutes ?? 0), 0),
+    ],
+    ["health.steps", (x) => x.health?.steps],
+    ["health.water_glasses", (x) => x.health?.water_glasses],
+    ["health.calories", (x) => x.health?.calories],
+    ["highlights", (x) => list(x.highlights)],
+    ["challenges", (x) => list(x.challenges)],
+    ["gratitude", (x) => list(x.gratitude)],
+    ["todos_tomorrow", (x) => list(x.todos_tomorrow)],
+    ["notes", (x) => x.notes],
+  ];
+}
+
+function cell(v: unknown) {
+  if (v === undefined || v === null) return "";
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const line = (cells: unknown[]) => cells.map(cell).join(",") + "\r\n";
+
+export const csvExporter: Exporter = {
+  contentType: "text/csv; charset=utf-8",
+  extension: "csv",
+
+  header(ctx) {
+    return line(["log_date", ...columns(ctx).map(([h]) => h), "transcript"]);
+  },
+
+  row(row, _index, ctx) {
+    const x = row.extracted ?? {};
+    return line([
+      row.log_date,
+      ...columns(ctx).map(([, value]) => value(x)),
+      row.transcript,
+    ]);
+  },
+
+  footer() {
+    return "";
+  },
+};
@@ -0,0 +1,80 @@
+// src/lib/export/ics.ts
+import { addDays } from "@/lib/dates";
+import type { Exporter } from "./types";
+
+/** RFC 5545 TEXT escaping */
+function text(s: string) {
+  return s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Lines longer than 75 characters continue on the next line after a space */
+function fold(line: string) {
+  const out: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    out.push((i ? " " : "") + line.slice(i, i + 74));
+  }
+  return out.join("\r\n");
+}
+
+const lines = (...ls: string[]) => ls.map(fold).join("\r\n") + "\r\n";
+
+const icsDate = (iso: string) => iso.replace(/-/g, "");
+
+const stamp = (iso: string) =>
+  iso.replace(/[-:]/g, "").replace(/\.\d+/, "").replace(/Z?$/, "Z");
+
+/** One all-day event per log; mood/energy in the title, panels in the description */
+export const icsExporter: Exporter = {
+  contentType: "text/calendar; charset=utf-8",
+  extension: "ics",
+
+  header() {
+    return lines(
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//voice-diary-app//export//EN",
+      "CALSCALE:GREGORIAN",
+      "X-WR-CALNAME:Voice diary"
+    );
+  },
+
+  row(row, _index, ctx) {
+    const x = row.extracted ?? {};
+    const title = [
+      "Diary",
+      x.mood,
+      x.energy !== undefined ? `energy ${x.energy}/10` : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    const description = [
+      x.highlights?.length && `Highlights: ${x.highlights.join("; ")}`,
+      x.challenges?.length && `Challenges: ${x.challenges.join("; ")}`,
+      x.gratitude?.length && `Gratitude: ${x.gratitude.join("; ")}`,
+      x.todos_tomorrow?.length && `Tomorrow: ${x.todos_tomorrow.join("; ")}`,
+      x.notes && `Notes: ${x.notes}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    return lines(
+      "BEGIN:VEVENT",
+      `UID:${row.id}@voice-diary-app`,
+      `DTSTAMP:${stamp(ctx.exportedAt)}`,
+      `DTSTART;VALUE=DATE:${icsDate(row.log_date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(row.log_date, 1))}`,
+      `SUMMARY:${text(title)}`,
+      ...(description ? [`DESCRIPTION:${text(description)}`] : []),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  },
+
+  footer() {
+    return lines("END:VCALENDAR");
+  },
+};
@@ -0,0 +1,24 @@
+// src/lib/export/index.ts
+import { csvExporter } from "./csv";
+import { icsExporter } from "./ics";
+import { jsonExporter } from "./json";
+import { markdownExporter } from "./markdown";
+import { EXPORT_FORMATS, type ExportFormat, type Exporter } from "./types";
+
+export { EXPORT_FORMATS } from "./types";
+export type { ExportContext, ExportFormat, ExportRow, Exporter } from "./types";
+
+const exporters: Record<ExportFormat, Exporter> = {
+  csv: csvExporter,
+  json: jsonExporter,
+  md: markdownExporter,
+  ics: icsExporter,
+};
+
+export function isExportFormat(x: unknown): x is ExportFormat {
+  return EXPORT_FORMATS.includes(x as ExportFormat);
+}
+
+export function getExporter(format: ExportFormat): Exporter {
+  return exporters[format];
+}
@@ -0,0 +1,31 @@
+// src/lib/export/json.ts
+import type { Exporter } from "./types";
+
+/** Everything, including each recording's entry: `{ exported_at, from, to, habits, logs: [...] }` */
+export const jsonExporter: Exporter = {
+  contentType: "application/json; charset=utf-8",
+  extension: "json",
+
+  header(ctx) {
+    const meta = JSON.stringify(
+      {
+        exported_at: ctx.exportedAt,
+        from: ctx.from,
+        to: ctx.to,
+        habits: ctx.habits,
+      },
+      null,
+      2
+    );
+    return `${meta.slice(0, -2)},\n  "logs": [\n`;
+  },
+
+  row(row, index) {
+    const json = JSON.stringify(row, null, 2).replace(/^/gm, "    ");
+    return (index > 0 ? ",\n" : "") + json;
+  },
+
+  footer() {
+    return "\n  ]\n}\n";
+  },
+};
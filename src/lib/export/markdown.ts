@@ -0,0 +1,64 @@
+// src/lib/export/markdown.ts
+import { formatHabitValue } from "@/lib/habits";
+import type { Exporter } from "./types";
+
+function section(title: string, lines: string[]) {
+  return lines.length ? `### ${title}\n\n${lines.join("\n")}\n\n` : "";
+}
+
+const bullets = (xs?: string[]) => (xs ?? []).map((s) => `- ${s}`);
+
+/** One `##` section per day: stats, panels, then the transcript as a quote */
+export const markdownExporter: Exporter = {
+  contentType: "text/markdown; charset=utf-8",
+  extension: "md",
+
+  header(ctx) {
+    const range =
+      ctx.from || ctx.to ? ` (${ctx.from ?? "…"} – ${ctx.to ?? "…"})` : "";
+    return `# Voice diary${range}\n\n_Exported ${ctx.exportedAt}_\n\n`;
+  },
+
+  row(row, _index, ctx) {
+    const x = row.extracted ?? {};
+    const stats = [
+      x.mood && `**Mood:** ${x.mood}`,
+      x.energy !== undefined && `**Energy:** ${x.energy}/10`,
+      x.focus !== undefined && `**Focus:** ${x.focus}/10`,
+      x.sleep_hours !== undefined && `**Sleep:** ${x.sleep_hours} h`,
+      x.work?.top_task_done && `**Top task:** ${x.work.top_task_done}`,
+    ].filter(Boolean);
+
+    const habits = ctx.habits
+      .filter((h) => x.habits?.[h.key] !== undefined)
+      .map((h) => `- ${h.name}: ${formatHabitValue(h, x.habits?.[h.key])}`);
+    const health = Object.entries(x.health ?? {})
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `- ${k.replace(/_/g, " ")}: ${v}`);
+
+    const transcript = row.transcript?.trim()
+      ? row.transcript
+          .trim()
+          .split("\n")
+          .map((l) => `> ${l}`)
+          .join("\n")
+      : "";
+
+    return (
+      `## ${row.log_date}\n\n` +
+      (stats.length ? `${stats.join(" · ")}\n\n` : "") +
+      section("Highlights", bullets(x.highlights)) +
+      section("Challenges", bullets(x.challenges)) +
+      section("Gratitude", bullets(x.gratitude)) +
+      section("Habits", habits) +
+      section("Health", health) +
+      section("Todos tomorrow", bullets(x.todos_tomorrow)) +
+      section("Notes", x.notes ? [x.notes] : []) +
+      section("Transcript", transcript ? [transcript] : [])
+    );
+  },
+
+  footer() {
+    return "";
+  },
+};
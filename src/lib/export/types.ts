@@ -0,0 +1,38 @@
+// src/lib/export/types.ts
+import type { Extracted } from "@/lib/extracted";
+import type { HabitDefinition } from "@/lib/habits";
+
+export const EXPORT_FORMATS = ["csv", "json", "md", "ics"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportRow = {
+  id: string;
+  log_date: string;
+  transcript: string | null;
+  extracted: Extracted | null;
+  schema_version: number | null;
+  created_at: string;
+  log_entries?: {
+    id: string;
+    recorded_at: string;
+    transcript: string | null;
+    extracted: Extracted | null;
+  }[];
+};
+
+export type ExportContext = {
+  from: string | null;
+  to: string | null;
+  habits: HabitDefinition[];
+  exportedAt: string;
+};
+
+/** Streams a file in three parts so rows can be written as they're fetched */
+export interface Exporter {
+  readonly contentType: string;
+  readonly extension: string;
+  header(ctx: ExportContext): string;
+  /** `index` is the row's position in the whole export */
+  row(row: ExportRow, index: number, ctx: ExportContext): string;
+  footer(ctx: ExportContext): string;
+}
@@ -0,0 +1,107 @@
+// src/lib/extract/index.ts
+import type { User } from "@supabase/supabase-js";
+import {
+  parseExtracted,
+  type Extracted,
+  type FieldErrors,
+} from "@/lib/extracted";
+import type { HabitDefinition } from "@/lib/habits";
+import { LATEST_SCHEMA_VERSION } from "@/lib/migrations";
+import { localExtractor } from "./openai-compatible";
+import { openaiExtractor } from "./openai";
+import { rulesExtractor } from "./rules";
+import type {
+  ExtractedJson,
+  ExtractionContext,
+  Extractor,
+  ExtractorName,
+} from "./types";
+
+export type {
+  ExtractedJson,
+  ExtractionContext,
+  Extractor,
+  ExtractorName,
+} from "./types";
+export { extractionSchemaFor } from "./schema";
+
+const extractors: Record<ExtractorName, Extractor> = {
+  openai: openaiExtractor,
+  local: localExtractor,
+  rules: rulesExtractor,
+};
+
+function isExtractorName(x: unknown): x is ExtractorName {
+  return typeof x === "string" && Object.hasOwn(extractors, x);
+}
+
+/**
+ * Extractor precedence: the user's `extractor` metadata, then the
+ * EXTRACTOR env var for the deployment, then OpenAI.
+ */
+export function getExtractor(user?: User | null): Extractor {
+  const fromUser = user?.user_metadata?.extractor;
+  if (isExtractorName(fromUser)) return extractors[fromUser];
+
+  const fromEnv = process.env.EXTRACTOR;
+  if (!fromEnv) return openaiExtractor;
+  if (!isExtractorName(fromEnv)) {
+    throw new Error(`Unknown EXTRACTOR: ${fromEnv}`);
+  }
+  return extractors[fromEnv];
+}
+
+export type ExtractionResult = {
+  extracted: Extracted;
+  extractor: ExtractorName;
+  /** Set when the configured extractor failed and the rules ran instead */
+  fallback_reason?: string;
+};
+
+export class InvalidExtractionError extends Error {
+  constructor(public readonly fields: FieldErrors) {
+    super(
+      "Extraction did not match schema: " +
+        Object.entries(fields)
+          .map(([k, v]) => `${k}: ${v}`)
+          .join("; ")
+    );
+    this.name = "InvalidExtractionError";
+  }
+}
+
+/** Validates and coerces raw extractor output against the shared schema */
+export function validateExtraction(
+  raw: ExtractedJson,
+  habits: HabitDefinition[]
+): Extracted {
+  const parsed = parseExtracted(raw, habits);
+  if (!parsed.ok) throw new InvalidExtractionError(parsed.errors);
+  // The server owns versioning; whatever the model echoed back is ignored
+  return { ...parsed.data, schema_version: LATEST_SCHEMA_VERSION };
+}
+
+/** Runs the chosen extractor; on failure falls back to the rule-based one so a day is never lost */
+export async function extractWithFallback(
+  transcript: string,
+  extractor: Extractor,
+  habits: HabitDefinition[],
+  context?: ExtractionContext
+): Promise<ExtractionResult> {
+  try {
+    const extracted = validateExtraction(
+      await extractor.extract(transcript, habits, context),
+      habits
+    );
+    return { extracted, extractor: extractor.name };
+  } catch (e) {
+    if (extractor.name === "rules") throw e;
+    const reason = e instanceof Error ? e.message : String(e);
+    console.warn(`[extract] ${extractor.name} failed, using rules:`, reason);
+    const extracted = validateExtraction(
+      await rulesExtractor.extract(transcript, habits, context),
+      habits
+    );
+    return { extracted, extractor: "rules", fallback_reason: reason };
+  }
+}
@@ -0,0 +1,69 @@
+// src/lib/extract/openai-compatible.ts
+import {
+  buildExtractionPrompt,
+  EXTRACTION_SYSTEM_PROMPT,
+  extractionSchemaFor,
+} from "./schema";
+import type { HabitDefinition } from "@/lib/habits";
+import type { ExtractedJson, ExtractionContext, Extractor } from "./types";
+
+type ChatCompletion = {
+  choices?: { message?: { content?: string | null } }[];
+};
+
+/**
+ * Any server that speaks the OpenAI Chat Completions protocol
+ * (Ollama, llama.cpp server, vLLM, LM Studio…).
+ * LOCAL_LLM_BASE_URL should include the /v1 prefix, e.g. http://localhost:11434/v1
+ */
+export const localExtractor: Extractor = {
+  name: "local",
+
+  async extract(
+    transcript: string,
+    habits: HabitDefinition[],
+    context?: ExtractionContext
+  ) {
+    const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+    if (!baseUrl) throw new Error("LOCAL_LLM_BASE_URL is not set");
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (process.env.LOCAL_LLM_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.LOCAL_LLM_API_KEY}`;
+    }
+
+    const res = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+        temperature: 0,
+        messages: [
+          { role: "system", content: EXTRACTION_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: buildExtractionPrompt(transcript, habits, context),
+          },
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "daily_log",
+            schema: extractionSchemaFor(habits),
+            strict: true,
+          },
+        },
+      }),
+    });
+
+    if (!res.ok) throw new Error(`Local LLM failed: ${await res.text()}`);
+    const j = (await res.json()) as ChatCompletion;
+
+    const content = j.choices?.[0]?.message?.content ?? "";
+    // Some local models wrap JSON in a ```json fence despite response_format
+    const jsonText = content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "");
+    return (jsonText ? JSON.parse(jsonText) : {}) as ExtractedJson;
+  },
+};
@@ -0,0 +1,61 @@
+// src/lib/extract/openai.ts
+import {
+  buildExtractionPrompt,
+  EXTRACTION_SYSTEM_PROMPT,
+  extractionSchemaFor,
+} from "./schema";
+import type { HabitDefinition } from "@/lib/habits";
+import type { ExtractedJson, ExtractionContext, Extractor } from "./types";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+type ResponsesOutput = {
+  output?: { content?: { type?: string; text?: string }[] }[];
+  output_text?: string;
+};
+
+/** OpenAI Responses API with the json_schema formatter */
+export const openaiExtractor: Extractor = {
+  name: "openai",
+
+  async extract(
+    transcript: string,
+    habits: HabitDefinition[],
+    context?: ExtractionContext
+  ) {
+    const res = await fetch("https://api.openai.com/v1/responses", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY!}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+        input: [
+          { role: "system", content: EXTRACTION_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: buildExtractionPrompt(transcript, habits, context),
+          },
+        ],
+        text: {
+          format: {
+            type: "json_schema",
+            name: "daily_log",
+            schema: extractionSchemaFor(habits),
+            strict: true,
+          },
+        },
+      }),
+    });
+
+    if (!res.ok) throw new Error(`OpenAI failed: ${await res.text()}`);
+    const j = (await res.json()) as ResponsesOutput;
+
+    const jsonText =
+      j.output?.[0]?.content?.find((c) => c?.type === "output_text")?.text ||
+      (typeof j.output_text === "string" ? j.output_text : "");
+
+    return (jsonText ? JSON.parse(jsonText) : {}) as ExtractedJson;
+  },
+};
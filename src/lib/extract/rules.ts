@@ -0,0 +1,340 @@
+// src/lib/extract/rules.ts
+import type { HabitDefinition } from "@/lib/habits";
+import { mentionsTask } from "@/lib/tasks";
+import type { ExtractedJson, ExtractionContext, Extractor } from "./types";
+
+/* ---------------- Number words ---------------- */
+
+const SMALL: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000 };
+
+const WORD = `(?:${[...Object.keys(SMALL), ...Object.keys(SCALES)].join("|")})`;
+const NUMBER_PHRASE = new RegExp(
+  `\\b${WORD}(?:(?:[\\s-]+|\\s+and\\s+)${WORD})*` +
+    `(?:\\s+point(?:\\s+${WORD})+)?(?:\\s+and\\s+a\\s+half)?\\b`,
+  "gi"
+);
+
+/** "seven and a half" → 7.5, "twenty-five" → 25, "six point five" → 6.5 */
+export function parseNumberWords(phrase: string): number | null {
+  const tokens = phrase
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .filter((t) => t && t !== "and");
+
+  let total = 0;
+  let current = 0;
+  let decimals = "";
+  let inDecimal = false;
+  let seen = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t === "a" && tokens[i + 1] === "half") {
+      current += 0.5;
+      i++;
+      seen = true;
+    } else if (t === "point") {
+      inDecimal = true;
+    } else if (t in SMALL) {
+      if (inDecimal) decimals += String(SMALL[t]);
+      else current += SMALL[t];
+      seen = true;
+    } else if (t in SCALES) {
+      if (SCALES[t] === 100) current = (current || 1) * 100;
+      else {
+        total += (current || 1) * SCALES[t];
+        current = 0;
+      }
+      seen = true;
+    } else {
+      return null;
+    }
+  }
+  if (!seen) return null;
+  const n = total + current;
+  return decimals ? n + Number(`0.${decimals}`) : n;
+}
+
+/** Rewrites spelled-out numbers and common idioms as digits */
+export function normalizeNumbers(text: string): string {
+  return text
+    .replace(/\ban hour and a half\b/gi, "1.5 hours")
+    .replace(/\bhalf an hour\b/gi, "0.5 hours")
+    .replace(/\ban hour\b/gi, "1 hour")
+    .replace(NUMBER_PHRASE, (m) => {
+      const n = parseNumberWords(m);
+      return n === null ? m : String(n);
+    })
+    .replace(/(\d+(?:\.\d+)?)\s+and\s+a\s+half\b/gi, (_m, d) =>
+      String(Number(d) + 0.5)
+    )
+    .replace(/(\d+(?:\.\d+)?)\s*k\b/gi, (_m, d) => String(Number(d) * 1000))
+    .replace(/(\d),(\d{3})\b/g, "$1$2");
+}
+
+/* ---------------- Field rules ---------------- */
+
+const NUM = String.raw`(\d+(?:\.\d+)?)`;
+const NEGATION =
+  /\b(?:no|not|didn'?t|did not|skipped|without|missed|never|wasn'?t)\b[^.!?]{0,20}$/i;
+
+function firstNumber(text: string, patterns: RegExp[]): number | undefined {
+  for (const re of patterns) {
+    const m = text.match(re);
+    if (m) return Number(m[1]);
+  }
+  return undefined;
+}
+
+function clampScale(n: number | undefined) {
+  if (n === undefined) return undefined;
+  return n >= 0 && n <= 10 ? n : undefined;
+}
+
+/** true if mentioned positively, false if negated, undefined if absent */
+function mentioned(text: string, re: RegExp): boolean | undefined {
+  const m = re.exec(text);
+  if (!m) return undefined;
+  const before = text.slice(Math.max(0, m.index - 40), m.index);
+  return !NEGATION.test(before);
+}
+
+function sentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function capture(text: string, re: RegExp) {
+  const out: string[] = [];
+  for (const m of text.matchAll(re)) {
+    const item = m[1]?.trim().replace(/[,;]+$/, "");
+    if (item && !out.includes(item)) out.push(item);
+  }
+  return out;
+}
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Loose pattern for a habit name: "Meditation" matches "meditated", "Cold showers" matches "cold shower" */
+function nameRe(name: string) {
+  const words = name.toLowerCase().split(/\s+/).filter(Boolean);
+  const last = words.pop() ?? "";
+  const stem = last.replace(/(?:ation|ing|ed|es|s)$/, "");
+  const tail = stem.length >= 4 ? stem : last;
+  return String.raw`\b${[...words, tail]
+    .map(escapeRe)
+    .join(String.raw`\s+`)}\w*`;
+}
+
+function durationMinutes(text: string, subject: string) {
+  const m = text.match(
+    new RegExp(
+      String.raw`${subject}[^.!?\d]{0,30}?${NUM}\s*(minutes?|mins?|hours?|hrs?)`,
+      "i"
+    )
+  );
+  if (!m) return undefined;
+  const n = Number(m[1]);
+  return /^h/i.test(m[2]) ? Math.round(n * 60) : n;
+}
+
+function countOf(text: string, def: HabitDefinition) {
+  const patterns = [
+    new RegExp(String.raw`${nameRe(def.name)}[^.!?\d]{0,20}?${NUM}`, "i"),
+  ];
+  if (def.unit) {
+    patterns.unshift(
+      new RegExp(String.raw`${NUM}\s*${escapeRe(def.unit)}\b`, "i")
+    );
+  }
+  return firstNumber(text, patterns);
+}
+
+function noSmoking(text: string): boolean | undefined {
+  if (/\b(?:no|zero)\s+(?:smoking|cigarettes?)\b/i.test(text)) return true;
+  if (/\b(?:didn'?t|did not|haven'?t|have not|never)\s+smoke/i.test(text))
+    return true;
+  if (/\bsmoke[d]?\b|\bcigarettes?\b/i.test(text)) return false;
+  return undefined;
+}
+
+type HabitRule = (
+  text: string,
+  def: HabitDefinition
+) => boolean | number | undefined;
+
+/** Hand-tuned phrasings for the default habits */
+const BUILTIN: Record<string, HabitRule> = {
+  yoga: (text) => mentioned(text, /\byoga\b/i),
+  workout: (text) =>
+    mentioned(
+      text,
+      /\b(?:work(?:ed)?\s*out|workout|gym|exercised?|went for a run|ran)\b/i
+    ),
+  no_smoking: (text) => noSmoking(text),
+  reading_minutes: (text) =>
+    durationMinutes(text, String.raw`\bread(?:ing)?\b`),
+};
+
+/** User-defined habits: match on the habit's name (and unit for counts) */
+const genericHabit: HabitRule = (text, def) => {
+  if (def.type === "boolean")
+    return mentioned(text, new RegExp(nameRe(def.name), "i"));
+  if (def.type === "duration") return durationMinutes(text, nameRe(def.name));
+  return countOf(text, def);
+};
+
+const DONE_CUE =
+  /\b(?:done|did|finished|finally|completed|sorted|fixed|sent|called|submitted|paid|booked|bought|cleaned|wrote|took care|ticked off|got\b[^.!?]{0,40}\bdone)\b/i;
+
+const NOT_DONE =
+  /\b(?:not|never|didn't|did not|haven't|have not|hasn't|couldn't|could not|wasn't|yet to|still need)\b/i;
+
+/** Open tasks named in a sentence that also says something was done */
+function doneTasks(parts: string[], openTasks: string[]) {
+  const said = parts.filter(
+    (s) => DONE_CUE.test(s) && !NOT_DONE.test(s) && !/\btomorrow\b/i.test(s)
+  );
+  return openTasks.filter((t) => said.some((s) => mentionsTask(t, s)));
+}
+
+function extractRules(
+  raw: string,
+  defs: HabitDefinition[],
+  context: ExtractionContext = {}
+): ExtractedJson {
+  const text = normalizeNumbers(raw);
+  // Free-text fields keep the speaker's own wording
+  const parts = sentences(raw);
+
+  const sleep_hours = firstNumber(text, [
+    new RegExp(
+      String.raw`\bslept\b[^.!?\d]{0,30}?${NUM}\s*(?:hours?|hrs?)`,
+      "i"
+    ),
+    new RegExp(String.raw`${NUM}\s*(?:hours?|hrs?)\s+(?:of\s+)?sleep`, "i"),
+    new RegExp(
+      String.raw`\bsleep\b[^.!?\d]{0,30}?${NUM}\s*(?:hours?|hrs?)`,
+      "i"
+    ),
+  ]);
+  const energy = clampScale(
+    firstNumber(text, [
+      new RegExp(String.raw`\benergy\b[^.!?\d]{0,30}?${NUM}`, "i"),
+    ])
+  );
+  const focus = clampScale(
+    firstNumber(text, [
+      new RegExp(String.raw`\bfocus(?:ed)?\b[^.!?\d]{0,30}?${NUM}`, "i"),
+    ])
+  );
+  const mood = text
+    .match(
+      /\b(?:mood\s+(?:was|is|:)?|feeling|felt)\s+(?:pretty\s+|quite\s+|really\s+|very\s+)?([a-z]+)/i
+    )?.[1]
+    ?.toLowerCase();
+
+  const habits: Record<string, boolean | number> = {};
+  for (const def of defs) {
+    const value = (BUILTIN[def.key] ?? genericHabit)(text, def);
+    if (value !== undefined) habits[def.key] = value;
+    else if (def.type === "boolean") habits[def.key] = false;
+  }
+
+  const health: Record<string, number> = {};
+  const steps = firstNumber(text, [
+    new RegExp(String.raw`${NUM}\s*steps`, "i"),
+  ]);
+  const water = firstNumber(text, [
+    new RegExp(String.raw`${NUM}\s*(?:glasses|cups|bottles)\s+of\s+water`, "i"),
+    new RegExp(String.raw`${NUM}\s*glass(?:es)?\b`, "i"),
+  ]);
+  const calories = firstNumber(text, [
+    new RegExp(String.raw`${NUM}\s*(?:calories|kcal|cal)\b`, "i"),
+  ]);
+  if (steps !== undefined) health.steps = steps;
+  if (water !== undefined) health.water_glasses = water;
+  if (calories !== undefined) health.calories = calories;
+
+  const highlights = parts.filter((s) =>
+    /\b(?:win|highlight|proud|managed to|finally|best part|went well)\b/i.test(
+      s
+    )
+  );
+  const challenges = parts.filter((s) =>
+    /\b(?:challeng\w*|struggl\w*|hard|difficult|stress\w*|frustrat\w*|tough|anxious)\b/i.test(
+      s
+    )
+  );
+  const gratitude = capture(
+    raw,
+    /\b(?:grateful|thankful)\s+(?:for|that)\s+([^.!?]+)/gi
+  );
+  const todos_tomorrow = capture(
+    raw,
+    /\btomorrow,?\s+(?:i\s+)?(?:want|need|have|will|'ll|plan|should)\s+(?:to\s+)?([^.!?]+)/gi
+  );
+
+  const out: ExtractedJson = {
+    highlights,
+    challenges,
+    gratitude,
+    habits,
+    todos_tomorrow,
+    tasks_done: doneTasks(parts, context.openTasks ?? []),
+    notes: parts.slice(0, 2).join(" "),
+  };
+  if (Object.keys(health).length) out.health = health;
+  if (sleep_hours !== undefined) out.sleep_hours = sleep_hours;
+  if (energy !== undefined) out.energy = energy;
+  if (focus !== undefined) out.focus = focus;
+  if (mood) out.mood = mood;
+  return out;
+}
+
+/** Offline, regex-based extractor. Also the fallback when an LLM call fails. */
+export const rulesExtractor: Extractor = {
+  name: "rules",
+
+  async extract(
+    transcript: string,
+    habits: HabitDefinition[],
+    context?: ExtractionContext
+  ) {
+    return extractRules(transcript, habits, context);
+  },
+};
@@ -0,0 +1,47 @@
+// src/lib/extract/schema.ts
+import { extractionJsonSchemaFor } from "@/lib/extracted";
+import { unitLabel, type HabitDefinition } from "@/lib/habits";
+import type { ExtractionContext } from "./types";
+
+/** Strict JSON schema generated from the shared zod schema and the user's habits */
+export const extractionSchemaFor = extractionJsonSchemaFor;
+
+export const EXTRACTION_SYSTEM_PROMPT =
+  "You extract structured daily journal data. Return ONLY JSON that conforms to the provided JSON schema.";
+
+function describeHabit(def: HabitDefinition) {
+  if (def.type === "boolean")
+    return `- habits.${def.key}: ${def.name} (true/false)`;
+  if (def.type === "duration")
+    return `- habits.${def.key}: ${def.name} (duration in ${unitLabel(def)})`;
+  return `- habits.${def.key}: ${def.name} (number${
+    def.unit ? ` of ${def.unit}` : ""
+  })`;
+}
+
+export function buildExtractionPrompt(
+  transcript: string,
+  habits: HabitDefinition[],
+  context: ExtractionContext = {}
+) {
+  const openTasks = context.openTasks ?? [];
+  return (
+    `Schema: ${JSON.stringify(extractionSchemaFor(habits))}\n\n` +
+    "Habits this person tracks:\n" +
+    habits.map(describeHabit).join("\n") +
+    "\n\n" +
+    (openTasks.length
+      ? "Open tasks from earlier days:\n" +
+        openTasks.map((t) => `- ${t}`).join("\n") +
+        "\n\n"
+      : "") +
+    "Rules:\n" +
+    "- Infer numbers from phrases (e.g., 'about seven and a half hours' → 7.5)\n" +
+    "- Use null for anything not mentioned; never guess 0 or an empty string\n" +
+    "- Durations are in minutes unless the habit says otherwise ('half an hour' → 30)\n" +
+    "- mood: single lowercase word when possible\n" +
+    "- notes: 1–3 short sentences\n" +
+    "- tasks_done: only titles from the open tasks above that the transcript says were done\n\n" +
+    `Transcript:\n${transcript}`
+  );
+}
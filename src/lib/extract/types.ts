@@ -0,0 +1,23 @@
+// src/lib/extract/types.ts
+import type { HabitDefinition } from "@/lib/habits";
+
+export type ExtractorName = "openai" | "local" | "rules";
+
+/** Raw extraction payload, shaped by `extractionSchemaFor(habits)` */
+export type ExtractedJson = Record<string, unknown>;
+
+/** What else the extractor should know about the day being logged */
+export type ExtractionContext = {
+  /** Titles of tasks still open from earlier days, for `tasks_done` */
+  openTasks?: string[];
+};
+
+/** Turns a transcript into the structured daily-log JSON for the user's habits */
+export interface Extractor {
+  readonly name: ExtractorName;
+  extract(
+    transcript: string,
+    habits: HabitDefinition[],
+    context?: ExtractionContext
+  ): Promise<ExtractedJson>;
+}
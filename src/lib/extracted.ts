@@ -0,0 +1,187 @@
+// src/lib/extracted.ts
+import { z } from "zod";
+import { unitLabel, type HabitDefinition } from "@/lib/habits";
+
+/**
+ * Single source of truth for the daily-log `extracted` payload.
+ * - `Extracted`            → the TypeScript type used by pages and routes
+ * - `extractionJsonSchemaFor()` → the strict JSON schema sent to the LLM
+ * - `parseExtracted()`     → runtime validation + coercion with field errors
+ * The `habits` object follows the user's habit definitions (see lib/habits).
+ */
+
+/** "7.5" → 7.5, null → undefined; anything else is left for zod to judge */
+function toNumber(v: unknown) {
+  if (v === null || v === "") return undefined;
+  if (typeof v === "string" && v.trim() !== "") return Number(v);
+  return v;
+}
+
+/** "true"/"yes" → true, "false"/"no" → false, null → undefined */
+function toBoolean(v: unknown) {
+  if (v === null) return undefined;
+  if (typeof v === "string") {
+    const s = v.trim().toLowerCase();
+    if (["true", "yes", "1"].includes(s)) return true;
+    if (["false", "no", "0", ""].includes(s)) return false;
+  }
+  return v;
+}
+
+const num = (min = 0, max?: number) =>
+  z.preprocess(
+    toNumber,
+    (max === undefined
+      ? z.number().min(min)
+      : z.number().min(min).max(max)
+    ).optional()
+  );
+const bool = () => z.preprocess(toBoolean, z.boolean().optional());
+const text = () =>
+  z.preprocess((v) => (v === null ? undefined : v), z.string().optional());
+const textList = () => z.array(z.string()).optional();
+
+/** Free-form habit values keyed by habit key; used when definitions aren't known */
+const habitRecord = z.preprocess(
+  (v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).filter(([, x]) => x !== null && x !== undefined)
+        )
+      : v,
+  z.record(
+    z.string(),
+    z.preprocess(
+      (x) => (typeof x === "string" ? toBoolean(x) ?? toNumber(x) : x),
+      z.union([z.boolean(), z.number().min(0)])
+    )
+  )
+);
+
+/** Typed habits object generated from the user's definitions */
+function habitsObject(defs: HabitDefinition[]) {
+  return z.object(
+    Object.fromEntries(
+      defs.map((d) => [
+        d.key,
+        (d.type === "boolean" ? bool() : num()).describe(
+          d.type === "boolean"
+            ? d.name
+            : `${d.name} (${unitLabel(d) || "count"})`
+        ),
+      ])
+    )
+  );
+}
+
+function fields<H extends z.ZodType>(habits: H) {
+  return {
+    schema_version: num(1),
+    sleep_hours: num(0, 24),
+    mood: text(),
+    energy: num(0, 10),
+    focus: num(0, 10),
+    highlights: textList(),
+    challenges: textList(),
+    gratitude: textList(),
+    habits: habits.optional(),
+    work: z
+      .object({
+        top_task_done: text(),
+        time_blocks: z
+          .array(z.object({ label: z.string(), minutes: num() }))
+          .optional(),
+      })
+      .optional(),
+    health: z
+      .object({
+        steps: num(),
+        water_glasses: num(),
+        calories: num(),
+      })
+      .optional(),
+    notes: text(),
+    todos_tomorrow: textList(),
+    tasks_done: textList().describe(
+      "Open tasks from earlier days that the transcript says are now done, copied exactly"
+    ),
+  };
+}
+
+export const extractedSchema = z.object(fields(habitRecord));
+
+/** Same shape, but `habits` only accepts (and the LLM only sees) the user's own habits */
+export function extractedSchemaFor(defs: HabitDefinition[]) {
+  return z.object(fields(habitsObject(defs)));
+}
+
+export type Extracted = z.output<typeof extractedSchema>;
+
+/** Dotted path → first message, e.g. { "habits.reading_minutes": "Too small: expected number to be >=0" } */
+export type FieldErrors = Record<string, string>;
+
+export type ParseResult =
+  | { ok: true; data: Extracted }
+  | { ok: false; errors: FieldErrors };
+
+/** Validates against the user's habits when `defs` is given, else any habit keys */
+export function parseExtracted(
+  input: unknown,
+  defs?: HabitDefinition[]
+): ParseResult {
+  const schema = defs ? extractedSchemaFor(defs) : extractedSchema;
+  const r = schema.safeParse(input ?? {});
+  if (r.success) return { ok: true, data: r.data as Extracted };
+
+  const errors: FieldErrors = {};
+  for (const issue of r.error.issues) {
+    const key = issue.path.join(".") || "(root)";
+    errors[key] ??= issue.message;
+  }
+  return { ok: false, errors };
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  additionalProperties?: boolean;
+  [k: string]: unknown;
+};
+
+const SCALARS = ["string", "number", "boolean"];
+
+/**
+ * Strict mode requires every object to list all of its properties as required.
+ * Optional scalars become nullable so the model can say "not mentioned"
+ * (null) instead of inventing 0 or "" — parseExtracted drops the nulls.
+ */
+function requireAll(node: JsonSchema, optional = false): JsonSchema {
+  const out: JsonSchema = { ...node };
+  if (optional && typeof out.type === "string" && SCALARS.includes(out.type)) {
+    out.type = [out.type, "null"];
+  }
+  if (out.properties) {
+    const required = new Set(node.required ?? []);
+    out.properties = Object.fromEntries(
+      Object.entries(out.properties).map(([k, v]) => [
+        k,
+        requireAll(v, !required.has(k)),
+      ])
+    );
+    out.required = Object.keys(out.properties);
+    out.additionalProperties = false;
+  }
+  if (out.items) out.items = requireAll(out.items);
+  return out;
+}
+
+/** JSON schema for the LLM's json_schema response format (strict: true) */
+export function extractionJsonSchemaFor(defs: HabitDefinition[]) {
+  const generated = z.toJSONSchema(extractedSchemaFor(defs), {
+    io: "output",
+  }) as JsonSchema;
+  delete generated.$schema;
+  return requireAll(generated);
+}
@@ -0,0 +1,173 @@
+// src/lib/goals.ts
+import { z } from "zod";
+import type { Extracted, FieldErrors } from "@/lib/extracted";
+import type { HabitDefinition } from "@/lib/habits";
+import { addDays, daysBetween } from "@/lib/dates";
+import { metricsFor, type DayRow, type Metric } from "@/lib/metrics";
+import { weekStart } from "@/lib/streaks";
+
+/**
+ * Targets against any dashboard metric (`src/lib/metrics.ts`), stored in
+ * `goals` with the dates they apply from and (optionally) until.
+ * - `per_week` null → every logged day should hit (sleep_hours >= 7)
+ * - `per_week` n    → hit on at least n days a week (habits.workout, 4)
+ * Yes/no habits are hit when done; `op` and `target` are ignored for them.
+ */
+export const GOAL_OPS = [">=", "<="] as const;
+export type GoalOp = (typeof GOAL_OPS)[number];
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-mm-dd");
+
+export const goalInputSchema = z
+  .object({
+    metric: z.string().min(1, "Pick a metric"),
+    op: z.enum(GOAL_OPS).default(">="),
+    target: z.number().min(0).default(1),
+    per_week: z.number().int().min(1).max(7).nullable().default(null),
+    start_date: isoDate,
+    end_date: isoDate.nullable().default(null),
+  })
+  .refine((g) => !g.end_date || g.end_date >= g.start_date, {
+    message: "The end date must not be before the start date",
+    path: ["end_date"],
+  });
+
+export type GoalInput = z.output<typeof goalInputSchema>;
+
+/** Validates a new goal; the metric must be one of the user's */
+export function parseGoal(
+  input: unknown,
+  habits: HabitDefinition[]
+): { ok: true; data: GoalInput } | { ok: false; errors: FieldErrors } {
+  const r = goalInputSchema.safeParse(input ?? {});
+  const errors: FieldErrors = {};
+  if (!r.success) {
+    for (const issue of r.error.issues) {
+      errors[issue.path.join(".") || "(root)"] ??= issue.message;
+    }
+    return { ok: false, errors };
+  }
+  if (!metricsFor(habits).some((m) => m.key === r.data.metric)) {
+    return { ok: false, errors: { metric: `Unknown metric ${r.data.metric}` } };
+  }
+  return { ok: true, data: r.data };
+}
+
+export type Goal = GoalInput & {
+  id: string;
+  user_id: string;
+  created_at: string;
+};
+
+export function isActive(goal: Goal, date: string) {
+  return date >= goal.start_date && (!goal.end_date || date <= goal.end_date);
+}
+
+/** Hit or missed that day; undefined when the metric wasn't logged */
+export function goalHit(goal: Goal, metric: Metric, x: Extracted) {
+  const v = metric.value(x);
+  if (v === undefined) return undefined;
+  if (metric.boolean) return v > 0;
+  return goal.op === ">=" ? v >= goal.target : v <= goal.target;
+}
+
+/** "🛌 Sleep ≥ 7 hrs", "✅ Workout on 4 days a week" */
+export function describeGoal(goal: Goal, metric?: Metric) {
+  const label = metric?.label ?? goal.metric;
+  const unit = metric?.unit && !metric.boolean ? ` ${metric.unit}` : "";
+  const rule = metric?.boolean
+    ? label
+    : `${label} ${goal.op === ">=" ? "≥" : "≤"} ${goal.target}${unit}`;
+  return goal.per_week
+    ? `${rule} on ${goal.per_week} day${goal.per_week === 1 ? "" : "s"} a week`
+    : rule;
+}
+
+export type WeekAdherence = {
+  /** Monday */
+  week: string;
+  hits: number;
+  logged: number;
+  needed: number;
+  /** null while the week can still go either way */
+  met: boolean | null;
+};
+
+export type GoalAdherence = {
+  goal: Goal;
+  metric?: Metric;
+  hits: number;
+  misses: number;
+  /** Hits over logged days, 0–100; null with nothing logged */
+  rate: number | null;
+  weeks: WeekAdherence[];
+};
+
+/**
+ * Adherence of each goal over `from`–`to`. Weeks are whole Monday–Sunday
+ * weeks touching the range, so `rows` should start at `weekStart(from)`.
+ */
+export function adherence(
+  goals: Goal[],
+  rows: DayRow[],
+  habits: HabitDefinition[],
+  from: string,
+  to: string,
+  today: string
+): GoalAdherence[] {
+  const metrics = new Map(metricsFor(habits).map((m) => [m.key, m]));
+  const byDate = new Map(rows.map((r) => [r.log_date, r.extracted]));
+  const hitOn = (goal: Goal, metric: Metric | undefined, date: string) => {
+    const x = byDate.get(date);
+    return metric && x && isActive(goal, date)
+      ? goalHit(goal, metric, x)
+      : undefined;
+  };
+
+  return goals
+    .filter((g) => g.start_date <= to && (!g.end_date || g.end_date >= from))
+    .map((goal) => {
+      const metric = metrics.get(goal.metric);
+
+      let hits = 0;
+      let misses = 0;
+      for (let i = 0; i <= daysBetween(from, to); i++) {
+        const hit = hitOn(goal, metric, addDays(from, i));
+        if (hit === true) hits++;
+        if (hit === false) misses++;
+      }
+
+      const weeks: WeekAdherence[] = [];
+      for (let w = weekStart(from); w <= to; w = addDays(w, 7)) {
+        const days = Array.from({ length: 7 }, (_, i) => addDays(w, i));
+        const active = days.filter((d) => isActive(goal, d));
+        if (!active.length) continue;
+        const results = active.map((d) => hitOn(goal, metric, d));
+        const weekHits = results.filter((r) => r === true).length;
+        const logged = results.filter((r) => r !== undefined).length;
+        const left = active.filter((d) => d > today).length;
+
+        let needed: number;
+        let met: boolean | null;
+        if (goal.per_week) {
+          needed = Math.min(goal.per_week, active.length);
+          met =
+            weekHits >= needed ? true : weekHits + left < needed ? false : null;
+        } else {
+          // Every logged day counts; one miss decides the week
+          needed = logged;
+          met = weekHits < logged ? false : !left && logged ? true : null;
+        }
+        weeks.push({ week: w, hits: weekHits, logged, needed, met });
+      }
+
+      return {
+        goal,
+        metric,
+        hits,
+        misses,
+        rate: hits + misses ? Math.round((hits / (hits + misses)) * 100) : null,
+        weeks,
+      };
+    });
+}
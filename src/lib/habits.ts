@@ -0,0 +1,68 @@
+// src/lib/habits.ts
+import type { User } from "@supabase/supabase-js";
+import { z } from "zod";
+
+/**
+ * Per-user habit and metric definitions, stored in Supabase user metadata
+ * under `habits`. Values land in `extracted.habits[key]`.
+ * - boolean  → did it / didn't (yoga, no smoking)
+ * - number   → a count in `unit` (caffeine cups)
+ * - duration → minutes (reading)
+ */
+export const HABIT_TYPES = ["boolean", "number", "duration"] as const;
+export type HabitType = (typeof HABIT_TYPES)[number];
+
+export const habitDefinitionSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and _"),
+  name: z.string().trim().min(1, "Name is required"),
+  type: z.enum(HABIT_TYPES),
+  unit: z.string().trim().optional(),
+});
+
+export type HabitDefinition = z.output<typeof habitDefinitionSchema>;
+
+export const habitDefinitionsSchema = z
+  .array(habitDefinitionSchema)
+  .max(30, "At most 30 habits")
+  .refine(
+    (defs) => new Set(defs.map((d) => d.key)).size === defs.length,
+    "Habit keys must be unique"
+  );
+
+/** The set every account started with, so older logs keep rendering */
+export const DEFAULT_HABITS: HabitDefinition[] = [
+  { key: "yoga", name: "Yoga", type: "boolean" },
+  { key: "workout", name: "Workout", type: "boolean" },
+  { key: "reading_minutes", name: "Reading", type: "duration", unit: "min" },
+  { key: "no_smoking", name: "No smoking", type: "boolean" },
+];
+
+/** "Caffeine cups" → "caffeine_cups" */
+export function habitKey(name: string) {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(slug) ? slug : `h_${slug}`;
+}
+
+/** The user's definitions, or the defaults when none (or garbage) are stored */
+export function habitsFor(user?: Pick<User, "user_metadata"> | null) {
+  const parsed = habitDefinitionsSchema.safeParse(user?.user_metadata?.habits);
+  return parsed.success && parsed.data.length ? parsed.data : DEFAULT_HABITS;
+}
+
+export function unitLabel(def: HabitDefinition) {
+  if (def.type === "duration") return def.unit || "min";
+  return def.unit ?? "";
+}
+
+/** Human-readable value for views: ✔/—, "20 min", "3 cups" */
+export function formatHabitValue(def: HabitDefinition, value: unknown) {
+  if (def.type === "boolean") return value ? "✔" : "—";
+  if (typeof value !== "number" || Number.isNaN(value)) return "—";
+  const unit = unitLabel(def);
+  return unit ? `${value} ${unit}` : String(value);
+}
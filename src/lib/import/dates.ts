@@ -0,0 +1,17 @@
+// src/lib/import/dates.ts
+
+/** "2021-03-07 evening.md", "20210307.m4a", "notes/2021_03_07.txt" → "2021-03-07" */
+export function dateFromName(name: string): string | null {
+  const base = name.split("/").pop() ?? name;
+  const m = /(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})/.exec(base);
+  if (!m) return null;
+  const [, y, mo, d] = m.map(Number);
+  const date = new Date(Date.UTC(y, mo - 1, d));
+  if (date.getUTCMonth() !== mo - 1 || date.getUTCDate() !== d) return null;
+  return `${m[1]}-${m[2]}-${m[3]}`;
+}
+
+/** Items without a time of day sort into the day's timeline at noon UTC */
+export function noonOf(logDate: string) {
+  return `${logDate}T12:00:00.000Z`;
+}
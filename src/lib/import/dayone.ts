@@ -0,0 +1,53 @@
+// src/lib/import/dayone.ts
+import { isValidTimeZone, todayIn } from "@/lib/dates";
+import type { ImportItem } from "./types";
+
+type DayOneEntry = {
+  uuid?: string;
+  creationDate?: string;
+  timeZone?: string;
+  text?: string;
+};
+
+/** Photos, audio and other attachments are references we can't follow */
+function cleanText(text: string) {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, "")
+    .replace(/\\([.!\-#*_()[\]])/g, "$1")
+    .trim();
+}
+
+/** `Journal.json` from a Day One export: `{ entries: [{ creationDate, timeZone, text }] }` */
+export function parseDayOne(
+  name: string,
+  json: string,
+  fallbackTz: string
+): { items: ImportItem[]; problems: { source: string; error: string }[] } {
+  const data = JSON.parse(json) as { entries?: DayOneEntry[] };
+  if (!Array.isArray(data.entries)) {
+    throw new Error("Not a Day One export (no entries array)");
+  }
+
+  const items: ImportItem[] = [];
+  const problems: { source: string; error: string }[] = [];
+  data.entries.forEach((e, i) => {
+    const source = `${name}#${e.uuid ?? i + 1}`;
+    const when = e.creationDate ? new Date(e.creationDate) : null;
+    const text = cleanText(e.text ?? "");
+    if (!when || Number.isNaN(when.getTime())) {
+      problems.push({ source, error: "Entry has no creationDate" });
+    } else if (!text) {
+      problems.push({ source, error: "Entry has no text" });
+    } else {
+      const tz = isValidTimeZone(e.timeZone) ? e.timeZone : fallbackTz;
+      items.push({
+        source,
+        kind: "dayone",
+        log_date: todayIn(tz, when),
+        recorded_at: when.toISOString(),
+        text,
+      });
+    }
+  });
+  return { items, problems };
+}
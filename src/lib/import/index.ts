@@ -0,0 +1,119 @@
+// src/lib/import/index.ts
+import path from "node:path";
+import { parseDayOne } from "./dayone";
+import { dateFromName, noonOf } from "./dates";
+import { parseMarkdown } from "./markdown";
+import { unzip } from "./zip";
+import type { ImportFile, ImportItem } from "./types";
+
+export { CONFLICT_MODES, MAX_IMPORT_BYTES } from "./types";
+export type {
+  ConflictMode,
+  ImportAction,
+  ImportFile,
+  ImportItem,
+  ImportKind,
+  ItemResult,
+} from "./types";
+export { planImport, runImport } from "./run";
+
+const AUDIO_TYPES: Record<string, string> = {
+  ".webm": "audio/webm",
+  ".ogg": "audio/ogg",
+  ".oga": "audio/ogg",
+  ".m4a": "audio/mp4",
+  ".mp4": "audio/mp4",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".flac": "audio/flac",
+};
+
+const TEXT_EXTENSIONS = new Set([".md", ".markdown", ".txt"]);
+
+type Parsed = {
+  items: ImportItem[];
+  problems: { source: string; error: string }[];
+};
+
+function parseFile(file: ImportFile, tz: string): Parsed {
+  const ext = path.extname(file.name).toLowerCase();
+  const decode = () => new TextDecoder().decode(file.bytes);
+
+  if (ext === ".zip") {
+    const out: Parsed = { items: [], problems: [] };
+    for (const entry of unzip(file.bytes)) {
+      // Each unzip has its own budget; nesting would multiply it
+      if (entry.name.toLowerCase().endsWith(".zip")) {
+        out.problems.push({
+          source: `${file.name}/${entry.name}`,
+          error: "Zips inside zips aren't supported",
+        });
+        continue;
+      }
+      const inner = parseFiles(
+        [
+          {
+            name: `${file.name}/${entry.name}`,
+            bytes: entry.bytes,
+            contentType: "",
+          },
+        ],
+        tz
+      );
+      out.items.push(...inner.items);
+      // Zips carry photos and metadata next to the journal; only report what looked importable
+      out.problems.push(
+        ...inner.problems.filter((p) => !p.error.startsWith("Unsupported"))
+      );
+    }
+    return out;
+  }
+  if (ext === ".json") return parseDayOne(file.name, decode(), tz);
+  if (TEXT_EXTENSIONS.has(ext)) {
+    return { items: [parseMarkdown(file.name, decode())], problems: [] };
+  }
+
+  const contentType = file.contentType.startsWith("audio/")
+    ? file.contentType
+    : AUDIO_TYPES[ext];
+  if (contentType) {
+    const date = dateFromName(file.name);
+    if (!date) throw new Error("No date in the file name");
+    return {
+      items: [
+        {
+          source: file.name,
+          kind: "audio",
+          log_date: date,
+          recorded_at: noonOf(date),
+          audio: { bytes: file.bytes, contentType },
+        },
+      ],
+      problems: [],
+    };
+  }
+  throw new Error(`Unsupported file type: ${ext || file.name}`);
+}
+
+/**
+ * Turns uploads into dated items, oldest first. Files that can't be read
+ * are reported as problems rather than failing the whole import.
+ * `tz` dates Day One entries that don't carry their own zone.
+ */
+export function parseFiles(files: ImportFile[], tz: string): Parsed {
+  const out: Parsed = { items: [], problems: [] };
+  for (const file of files) {
+    try {
+      const parsed = parseFile(file, tz);
+      out.items.push(...parsed.items);
+      out.problems.push(...parsed.problems);
+    } catch (e) {
+      out.problems.push({
+        source: file.name,
+        error: e instanceof Error ? e.message : "Could not read file",
+      });
+    }
+  }
+  out.items.sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+  return out;
+}
@@ -0,0 +1,27 @@
+// src/lib/import/markdown.ts
+import { dateFromName, noonOf } from "./dates";
+import type { ImportItem } from "./types";
+
+/** A `date:` in YAML front matter wins over the file name */
+export function parseMarkdown(name: string, text: string): ImportItem {
+  let body = text.replace(/^\uFEFF/, "");
+  let date: string | null = null;
+
+  const front = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(body);
+  if (front) {
+    date = dateFromName(/^date:\s*(.+)$/m.exec(front[1])?.[1] ?? "");
+    body = body.slice(front[0].length);
+  }
+  date ??= dateFromName(name);
+  if (!date) throw new Error("No date in the file name or front matter");
+
+  body = body.trim();
+  if (!body) throw new Error("File is empty");
+  return {
+    source: name,
+    kind: "markdown",
+    log_date: date,
+    recorded_at: noonOf(date),
+    text: body,
+  };
+}
@@ -0,0 +1,189 @@
+// src/lib/import/run.ts
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { replaceDay, saveEntry, type NewEntry } from "@/lib/daily-logs";
+import { extractWithFallback, getExtractor } from "@/lib/extract";
+import { habitsFor } from "@/lib/habits";
+import { extractionContextFor } from "@/lib/tasks";
+import { getSttProvider } from "@/lib/stt";
+import {
+  AUDIO_URL_TTL_SECONDS,
+  audioPath,
+  getAudioStorage,
+} from "@/lib/storage";
+import type {
+  ConflictMode,
+  ImportAction,
+  ImportItem,
+  ItemResult,
+} from "./types";
+
+const PREVIEW_CHARS = 140;
+
+/** Days in `dates` that already have a log, by date → id */
+async function existingDays(
+  supabase: SupabaseClient,
+  userId: string,
+  dates: string[]
+) {
+  const existing = new Map<string, string>();
+  const unique = [...new Set(dates)];
+  // Keep the `in (...)` list well under URL length limits
+  for (let i = 0; i < unique.length; i += 200) {
+    const { data, error } = await supabase
+      .from("daily_logs")
+      .select("id, log_date")
+      .eq("user_id", userId)
+      .in("log_date", unique.slice(i, i + 200));
+    if (error) throw error;
+    for (const d of data ?? []) existing.set(d.log_date, d.id);
+  }
+  return existing;
+}
+
+function actionFor(
+  item: ImportItem,
+  existing: Map<string, string>,
+  conflict: ConflictMode
+): ImportAction {
+  if (!existing.has(item.log_date)) return "create";
+  return conflict;
+}
+
+function preview(item: ImportItem) {
+  if (!item.text) return undefined;
+  const t = item.text.replace(/\s+/g, " ");
+  return t.length > PREVIEW_CHARS ? `${t.slice(0, PREVIEW_CHARS)}…` : t;
+}
+
+/** Dry run: what each item would do, without transcribing or writing anything */
+export async function planImport(
+  supabase: SupabaseClient,
+  userId: string,
+  items: ImportItem[],
+  conflict: ConflictMode
+): Promise<ItemResult[]> {
+  const existing = await existingDays(
+    supabase,
+    userId,
+    items.map((i) => i.log_date)
+  );
+  return items.map((item) => ({
+    source: item.source,
+    kind: item.kind,
+    log_date: item.log_date,
+    action: actionFor(item, existing, conflict),
+    done: false,
+    preview: preview(item),
+  }));
+}
+
+/** Stores the audio, transcribes and extracts; nothing is written to the day yet */
+async function prepareItem(
+  supabase: SupabaseClient,
+  user: User,
+  item: ImportItem
+): Promise<NewEntry> {
+  let transcript = item.text ?? "";
+  let sttProvider: string | null = null;
+  let stored: { path: string; url: string } | null = null;
+
+  if (item.audio) {
+    const { bytes, contentType } = item.audio;
+    const storage = getAudioStorage(supabase);
+    const path = audioPath(user.id, item.log_date, contentType);
+    await storage.put(path, bytes, contentType);
+    stored = {
+      path,
+      url: await storage.signedUrl(path, AUDIO_URL_TTL_SECONDS),
+    };
+    try {
+      const stt = getSttProvider(user);
+      transcript = await stt.transcribe({ bytes, contentType });
+      sttProvider = stt.name;
+    } catch (e) {
+      await storage.remove([path]).catch(() => {});
+      throw e;
+    }
+  }
+
+  const { extracted, extractor } = await extractWithFallback(
+    transcript,
+    getExtractor(user),
+    habitsFor(user),
+    await extractionContextFor(supabase, user.id, item.log_date)
+  );
+  return {
+    userId: user.id,
+    logDate: item.log_date,
+    transcript,
+    extracted,
+    sttProvider,
+    extractor,
+    recordedAt: item.recorded_at,
+    audioPath: stored?.path,
+    audioUrl: stored?.url,
+  };
+}
+
+/**
+ * Imports items one at a time (entries of a day merge in order), yielding a
+ * result per item. Days that had a log before the import are skipped,
+ * merged into, or replaced, depending on `conflict`. A replaced day keeps
+ * its old entries until the first imported one is ready to take over.
+ */
+export async function* runImport(
+  supabase: SupabaseClient,
+  user: User,
+  items: ImportItem[],
+  conflict: ConflictMode
+): AsyncGenerator<ItemResult> {
+  const existing = await existingDays(
+    supabase,
+    user.id,
+    items.map((i) => i.log_date)
+  );
+  const replaced = new Set<string>();
+
+  for (const item of items) {
+    const action = actionFor(item, existing, conflict);
+    const base = {
+      source: item.source,
+      kind: item.kind,
+      log_date: item.log_date,
+      action,
+    };
+    if (action === "skip") {
+      yield { ...base, done: false };
+      continue;
+    }
+    let entry: NewEntry | null = null;
+    try {
+      entry = await prepareItem(supabase, user, item);
+      // The old day goes only once its first replacement entry is ready
+      if (action === "replace" && !replaced.has(item.log_date)) {
+        await replaceDay(supabase, existing.get(item.log_date)!, entry);
+        replaced.add(item.log_date);
+      } else {
+        await saveEntry(supabase, entry);
+      }
+      yield {
+        ...base,
+        done: true,
+        preview: preview({ ...item, text: entry.transcript }),
+      };
+    } catch (e) {
+      // Audio stored for an entry that wasn't saved
+      if (entry?.audioPath) {
+        await getAudioStorage(supabase)
+          .remove([entry.audioPath])
+          .catch(() => {});
+      }
+      yield {
+        ...base,
+        action: "error",
+        done: false,
+        error: e instanceof Error ? e.message : "Unknown error",
+      };
+    }
+  }
+}
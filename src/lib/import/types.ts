@@ -0,0 +1,43 @@
+// src/lib/import/types.ts
+
+export type ImportKind = "dayone" | "markdown" | "audio";
+
+/** An uploaded file, or a file found inside an uploaded zip */
+export type ImportFile = {
+  name: string;
+  bytes: ArrayBuffer;
+  contentType: string;
+};
+
+/** One thing to turn into a `log_entries` row */
+export type ImportItem = {
+  /** File name, plus the entry id for multi-entry files */
+  source: string;
+  kind: ImportKind;
+  log_date: string;
+  recorded_at: string;
+  text?: string;
+  audio?: { bytes: ArrayBuffer; contentType: string };
+};
+
+/** Everything uploaded in one import request */
+export const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
+/** What one zip may expand to, so a small archive can't exhaust memory */
+export const MAX_UNZIPPED_BYTES = 500 * 1024 * 1024;
+
+/** What to do when a day already has a log */
+export const CONFLICT_MODES = ["skip", "merge", "replace"] as const;
+export type ConflictMode = (typeof CONFLICT_MODES)[number];
+
+export type ImportAction = "create" | "merge" | "replace" | "skip" | "error";
+
+export type ItemResult = {
+  source: string;
+  kind?: ImportKind;
+  log_date?: string;
+  action: ImportAction;
+  /** False in a dry run, or when the item failed */
+  done: boolean;
+  preview?: string;
+  error?: string;
+};
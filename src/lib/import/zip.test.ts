@@ -0,0 +1,54 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { unzip } from "./zip";
+
+/** A one-entry deflated zip; `declared` overrides the uncompressed size */
+function zipOf(name: string, content: Buffer, declared = content.length) {
+  const data = deflateRawSync(content);
+  const nameBuf = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(declared, 22);
+  local.writeUInt16LE(nameBuf.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(declared, 24);
+  central.writeUInt16LE(nameBuf.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const cdOffset = local.length + nameBuf.length + data.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + nameBuf.length, 12);
+  eocd.writeUInt32LE(cdOffset, 16);
+
+  const zip = Buffer.concat([local, nameBuf, data, central, nameBuf, eocd]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength);
+}
+
+describe("unzip", () => {
+  it("reads a deflated entry", () => {
+    const [entry] = unzip(zipOf("2021-03-07.md", Buffer.from("# Hello")));
+    expect(entry.name).toBe("2021-03-07.md");
+    expect(Buffer.from(entry.bytes).toString()).toBe("# Hello");
+  });
+
+  it("refuses an entry declared larger than the budget", () => {
+    const zip = zipOf("big.txt", Buffer.alloc(2048));
+    expect(() => unzip(zip, 1024)).toThrow(/more than/);
+  });
+
+  it("stops inflating at the declared size", () => {
+    // A bomb that claims to be tiny: 10 MB of zeros declared as 100 bytes
+    const zip = zipOf("bomb.txt", Buffer.alloc(10 * 1024 * 1024), 100);
+    expect(() => unzip(zip)).toThrow(/size doesn't match/);
+  });
+});
@@ -0,0 +1,92 @@
+// src/lib/import/zip.ts
+import { inflateRawSync } from "node:zlib";
+import { MAX_UNZIPPED_BYTES } from "./types";
+
+const mb = (bytes: number) => `${Math.round(bytes / 1024 / 1024)} MB`;
+
+/**
+ * Just enough of the zip format for journal exports: stored and deflated
+ * entries read through the central directory. No zip64, no encryption.
+ * Entries may add up to `budget` bytes once extracted; each is checked
+ * against its declared size before inflating and can't inflate past it.
+ */
+export function unzip(
+  bytes: ArrayBuffer,
+  budget = MAX_UNZIPPED_BYTES
+): { name: string; bytes: ArrayBuffer }[] {
+  const buf = Buffer.from(bytes);
+  const limit = budget;
+
+  // End of central directory: last 22 bytes, plus up to 64 KiB of comment
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65_557); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a zip file");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+  const out: { name: string; bytes: ArrayBuffer }[] = [];
+
+  for (let n = 0; n < count; n++) {
+    if (buf.readUInt32LE(p) !== 0x02014b50) throw new Error("Corrupt zip");
+    const flags = buf.readUInt16LE(p + 8);
+    const method = buf.readUInt16LE(p + 10);
+    const size = buf.readUInt32LE(p + 20);
+    const unzippedSize = buf.readUInt32LE(p + 24);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    const local = buf.readUInt32LE(p + 42);
+    const name = buf.toString(
+      flags & 0x800 ? "utf8" : "latin1",
+      p + 46,
+      p + 46 + nameLen
+    );
+    p += 46 + nameLen + extraLen + commentLen;
+
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    if (flags & 0x1)
+      throw new Error(`${name}: encrypted zips aren't supported`);
+    if (size === 0xffffffff || unzippedSize === 0xffffffff)
+      throw new Error(`${name}: zip64 isn't supported`);
+    if (unzippedSize > budget)
+      throw new Error(`Zip expands to more than ${mb(limit)}`);
+
+    const start =
+      local + 30 + buf.readUInt16LE(local + 26) + buf.readUInt16LE(local + 28);
+    const data = buf.subarray(start, start + size);
+    const file =
+      method === 0
+        ? data
+        : method === 8
+        ? inflate(name, data, unzippedSize)
+        : null;
+    if (!file) throw new Error(`${name}: unsupported compression ${method}`);
+    if (file.byteLength !== unzippedSize)
+      throw new Error(`${name}: size doesn't match the zip's directory`);
+    budget -= unzippedSize;
+    out.push({
+      name,
+      bytes: file.buffer.slice(
+        file.byteOffset,
+        file.byteOffset + file.byteLength
+      ) as ArrayBuffer,
+    });
+  }
+  return out;
+}
+
+/** Inflates no further than the entry's declared size */
+function inflate(name: string, data: Buffer, declared: number) {
+  try {
+    return inflateRawSync(data, { maxOutputLength: Math.max(1, declared) });
+  } catch (e) {
+    if ((e as { code?: string }).code === "ERR_BUFFER_TOO_LARGE")
+      throw new Error(`${name}: size doesn't match the zip's directory`);
+    throw e;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { addDays } from "./dates";
+import { computeInsights } from "./insights";
+import type { DayRow } from "./metrics";
+
+const days = (n: number, start = "2026-10-01"): DayRow[] =>
+  Array.from({ length: n }, (_, i) => ({
+    log_date: addDays(start, i),
+    extracted: { energy: (i % 5) + 1, focus: (i % 5) + 1 },
+  }));
+
+const pairN = (result: ReturnType<typeof computeInsights>, id: string) =>
+  [...result.insights, ...result.skipped].find((x) => x.id === id)?.n;
+
+describe("computeInsights", () => {
+  it("uses a row after lastDay only as a next-day outcome", () => {
+    const rows = days(11); // 2026-10-01 … 2026-10-11
+    const lastDay = "2026-10-10";
+
+    // Same-day pairs: the 10 days in range, not the 11th
+    expect(pairN(computeInsights(rows, [], lastDay), "energy~focus~0")).toBe(
+      10
+    );
+    expect(pairN(computeInsights(rows, []), "energy~focus~0")).toBe(11);
+  });
+
+  it("still pairs the last day with the day after it", () => {
+    const habits = [{ key: "yoga", name: "Yoga", type: "boolean" as const }];
+    const rows = days(11).map((r, i) => ({
+      ...r,
+      extracted: { ...r.extracted, habits: { yoga: i % 2 === 0 } },
+    }));
+    expect(
+      pairN(computeInsights(rows, habits, "2026-10-10"), "habits.yoga~energy~1")
+    ).toBe(10);
+  });
+});
@@ -0,0 +1,227 @@
+// src/lib/insights.ts
+import type { HabitDefinition } from "@/lib/habits";
+import { addDays } from "@/lib/dates";
+import { metricsFor, type DayRow, type Metric } from "@/lib/metrics";
+
+/**
+ * Looks for relationships between what the user logs: a numeric predictor
+ * against an outcome (Pearson r), or a yes/no habit against an outcome
+ * (difference in means, Cohen's d). `lag` 1 compares with the next day.
+ * Nothing is reported from fewer than MIN_PAIRS days, and weak effects are
+ * listed as skipped rather than dressed up as findings.
+ */
+
+export const MIN_PAIRS = 10;
+/** Per group, for yes/no habits */
+export const MIN_GROUP = 4;
+
+const MIN_R = 0.2;
+const MIN_D = 0.3;
+
+export type Strength = "weak" | "moderate" | "strong";
+
+export type Insight = {
+  id: string;
+  predictor: string;
+  outcome: string;
+  lag: 0 | 1;
+  n: number;
+  strength: Strength;
+  /** Positive: more/done predictor goes with a higher outcome */
+  direction: 1 | -1;
+  text: string;
+} & (
+  | { kind: "correlation"; r: number }
+  | {
+      kind: "difference";
+      mean_with: number;
+      mean_without: number;
+      n_with: number;
+      n_without: number;
+      d: number;
+    }
+);
+
+export type Skipped = {
+  id: string;
+  predictor: string;
+  outcome: string;
+  lag: 0 | 1;
+  n: number;
+  reason: string;
+};
+
+type Pair = { predictor: string; outcome: string; lag: 0 | 1 };
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+const round = (x: number, digits = 2) => Number(x.toFixed(digits));
+
+function variance(xs: number[]) {
+  const m = mean(xs);
+  return xs.reduce((a, x) => a + (x - m) ** 2, 0) / (xs.length - 1);
+}
+
+export function pearson(xs: number[], ys: number[]) {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let num = 0;
+  let dx = 0;
+  let dy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    num += (xs[i] - mx) * (ys[i] - my);
+    dx += (xs[i] - mx) ** 2;
+    dy += (ys[i] - my) ** 2;
+  }
+  return dx && dy ? num / Math.sqrt(dx * dy) : 0;
+}
+
+/** Difference in means over the pooled standard deviation */
+export function cohensD(a: number[], b: number[]) {
+  const pooled = Math.sqrt(
+    ((a.length - 1) * variance(a) + (b.length - 1) * variance(b)) /
+      (a.length + b.length - 2)
+  );
+  return pooled ? (mean(a) - mean(b)) / pooled : 0;
+}
+
+const strengthOfR = (r: number): Strength =>
+  Math.abs(r) >= 0.5 ? "strong" : Math.abs(r) >= 0.3 ? "moderate" : "weak";
+const strengthOfD = (d: number): Strength =>
+  Math.abs(d) >= 0.8 ? "strong" : Math.abs(d) >= 0.5 ? "moderate" : "weak";
+
+/** "🛌 Sleep" → "sleep" for use inside sentences */
+const name = (m: Metric) =>
+  m.label
+    .replace(/^\P{L}+/u, "")
+    .trim()
+    .toLowerCase();
+
+/** The pairs worth asking about for these habits */
+function candidatePairs(habits: HabitDefinition[]): Pair[] {
+  const outcomes = ["energy", "focus", "mood"];
+  const pairs: Pair[] = [
+    { predictor: "sleep_hours", outcome: "focus", lag: 1 },
+    { predictor: "sleep_hours", outcome: "energy", lag: 1 },
+    { predictor: "sleep_hours", outcome: "mood", lag: 0 },
+    { predictor: "health.steps", outcome: "energy", lag: 0 },
+    { predictor: "health.steps", outcome: "mood", lag: 0 },
+    { predictor: "health.water_glasses", outcome: "energy", lag: 0 },
+    { predictor: "work.minutes", outcome: "mood", lag: 0 },
+    { predictor: "energy", outcome: "focus", lag: 0 },
+  ];
+  for (const h of habits) {
+    for (const outcome of outcomes) {
+      pairs.push({ predictor: `habits.${h.key}`, outcome, lag: 0 });
+    }
+    // Effects that show up the morning after (e.g. a late workout, no smoking)
+    pairs.push({ predictor: `habits.${h.key}`, outcome: "energy", lag: 1 });
+  }
+  return pairs;
+}
+
+/**
+ * `lastDay` ends the range: rows after it only serve as the next-day
+ * outcome of days within it, never as days of their own.
+ */
+export function computeInsights(
+  rows: DayRow[],
+  habits: HabitDefinition[],
+  lastDay?: string
+): { insights: Insight[]; skipped: Skipped[] } {
+  const metrics = new Map(metricsFor(habits).map((m) => [m.key, m]));
+  const booleans = new Set(
+    habits.filter((h) => h.type === "boolean").map((h) => `habits.${h.key}`)
+  );
+  const byDate = new Map(rows.map((r) => [r.log_date, r.extracted ?? {}]));
+
+  const insights: Insight[] = [];
+  const skipped: Skipped[] = [];
+
+  for (const pair of candidatePairs(habits)) {
+    const p = metrics.get(pair.predictor);
+    const o = metrics.get(pair.outcome);
+    if (!p || !o) continue;
+    const id = `${pair.predictor}~${pair.outcome}~${pair.lag}`;
+
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const [date, x] of byDate) {
+      if (lastDay && date > lastDay) continue;
+      const later = pair.lag ? byDate.get(addDays(date, pair.lag)) : x;
+      const px = p.value(x);
+      const oy = later && o.value(later);
+      if (px === undefined || oy === undefined) continue;
+      xs.push(px);
+      ys.push(oy);
+    }
+    const n = xs.length;
+    const skip = (reason: string) => skipped.push({ id, ...pair, n, reason });
+
+    if (n < MIN_PAIRS) {
+      skip(`Only ${n} day${n === 1 ? "" : "s"} with both (need ${MIN_PAIRS})`);
+      continue;
+    }
+
+    const after = pair.lag ? "the next day" : "that day";
+    const outcomeName = name(o);
+
+    if (booleans.has(pair.predictor)) {
+      const withIt = ys.filter((_, i) => xs[i] > 0);
+      const without = ys.filter((_, i) => xs[i] === 0);
+      if (withIt.length < MIN_GROUP || without.length < MIN_GROUP) {
+        skip(
+          `Needs at least ${MIN_GROUP} days with and without (${withIt.length}/${without.length})`
+        );
+        continue;
+      }
+      const d = cohensD(withIt, without);
+      if (Math.abs(d) < MIN_D) {
+        skip("No clear difference");
+        continue;
+      }
+      const a = mean(withIt);
+      const b = mean(without);
+      insights.push({
+        id,
+        ...pair,
+        kind: "difference",
+        n,
+        n_with: withIt.length,
+        n_without: without.length,
+        mean_with: round(a),
+        mean_without: round(b),
+        d: round(d),
+        strength: strengthOfD(d),
+        direction: d > 0 ? 1 : -1,
+        text:
+          `On ${name(p)} days your ${outcomeName} ${after} averages ` +
+          `${round(a, 1)} vs ${round(b, 1)} on other days ` +
+          `(${withIt.length} vs ${without.length} days).`,
+      });
+      continue;
+    }
+
+    const r = pearson(xs, ys);
+    if (Math.abs(r) < MIN_R) {
+      skip("No clear relationship");
+      continue;
+    }
+    insights.push({
+      id,
+      ...pair,
+      kind: "correlation",
+      n,
+      r: round(r),
+      strength: strengthOfR(r),
+      direction: r > 0 ? 1 : -1,
+      text:
+        `When your ${name(p)} is higher, your ${outcomeName} ${after} tends ` +
+        `to be ${r > 0 ? "higher" : "lower"} (r = ${round(r)}, ${n} days).`,
+    });
+  }
+
+  const size = (i: Insight) =>
+    i.kind === "correlation" ? Math.abs(i.r) * 2 : Math.abs(i.d);
+  insights.sort((a, b) => size(b) - size(a));
+  return { insights, skipped };
+}
@@ -0,0 +1,226 @@
+// src/lib/jobs.ts
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { getSttProvider } from "@/lib/stt";
+import { extractWithFallback, getExtractor } from "@/lib/extract";
+import { habitsFor } from "@/lib/habits";
+import { saveEntry } from "@/lib/daily-logs";
+import { extractionContextFor } from "@/lib/tasks";
+import { getAudioStorage } from "@/lib/storage";
+
+/**
+ * Background processing of an uploaded recording (`process_jobs` rows).
+ * queued → transcribing → extracting → saved, or → failed once every
+ * attempt is used up. The audio is already stored when the job is created,
+ * so a failed job can be retried without re-recording.
+ */
+export const JOB_STATUSES = [
+  "queued",
+  "transcribing",
+  "extracting",
+  "saved",
+  "failed",
+] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export type ProcessJob = {
+  id: string;
+  user_id: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  log_date: string;
+  /** null for a typed entry */
+  audio_path: string | null;
+  audio_url: string | null;
+  content_type: string;
+  transcript: string | null;
+  stt_provider: string | null;
+  extractor: string | null;
+  extraction_fallback: string | null;
+  daily_log_id: string | null;
+  entry_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const MAX_ATTEMPTS = Number(process.env.PROCESS_JOB_MAX_ATTEMPTS || 3);
+
+/** A job that hasn't moved in this long was lost (e.g. the server restarted) */
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+/** 2s, 8s, 32s, … capped at a minute */
+export function backoffMs(attempt: number) {
+  return Math.min(2000 * 4 ** (attempt - 1), 60_000);
+}
+
+export function isFinished(job: Pick<ProcessJob, "status">) {
+  return job.status === "saved" || job.status === "failed";
+}
+
+/** Failed jobs, and running ones that stopped making progress, can be retried */
+export function canRetry(job: ProcessJob, now = Date.now()) {
+  if (job.status === "failed") return true;
+  if (job.status === "saved") return false;
+  return now - new Date(job.updated_at).getTime() > STALE_AFTER_MS;
+}
+
+export async function createJob(
+  supabase: SupabaseClient,
+  job: {
+    userId: string;
+    logDate: string;
+    audioPath: string | null;
+    audioUrl: string | null;
+    contentType: string;
+    /** Transcribed live while recording, or typed; the job skips STT */
+    transcript?: string | null;
+    sttProvider?: string | null;
+  }
+) {
+  const { data, error } = await supabase
+    .from("process_jobs")
+    .insert({
+      user_id: job.userId,
+      log_date: job.logDate,
+      audio_path: job.audioPath,
+      audio_url: job.audioUrl,
+      content_type: job.contentType,
+      transcript: job.transcript ?? null,
+      stt_provider: job.sttProvider ?? null,
+      max_attempts: MAX_ATTEMPTS,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ProcessJob;
+}
+
+async function updateJob(
+  supabase: SupabaseClient,
+  id: string,
+  patch: Partial<ProcessJob>
+) {
+  const { data, error } = await supabase
+    .from("process_jobs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ProcessJob;
+}
+
+/** Puts a failed (or stuck) job back in the queue with a fresh set of attempts */
+export function resetJob(supabase: SupabaseClient, id: string) {
+  return updateJob(supabase, id, {
+    status: "queued",
+    attempts: 0,
+    last_error: null,
+    next_attempt_at: null,
+  });
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** One pass over the pipeline; resumes after transcription if that already succeeded */
+async function attempt(supabase: SupabaseClient, user: User, job: ProcessJob) {
+  let transcript = job.transcript;
+  let sttProvider = job.stt_provider;
+
+  if (transcript === null) {
+    const path = job.audio_path;
+    if (!path) throw new Error("Nothing to transcribe");
+    job = await updateJob(supabase, job.id, { status: "transcribing" });
+    const bytes = await getAudioStorage(supabase).get(path);
+    const stt = getSttProvider(user);
+    transcript = await stt.transcribe({ bytes, contentType: job.content_type });
+    sttProvider = stt.name;
+  }
+
+  job = await updateJob(supabase, job.id, {
+    status: "extracting",
+    transcript,
+    stt_provider: sttProvider,
+  });
+  const { extracted, extractor, fallback_reason } = await extractWithFallback(
+    transcript,
+    getExtractor(user),
+    habitsFor(user),
+    await extractionContextFor(supabase, job.user_id, job.log_date)
+  );
+
+  const { row, entry } = await saveEntry(supabase, {
+    userId: job.user_id,
+    logDate: job.log_date,
+    transcript,
+    extracted,
+    sttProvider,
+    extractor,
+    recordedAt: job.created_at,
+    audioPath: job.audio_path,
+    audioUrl: job.audio_url,
+    // A retried job finds its entry already saved
+    entryId: job.id,
+  });
+
+  return updateJob(supabase, job.id, {
+    status: "saved",
+    extractor,
+    extraction_fallback: fallback_reason ?? null,
+    last_error: null,
+    next_attempt_at: null,
+    daily_log_id: row.id,
+    entry_id: entry.id,
+  });
+}
+
+/**
+ * Runs a queued job to completion, retrying with backoff. Never throws:
+ * the outcome is recorded on the row for the status endpoint to report.
+ */
+export async function runJob(
+  supabase: SupabaseClient,
+  user: User,
+  jobId: string
+) {
+  try {
+    const { data, error } = await supabase
+      .from("process_jobs")
+      .select("*")
+      .eq("id", jobId)
+      .single();
+    if (error) throw error;
+    let job = data as ProcessJob;
+
+    while (!isFinished(job)) {
+      job = await updateJob(supabase, job.id, { attempts: job.attempts + 1 });
+      try {
+        return await attempt(supabase, user, job);
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : "Unknown error";
+        console.error(`[jobs] ${job.id} attempt ${job.attempts}:`, e);
+        if (job.attempts >= job.max_attempts) {
+          return await updateJob(supabase, job.id, {
+            status: "failed",
+            last_error: msg,
+            next_attempt_at: null,
+          });
+        }
+        const wait = backoffMs(job.attempts);
+        job = await updateJob(supabase, job.id, {
+          status: "queued",
+          last_error: msg,
+          next_attempt_at: new Date(Date.now() + wait).toISOString(),
+        });
+        await sleep(wait);
+      }
+    }
+    return job;
+  } catch (e) {
+    // Couldn't even record the failure (e.g. the database is down)
+    console.error(`[jobs] ${jobId}:`, e);
+    return null;
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { joinTranscripts, mergeEntries, mergeExtracted } from "./merge";
+
+describe("mergeExtracted", () => {
+  it("takes the later scalar unless it is missing or blank", () => {
+    const day = mergeExtracted(
+      { sleep_hours: 7, mood: "calm", energy: 6, notes: "slow start" },
+      { sleep_hours: 6.5, mood: "", energy: undefined }
+    );
+    expect(day.sleep_hours).toBe(6.5);
+    expect(day.mood).toBe("calm");
+    expect(day.energy).toBe(6);
+  });
+
+  it("appends lists and drops repeats regardless of case and spacing", () => {
+    const day = mergeExtracted(
+      { highlights: ["Long walk", "Finished the draft"], gratitude: [] },
+      {
+        highlights: ["long  walk", "Dinner with Ana"],
+        gratitude: ["sunshine"],
+      }
+    );
+    expect(day.highlights).toEqual([
+      "Long walk",
+      "Finished the draft",
+      "Dinner with Ana",
+    ]);
+    expect(day.gratitude).toEqual(["sunshine"]);
+  });
+
+  it("ORs boolean habits and keeps the latest number", () => {
+    const day = mergeExtracted(
+      { habits: { yoga: true, workout: false, reading_minutes: 20 } },
+      { habits: { yoga: false, workout: true, reading_minutes: 35 } }
+    );
+    expect(day.habits).toEqual({
+      yoga: true,
+      workout: true,
+      reading_minutes: 35,
+    });
+  });
+
+  it("keeps habits only one entry mentions", () => {
+    const day = mergeExtracted(
+      { habits: { no_smoking: true } },
+      { habits: { reading_minutes: 10 } }
+    );
+    expect(day.habits).toEqual({ no_smoking: true, reading_minutes: 10 });
+  });
+
+  it("dedupes time blocks and fills health from both entries", () => {
+    const day = mergeExtracted(
+      {
+        work: { time_blocks: [{ label: "Deep work", minutes: 90 }] },
+        health: { steps: 4000, water_glasses: 3 },
+      },
+      {
+        work: {
+          top_task_done: "Ship the report",
+          time_blocks: [
+            { label: "deep work", minutes: 90 },
+            { label: "Email", minutes: 30 },
+          ],
+        },
+        health: { steps: 9000, water_glasses: undefined },
+      }
+    );
+    expect(day.work).toEqual({
+      top_task_done: "Ship the report",
+      time_blocks: [
+        { label: "Deep work", minutes: 90 },
+        { label: "Email", minutes: 30 },
+      ],
+    });
+    expect(day.health).toEqual({ steps: 9000, water_glasses: 3 });
+  });
+});
+
+describe("mergeEntries", () => {
+  it("merges in recording order, not list order", () => {
+    const day = mergeEntries([
+      { recorded_at: "2026-10-19T20:00:00Z", extracted: { mood: "tired" } },
+      { recorded_at: "2026-10-19T08:00:00Z", extracted: { mood: "fresh" } },
+      { recorded_at: "2026-10-19T12:00:00Z", extracted: null },
+    ]);
+    expect(day.mood).toBe("tired");
+  });
+});
+
+describe("joinTranscripts", () => {
+  it("skips blank parts", () => {
+    expect(joinTranscripts(" morning ", null, "", "evening")).toBe(
+      "morning\n\nevening"
+    );
+  });
+});
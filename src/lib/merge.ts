@@ -0,0 +1,115 @@
+// src/lib/merge.ts
+import type { Extracted } from "@/lib/extracted";
+
+/**
+ * Folds several recordings of the same day into one daily `extracted` view:
+ * - lists are appended and de-duplicated (case/whitespace-insensitive)
+ * - numbers and single strings take the latest value that was actually said
+ * - habits are OR-ed (booleans) or take the latest value (numbers)
+ * - notes from each entry are kept, in order
+ */
+
+const norm = (s: string) => s.trim().toLowerCase().replace(/\s+/g, " ");
+
+function mergeList(a?: string[], b?: string[]) {
+  if (!a?.length) return b;
+  if (!b?.length) return a;
+  const out = [...a];
+  const seen = new Set(a.map(norm));
+  for (const s of b) {
+    if (seen.has(norm(s))) continue;
+    seen.add(norm(s));
+    out.push(s);
+  }
+  return out;
+}
+
+function latest<T>(a: T | undefined, b: T | undefined) {
+  return b === undefined || b === "" ? a : b;
+}
+
+type Habits = NonNullable<Extracted["habits"]>;
+
+function mergeHabits(a?: Habits, b?: Habits): Habits | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  const out: Habits = { ...a };
+  for (const [k, v] of Object.entries(b)) {
+    const prev = out[k];
+    out[k] =
+      typeof v === "boolean" && typeof prev === "boolean" ? prev || v : v;
+  }
+  return out;
+}
+
+type Work = NonNullable<Extracted["work"]>;
+
+function mergeWork(a?: Work, b?: Work): Work | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  const blocks = [...(a.time_blocks ?? [])];
+  for (const tb of b.time_blocks ?? []) {
+    if (
+      !blocks.some(
+        (x) => norm(x.label) === norm(tb.label) && x.minutes === tb.minutes
+      )
+    )
+      blocks.push(tb);
+  }
+  return {
+    top_task_done: latest(a.top_task_done, b.top_task_done),
+    time_blocks: blocks,
+  };
+}
+
+function mergeNotes(a?: string, b?: string) {
+  if (!a) return b;
+  if (!b || norm(a).includes(norm(b))) return a;
+  return `${a}\n${b}`;
+}
+
+/** `b` is the later entry */
+export function mergeExtracted(a: Extracted, b: Extracted): Extracted {
+  return {
+    schema_version: Math.max(a.schema_version ?? 1, b.schema_version ?? 1),
+    sleep_hours: latest(a.sleep_hours, b.sleep_hours),
+    mood: latest(a.mood, b.mood),
+    energy: latest(a.energy, b.energy),
+    focus: latest(a.focus, b.focus),
+    highlights: mergeList(a.highlights, b.highlights),
+    challenges: mergeList(a.challenges, b.challenges),
+    gratitude: mergeList(a.gratitude, b.gratitude),
+    habits: mergeHabits(a.habits, b.habits),
+    work: mergeWork(a.work, b.work),
+    health:
+      b.health || a.health
+        ? { ...a.health, ...dropUndefined(b.health) }
+        : undefined,
+    notes: mergeNotes(a.notes, b.notes),
+    todos_tomorrow: mergeList(a.todos_tomorrow, b.todos_tomorrow),
+    tasks_done: mergeList(a.tasks_done, b.tasks_done),
+  };
+}
+
+function dropUndefined<T extends object>(o?: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(o ?? {}).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+/** Entries in recording order → the day's view */
+export function mergeEntries(
+  entries: { recorded_at: string; extracted: Extracted | null }[]
+): Extracted {
+  return [...entries]
+    .sort((x, y) => x.recorded_at.localeCompare(y.recorded_at))
+    .reduce<Extracted>((acc, e) => mergeExtracted(acc, e.extracted ?? {}), {});
+}
+
+/** The day's transcript is every entry's transcript, oldest first */
+export function joinTranscripts(...parts: (string | null | undefined)[]) {
+  return parts
+    .map((t) => t?.trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
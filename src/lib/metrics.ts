@@ -0,0 +1,203 @@
+// src/lib/metrics.ts
+import type { Extracted } from "@/lib/extracted";
+import { unitLabel, type HabitDefinition } from "@/lib/habits";
+import { addDays, daysBetween } from "@/lib/dates";
+
+/**
+ * Everything the dashboard can chart, as numbers per day. Boolean habits
+ * are 100 (done) or 0, so their rolling average is a completion rate in %.
+ */
+export type Metric = {
+  key: string;
+  label: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+  /** A yes/no habit, charted as 100/0 */
+  boolean?: boolean;
+  value: (x: Extracted) => number | undefined;
+};
+
+const num = (v: unknown) =>
+  typeof v === "number" && !Number.isNaN(v) ? v : undefined;
+
+/** Mood is free text; the editor's chips (and close synonyms) map to 1–5 */
+const MOOD_SCORES: Record<string, number> = {
+  great: 5,
+  happy: 5,
+  good: 4,
+  calm: 4,
+  neutral: 3,
+  ok: 3,
+  okay: 3,
+  meh: 3,
+  tired: 2,
+  low: 2,
+  sad: 2,
+  stressed: 1,
+  anxious: 1,
+  bad: 1,
+};
+
+export function moodScore(mood?: string) {
+  return mood ? MOOD_SCORES[mood.trim().toLowerCase()] : undefined;
+}
+
+const BASE_METRICS: Metric[] = [
+  {
+    key: "sleep_hours",
+    label: "🛌 Sleep",
+    unit: "hrs",
+    min: 0,
+    value: (x) => num(x.sleep_hours),
+  },
+  {
+    key: "energy",
+    label: "⚡️ Energy",
+    unit: "0–10",
+    min: 0,
+    max: 10,
+    value: (x) => num(x.energy),
+  },
+  {
+    key: "mood",
+    label: "🙂 Mood",
+    unit: "1–5",
+    min: 1,
+    max: 5,
+    value: (x) => moodScore(x.mood),
+  },
+  {
+    key: "focus",
+    label: "🎯 Focus",
+    unit: "0–10",
+    min: 0,
+    max: 10,
+    value: (x) => num(x.focus),
+  },
+  {
+    key: "health.steps",
+    label: "👟 Steps",
+    min: 0,
+    value: (x) => num(x.health?.steps),
+  },
+  {
+    key: "health.water_glasses",
+    label: "💧 Water",
+    unit: "glasses",
+    min: 0,
+    value: (x) => num(x.health?.water_glasses),
+  },
+  {
+    key: "health.calories",
+    label: "🍽️ Calories",
+    unit: "kcal",
+    min: 0,
+    value: (x) => num(x.health?.calories),
+  },
+  {
+    key: "work.minutes",
+    label: "💼 Work",
+    unit: "min",
+    min: 0,
+    value: (x) =>
+      x.work?.time_blocks?.length
+        ? x.work.time_blocks.reduce((sum, b) => sum + (b.minutes ?? 0), 0)
+        : undefined,
+  },
+];
+
+function habitMetric(def: HabitDefinition): Metric {
+  if (def.type === "boolean") {
+    return {
+      key: `habits.${def.key}`,
+      label: `✅ ${def.name}`,
+      unit: "% of days",
+      min: 0,
+      max: 100,
+      boolean: true,
+      value: (x) => {
+        const v = x.habits?.[def.key];
+        return typeof v === "boolean" ? (v ? 100 : 0) : undefined;
+      },
+    };
+  }
+  return {
+    key: `habits.${def.key}`,
+    label: `✅ ${def.name}`,
+    unit: unitLabel(def) || undefined,
+    min: 0,
+    value: (x) => num(x.habits?.[def.key]),
+  };
+}
+
+/** Share of the user's yes/no habits done that day */
+function completionMetric(defs: HabitDefinition[]): Metric | null {
+  const booleans = defs.filter((d) => d.type === "boolean");
+  if (!booleans.length) return null;
+  return {
+    key: "habits.completion",
+    label: "🏁 Habit completion",
+    unit: "%",
+    min: 0,
+    max: 100,
+    value: (x) => {
+      if (!x.habits) return undefined;
+      const done = booleans.filter((d) => x.habits?.[d.key] === true).length;
+      return Math.round((done / booleans.length) * 100);
+    },
+  };
+}
+
+export function metricsFor(habits: HabitDefinition[]): Metric[] {
+  const completion = completionMetric(habits);
+  return [
+    ...BASE_METRICS,
+    ...(completion ? [completion] : []),
+    ...habits.map(habitMetric),
+  ];
+}
+
+export type DayRow = { log_date: string; extracted: Extracted | null };
+
+/** One value per calendar day in from–to; null where nothing was logged (a gap) */
+export type Series = { dates: string[]; values: (number | null)[] };
+
+export function dailySeries(
+  rows: DayRow[],
+  metric: Metric,
+  from: string,
+  to: string
+): Series {
+  const byDate = new Map(rows.map((r) => [r.log_date, r.extracted]));
+  const dates: string[] = [];
+  const values: (number | null)[] = [];
+  for (let i = 0; i <= daysBetween(from, to); i++) {
+    const d = addDays(from, i);
+    const x = byDate.get(d);
+    dates.push(d);
+    values.push((x && metric.value(x)) ?? null);
+  }
+  return { dates, values };
+}
+
+/** Trailing mean over `window` days, ignoring gaps; null when the window is empty */
+export function rollingAverage(values: (number | null)[], window = 7) {
+  return values.map((_, i) => {
+    const seen = values
+      .slice(Math.max(0, i - window + 1), i + 1)
+      .filter((v): v is number => v !== null);
+    if (!seen.length) return null;
+    return (
+      Math.round((seen.reduce((a, b) => a + b, 0) / seen.length) * 100) / 100
+    );
+  });
+}
+
+/** Moves each value `days` earlier, so day N shows day N+`days` (e.g. next-day energy) */
+export function shiftValues(values: (number | null)[], days: number) {
+  return values.map((_, i) => values[i + days] ?? null);
+}
+
+export const hasData = (values: (number | null)[]) =>
+  values.some((v) => v !== null);
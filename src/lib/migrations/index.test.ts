@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  LATEST_SCHEMA_VERSION,
+  migrateExtracted,
+  migrateRow,
+  upgradeRow,
+  versionOf,
+} from "./index";
+import v1BlankDay from "./fixtures/v1-blank-day.json";
+import v2BlankDay from "./fixtures/v2-blank-day.json";
+
+describe("versionOf", () => {
+  it("treats rows from before versioning as v1", () => {
+    expect(versionOf(null)).toBe(1);
+    expect(versionOf(undefined)).toBe(1);
+  });
+
+  it("uses the row's column", () => {
+    expect(versionOf(2)).toBe(2);
+  });
+});
+
+describe("migrateExtracted", () => {
+  it("upgrades a v1 payload to the latest version", () => {
+    expect(migrateExtracted(v1BlankDay, 1)).toEqual({
+      extracted: v2BlankDay,
+      version: LATEST_SCHEMA_VERSION,
+      migrated: true,
+    });
+  });
+
+  it("ignores a schema_version the model wrote into a v1 payload", () => {
+    // v1BlankDay says schema_version: 2, but the row (null) says v1
+    expect(migrateExtracted(v1BlankDay, null).extracted).toEqual(v2BlankDay);
+  });
+
+  it("leaves a latest payload alone", () => {
+    expect(migrateExtracted(v2BlankDay, LATEST_SCHEMA_VERSION)).toEqual({
+      extracted: v2BlankDay,
+      version: LATEST_SCHEMA_VERSION,
+      migrated: false,
+    });
+  });
+
+  it("treats a missing payload as empty", () => {
+    expect(migrateExtracted(null, 1).extracted).toEqual({
+      schema_version: 2,
+    });
+  });
+
+  it("throws when there is no path to the latest version", () => {
+    expect(() => migrateExtracted({}, 99)).toThrow(/No migration path/);
+  });
+});
+
+describe("migrateRow", () => {
+  it("upgrades extracted and the row's schema_version", () => {
+    const row = { id: "a", extracted: v1BlankDay, schema_version: null };
+    expect(migrateRow(row)).toEqual({
+      id: "a",
+      extracted: v2BlankDay,
+      schema_version: LATEST_SCHEMA_VERSION,
+    });
+  });
+
+  it("throws for a row it can't migrate", () => {
+    expect(() => migrateRow({ extracted: {}, schema_version: 99 })).toThrow();
+  });
+});
+
+describe("upgradeRow", () => {
+  it("upgrades like migrateRow", () => {
+    const row = { id: "a", extracted: v1BlankDay, schema_version: 1 };
+    expect(upgradeRow(row)).toEqual(migrateRow(row));
+  });
+
+  it("leaves rows without extracted data as they are", () => {
+    const row = { id: "a", extracted: null, schema_version: null };
+    expect(upgradeRow(row)).toBe(row);
+  });
+
+  it("returns a row it can't migrate as stored, flagged", () => {
+    const row = { id: "a", extracted: { mood: "ok" }, schema_version: 99 };
+    expect(upgradeRow(row)).toEqual({
+      ...row,
+      migration_error: "No migration path from schema_version 99 to 2",
+    });
+  });
+});
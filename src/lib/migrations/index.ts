@@ -0,0 +1,80 @@
+// src/lib/migrations/index.ts
+import { isObject, type ExtractedJson, type Migration } from "./types";
+import { v1ToV2 } from "./v1-to-v2";
+
+export type { ExtractedJson, Migration } from "./types";
+
+/** Ordered by `from`; each entry upgrades N → N+1 */
+const migrations: Migration[] = [v1ToV2];
+
+export const LATEST_SCHEMA_VERSION = 1 + migrations.length;
+
+/**
+ * The row's `schema_version` column is the authority; rows from before
+ * versioning (null) are v1. The payload's own field isn't trusted: the v1
+ * strict schema made the model fill it in.
+ */
+export function versionOf(rowVersion?: number | null) {
+  return rowVersion ?? 1;
+}
+
+/** Runs every migration between `rowVersion` and the latest */
+export function migrateExtracted(
+  extracted: unknown,
+  rowVersion?: number | null
+): { extracted: ExtractedJson; version: number; migrated: boolean } {
+  let version = versionOf(rowVersion);
+  let out: ExtractedJson = isObject(extracted) ? extracted : {};
+  const start = version;
+
+  for (const m of migrations) {
+    if (m.from !== version) continue;
+    out = m.up(out);
+    version = m.from + 1;
+  }
+  if (version !== LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `No migration path from schema_version ${start} to ${LATEST_SCHEMA_VERSION}`
+    );
+  }
+  return {
+    extracted: { ...out, schema_version: version },
+    version,
+    migrated: version !== start,
+  };
+}
+
+type VersionedRow = {
+  extracted?: unknown;
+  schema_version?: number | null;
+};
+
+/**
+ * Upgrades a `daily_logs` row in memory (does not write it back). Throws
+ * when there is no migration path; use it before writing the row.
+ */
+export function migrateRow<T extends VersionedRow>(row: T): T {
+  if (row.extracted == null) return row;
+  const { extracted, version } = migrateExtracted(
+    row.extracted,
+    row.schema_version
+  );
+  return { ...row, extracted, schema_version: version } as T;
+}
+
+/**
+ * For reads: like `migrateRow`, but a row that can't be migrated comes back
+ * as stored, with `migration_error` set, instead of failing the whole list.
+ */
+export function upgradeRow<T extends VersionedRow>(
+  row: T
+): T & { migration_error?: string } {
+  try {
+    return migrateRow(row);
+  } catch (e) {
+    return {
+      ...row,
+      migration_error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
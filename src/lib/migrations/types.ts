@@ -0,0 +1,14 @@
+// src/lib/migrations/types.ts
+
+export type ExtractedJson = Record<string, unknown>;
+
+/** Upgrades an `extracted` payload from version `from` to `from + 1` */
+export type Migration = {
+  from: number;
+  description: string;
+  up(extracted: ExtractedJson): ExtractedJson;
+};
+
+export function isObject(x: unknown): x is ExtractedJson {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { v1ToV2 } from "./v1-to-v2";
+import v1BlankDay from "./fixtures/v1-blank-day.json";
+import v1FullDay from "./fixtures/v1-full-day.json";
+import v2BlankDay from "./fixtures/v2-blank-day.json";
+import v2FullDay from "./fixtures/v2-full-day.json";
+
+describe("v1ToV2.up", () => {
+  it("drops zero sentinels and empty strings", () => {
+    const out = v1ToV2.up(v1BlankDay);
+    for (const key of ["mood", "sleep_hours", "energy", "focus", "notes"]) {
+      expect(out).not.toHaveProperty(key);
+    }
+  });
+
+  it("removes work and health when nothing is left in them", () => {
+    const out = v1ToV2.up(v1BlankDay);
+    expect(out).not.toHaveProperty("work");
+    expect(out).not.toHaveProperty("health");
+  });
+
+  it("keeps false habits and reading_minutes: 0", () => {
+    expect(v1ToV2.up(v1BlankDay).habits).toEqual({
+      yoga: false,
+      workout: false,
+      reading_minutes: 0,
+      no_smoking: false,
+    });
+  });
+
+  it("keeps empty lists", () => {
+    const out = v1ToV2.up(v1BlankDay);
+    for (const key of ["highlights", "challenges", "gratitude"]) {
+      expect(out[key]).toEqual([]);
+    }
+  });
+
+  it("keeps a work task whether time_blocks are empty or missing", () => {
+    expect(
+      v1ToV2.up({ work: { top_task_done: "Release", time_blocks: [] } }).work
+    ).toEqual({ top_task_done: "Release" });
+    expect(v1ToV2.up({ work: { top_task_done: "Release" } }).work).toEqual({
+      top_task_done: "Release",
+    });
+  });
+
+  it("removes work with no task and empty or missing time_blocks", () => {
+    expect(
+      v1ToV2.up({ work: { top_task_done: "", time_blocks: [] } })
+    ).not.toHaveProperty("work");
+    expect(v1ToV2.up({ work: { top_task_done: "" } })).not.toHaveProperty(
+      "work"
+    );
+  });
+
+  it("keeps real values and only drops the sentinels beside them", () => {
+    expect(v1ToV2.up(v1FullDay)).toEqual(v2FullDay);
+  });
+
+  it("matches the blank-day fixture", () => {
+    expect(v1ToV2.up(v1BlankDay)).toEqual(v2BlankDay);
+  });
+
+  it("does not modify its input", () => {
+    const input = structuredClone(v1FullDay);
+    v1ToV2.up(input);
+    expect(input).toEqual(v1FullDay);
+  });
+});
@@ -0,0 +1,49 @@
+// src/lib/migrations/v1-to-v2.ts
+import { isObject, type ExtractedJson, type Migration } from "./types";
+
+/** Numbers the strict v1 schema forced the model to emit even when unmentioned */
+const ZERO_MEANS_MISSING = ["sleep_hours", "energy", "focus"];
+const ZERO_MEANS_MISSING_HEALTH = ["steps", "water_glasses", "calories"];
+
+function dropBlanks(obj: ExtractedJson, zeroKeys: string[]) {
+  const out: ExtractedJson = {};
+  for (const [k, v] of Object.entries(obj)) {
+    if (v === null || v === "") continue;
+    if (v === 0 && zeroKeys.includes(k)) continue;
+    out[k] = v;
+  }
+  return out;
+}
+
+/**
+ * v2: fields that were not mentioned are omitted instead of zero-filled.
+ * v1 rows carry `sleep_hours: 0`, `mood: ""`, `health.steps: 0`… for days
+ * where nothing was said, which charts then plot as real zeros.
+ */
+export const v1ToV2: Migration = {
+  from: 1,
+  description: "Omit unmentioned fields instead of zero/empty sentinels",
+  up(v1) {
+    const out = dropBlanks(v1, ZERO_MEANS_MISSING);
+
+    if (isObject(out.work)) {
+      const work = dropBlanks(out.work, []);
+      if (Array.isArray(work.time_blocks) && work.time_blocks.length === 0)
+        delete work.time_blocks;
+      if (Object.keys(work).length) out.work = work;
+      else delete out.work;
+    }
+
+    if (isObject(out.health)) {
+      const health = dropBlanks(out.health, ZERO_MEANS_MISSING_HEALTH);
+      if (Object.keys(health).length) out.health = health;
+      else delete out.health;
+    }
+
+    if (isObject(out.habits)) {
+      out.habits = dropBlanks(out.habits, []);
+    }
+
+    return { ...out, schema_version: 2 };
+  },
+};
@@ -0,0 +1,223 @@
+// src/lib/offline-queue.ts
+import { uploadFileName } from "@/lib/uploads";
+
+/**
+ * Finished recordings are kept in IndexedDB until `/api/process` accepts
+ * them, so a dropped connection or a reload doesn't lose them. Browser only.
+ * - pending   → waiting for the network (uploaded by `flushQueue`)
+ * - uploading → a request is in flight
+ * - failed    → the server refused it; retried only by hand
+ * - synced    → accepted as `job_id`; the audio is dropped, the row kept a week
+ */
+
+const DB_NAME = "voice-diary";
+const STORE = "recordings";
+const SYNCED_KEEP_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Fired on `window` whenever the queue changes */
+export const QUEUE_EVENT = "recording-queue";
+/** Background Sync tag; the service worker asks open pages to flush */
+export const SYNC_TAG = "upload-recordings";
+
+export type QueueStatus = "pending" | "uploading" | "failed" | "synced";
+
+export type QueuedRecording = {
+  id: string;
+  log_date: string;
+  tz: string;
+  content_type: string;
+  duration_sec: number;
+  /** null once synced */
+  audio: Blob | null;
+  status: QueueStatus;
+  attempts: number;
+  error: string | null;
+  job_id: string | null;
+  created_at: string;
+  synced_at: string | null;
+};
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function tx<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function put(rec: QueuedRecording) {
+  await tx("readwrite", (s) => s.put(rec));
+  window.dispatchEvent(new Event(QUEUE_EVENT));
+  return rec;
+}
+
+/** Newest first; synced rows older than a week are pruned on the way */
+export async function listRecordings(): Promise<QueuedRecording[]> {
+  const all = await tx<QueuedRecording[]>("readonly", (s) => s.getAll());
+  const cutoff = new Date(Date.now() - SYNCED_KEEP_MS).toISOString();
+  const old = all.filter((r) => r.synced_at && r.synced_at < cutoff);
+  for (const r of old) await tx("readwrite", (s) => s.delete(r.id));
+  return all
+    .filter((r) => !old.includes(r))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export async function enqueueRecording(input: {
+  audio: Blob;
+  log_date: string;
+  tz: string;
+  duration_sec: number;
+}) {
+  return put({
+    ...input,
+    id: crypto.randomUUID(),
+    content_type: input.audio.type || "audio/webm",
+    status: "pending",
+    attempts: 0,
+    error: null,
+    job_id: null,
+    created_at: new Date().toISOString(),
+    synced_at: null,
+  });
+}
+
+export async function discardRecording(id: string) {
+  await tx("readwrite", (s) => s.delete(id));
+  window.dispatchEvent(new Event(QUEUE_EVENT));
+}
+
+/** Asks the service worker to wake us when the connection is back */
+export async function requestBackgroundSync() {
+  try {
+    const reg = await navigator.serviceWorker?.getRegistration();
+    const sync = (
+      reg as
+        | (ServiceWorkerRegistration & {
+            sync?: { register(tag: string): Promise<void> };
+          })
+        | undefined
+    )?.sync;
+    await sync?.register(SYNC_TAG);
+  } catch {
+    // Not supported (or no worker yet): the `online` event still flushes
+  }
+}
+
+/** Uploads started by this page; an "uploading" row not in here was cut off by a reload */
+const inFlight = new Set<string>();
+
+/**
+ * Posts one recording to /api/process. A network failure leaves it pending;
+ * a response other than 2xx marks it failed with the server's error.
+ */
+export async function uploadRecording(
+  rec: QueuedRecording,
+  token: string,
+  opts: { streamId?: string } = {}
+): Promise<QueuedRecording> {
+  if (!rec.audio || inFlight.has(rec.id)) return rec;
+  inFlight.add(rec.id);
+  try {
+    return await upload(rec, rec.audio, token, opts);
+  } finally {
+    inFlight.delete(rec.id);
+  }
+}
+
+async function upload(
+  rec: QueuedRecording,
+  audio: Blob,
+  token: string,
+  opts: { streamId?: string }
+) {
+  await put({ ...rec, status: "uploading", attempts: rec.attempts + 1 });
+
+  const fd = new FormData();
+  fd.append("audio", audio, uploadFileName(rec.content_type));
+  fd.append("log_date", rec.log_date);
+  fd.append("tz", rec.tz);
+  if (opts.streamId) fd.append("stream_id", opts.streamId);
+
+  let res: Response;
+  try {
+    res = await fetch("/api/process", {
+      method: "POST",
+      body: fd,
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  } catch {
+    await requestBackgroundSync();
+    return put({
+      ...rec,
+      status: "pending",
+      attempts: rec.attempts + 1,
+      error: "Offline — waiting to upload",
+    });
+  }
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    return put({
+      ...rec,
+      status: "failed",
+      attempts: rec.attempts + 1,
+      error: json?.error || `Upload failed (${res.status})`,
+    });
+  }
+  return put({
+    ...rec,
+    audio: null,
+    status: "synced",
+    attempts: rec.attempts + 1,
+    error: null,
+    job_id: json.job_id,
+    synced_at: new Date().toISOString(),
+  });
+}
+
+let flushing: Promise<QueuedRecording[]> | null = null;
+
+/** Uploads every pending recording, oldest first; one flush at a time */
+export function flushQueue(token: string): Promise<QueuedRecording[]> {
+  flushing ??= (async () => {
+    const done: QueuedRecording[] = [];
+    try {
+      const pending = (await listRecordings())
+        .filter(
+          (r) =>
+            r.status === "pending" ||
+            (r.status === "uploading" && !inFlight.has(r.id))
+        )
+        .reverse();
+      for (const rec of pending) {
+        const next = await uploadRecording(rec, token);
+        done.push(next);
+        // Still offline: the rest would fail the same way
+        if (next.status === "pending") break;
+      }
+    } finally {
+      flushing = null;
+    }
+    return done;
+  })();
+  return flushing;
+}
@@ -0,0 +1,143 @@
+// src/lib/reextract.ts
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { Extracted } from "@/lib/extracted";
+import { extractWithFallback, getExtractor } from "@/lib/extract";
+import { habitsFor } from "@/lib/habits";
+import { mergeEntries } from "@/lib/merge";
+import { keepEdited } from "@/lib/edits";
+import { migrateRow } from "@/lib/migrations";
+import { extractionContextFor, syncTasks } from "@/lib/tasks";
+
+export type ReextractOptions = {
+  /** Replace hand-edited fields too (and forget that they were edited) */
+  overwrite?: boolean;
+};
+
+export type ReextractResult = {
+  id: string;
+  log_date: string;
+  extractor: string;
+  /** Fields kept from the user's edits */
+  kept: string[];
+  /** Set when the configured extractor failed for any entry */
+  fallback_reason?: string;
+};
+
+type DayRow = {
+  id: string;
+  log_date: string;
+  transcript: string | null;
+  extracted: Extracted | null;
+  schema_version: number | null;
+  edited_fields: string[] | null;
+  log_entries: { id: string; recorded_at: string; transcript: string | null }[];
+};
+
+/**
+ * Re-runs extraction on every stored transcript of a day with the user's
+ * current extractor and habits, then rebuilds the day's merged view.
+ */
+export async function reextractDay(
+  supabase: SupabaseClient,
+  user: User,
+  id: string,
+  opts: ReextractOptions = {}
+): Promise<ReextractResult | null> {
+  const { data, error } = await supabase
+    .from("daily_logs")
+    .select(
+      "id, log_date, transcript, extracted, schema_version, edited_fields, log_entries(id, recorded_at, transcript)"
+    )
+    .eq("id", id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const day = migrateRow(data as DayRow);
+
+  const extractor = getExtractor(user);
+  const habits = habitsFor(user);
+  const context = await extractionContextFor(supabase, user.id, day.log_date);
+  let usedExtractor: string = extractor.name;
+  let fallback_reason: string | undefined;
+
+  const entries = day.log_entries.filter((e) => e.transcript?.trim());
+  const fresh: { recorded_at: string; extracted: Extracted }[] = [];
+
+  if (entries.length) {
+    for (const e of entries) {
+      const r = await extractWithFallback(
+        e.transcript!,
+        extractor,
+        habits,
+        context
+      );
+      usedExtractor = r.extractor;
+      fallback_reason ??= r.fallback_reason;
+      const { error: entryErr } = await supabase
+        .from("log_entries")
+        .update({
+          extracted: r.extracted,
+          schema_version: r.extracted.schema_version,
+          extractor: r.extractor,
+        })
+        .eq("id", e.id);
+      if (entryErr) throw entryErr;
+      fresh.push({ recorded_at: e.recorded_at, extracted: r.extracted });
+    }
+  } else if (day.transcript?.trim()) {
+    // Days from before entries existed only have the joined transcript
+    const r = await extractWithFallback(
+      day.transcript,
+      extractor,
+      habits,
+      context
+    );
+    usedExtractor = r.extractor;
+    fallback_reason = r.fallback_reason;
+    fresh.push({ recorded_at: "", extracted: r.extracted });
+  } else {
+    throw new Error("No transcript to re-extract");
+  }
+
+  const edited = day.edited_fields ?? [];
+  const merged = mergeEntries(fresh);
+  const extracted =
+    opts.overwrite || !day.extracted
+      ? merged
+      : keepEdited(merged, day.extracted, edited);
+
+  const { error: saveErr } = await supabase
+    .from("daily_logs")
+    .update({
+      extracted,
+      schema_version: extracted.schema_version,
+      edited_fields: opts.overwrite ? [] : edited,
+    })
+    .eq("id", day.id);
+  if (saveErr) throw saveErr;
+  await syncTasks(supabase, user.id, { ...day, extracted });
+
+  return {
+    id: day.id,
+    log_date: day.log_date,
+    extractor: usedExtractor,
+    kept: opts.overwrite ? [] : edited,
+    ...(fallback_reason ? { fallback_reason } : {}),
+  };
+}
+
+/** Runs `fn` over `items` with at most `limit` calls in flight, in order of start */
+export async function forEachLimited<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+}
@@ -0,0 +1,31 @@
+// src/lib/reminders/email.ts
+import type { ReminderMessage } from "./types";
+
+const escape = (s: string) =>
+  s.replace(/[&<>"]/g, (c) => `&#${c.charCodeAt(0)};`);
+
+/** Sends through Resend's HTTP API (RESEND_API_KEY, REMINDER_EMAIL_FROM) */
+export async function sendEmail(to: string, message: ReminderMessage) {
+  const from = process.env.REMINDER_EMAIL_FROM;
+  if (!process.env.RESEND_API_KEY || !from) {
+    throw new Error("RESEND_API_KEY and REMINDER_EMAIL_FROM are required");
+  }
+
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from,
+      to: [to],
+      subject: message.title,
+      text: `${message.body}\n\n${message.url}`,
+      html: `<p>${escape(message.body)}</p><p><a href="${escape(
+        message.url
+      )}">Record today’s entry</a></p>`,
+    }),
+  });
+  if (!res.ok) throw new Error(`Email failed: ${await res.text()}`);
+}
@@ -0,0 +1,162 @@
+// src/lib/reminders/index.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { timeZoneFor } from "@/lib/dates";
+import { isDue } from "./schedule";
+import { sendEmail } from "./email";
+import { sendWebPush } from "./webpush";
+import { stubTransport } from "./stub";
+import type {
+  PushTarget,
+  Reminder,
+  ReminderMessage,
+  ReminderResult,
+  ReminderTransport,
+} from "./types";
+
+export * from "./types";
+export {
+  describeSchedule,
+  isDue,
+  localNow,
+  parseSchedule,
+  WINDOW_MINUTES,
+} from "./schedule";
+
+export const liveTransport: ReminderTransport = {
+  name: "live",
+  push: sendWebPush,
+  email: sendEmail,
+};
+
+/** REMINDER_TRANSPORT picks it; otherwise live in production, the stub in dev */
+export function getReminderTransport(): ReminderTransport {
+  const name =
+    process.env.REMINDER_TRANSPORT ||
+    (process.env.NODE_ENV === "production" ? "live" : "stub");
+  if (name === "live") return liveTransport;
+  if (name === "stub") return stubTransport;
+  throw new Error(`Unknown REMINDER_TRANSPORT: ${name}`);
+}
+
+function reminderMessage(date: string, baseUrl: string): ReminderMessage {
+  return {
+    title: "🎙️ Time for your diary",
+    body: `Nothing recorded for ${date} yet. A minute is enough.`,
+    url: `${baseUrl}/?log_date=${date}`,
+  };
+}
+
+/** Sends to every browser the user subscribed, pruning expired ones */
+async function deliverPush(
+  admin: SupabaseClient,
+  transport: ReminderTransport,
+  userId: string,
+  message: ReminderMessage
+): Promise<string | null> {
+  const { data, error } = await admin
+    .from("push_subscriptions")
+    .select("endpoint, p256dh, auth")
+    .eq("user_id", userId);
+  if (error) throw error;
+  if (!data?.length) return "No push subscription";
+
+  let sent = 0;
+  for (const target of data as PushTarget[]) {
+    if ((await transport.push(target, message)) === "sent") {
+      sent++;
+    } else {
+      await admin
+        .from("push_subscriptions")
+        .delete()
+        .eq("user_id", userId)
+        .eq("endpoint", target.endpoint);
+    }
+  }
+  return sent ? null : "Every push subscription has expired";
+}
+
+/**
+ * One cron tick: every enabled reminder that is due in its user's timezone
+ * is sent, unless that day already has a `daily_logs` row. `now` can be
+ * passed to try schedules offline with the stub transport.
+ */
+export async function runReminders(
+  admin: SupabaseClient,
+  opts: { now?: Date; transport?: ReminderTransport; baseUrl: string }
+): Promise<ReminderResult[]> {
+  const now = opts.now ?? new Date();
+  const transport = opts.transport ?? getReminderTransport();
+
+  const { data, error } = await admin
+    .from("reminders")
+    .select("*")
+    .eq("enabled", true);
+  if (error) throw error;
+
+  const byUser = new Map<string, Reminder[]>();
+  for (const r of (data ?? []) as Reminder[]) {
+    byUser.set(r.user_id, [...(byUser.get(r.user_id) ?? []), r]);
+  }
+
+  const results: ReminderResult[] = [];
+  for (const [userId, reminders] of byUser) {
+    const { data: userData } = await admin.auth.admin.getUserById(userId);
+    const user = userData?.user;
+    const timeZone = timeZoneFor(user);
+
+    for (const r of reminders) {
+      const result = (status: ReminderResult["status"], reason?: string) =>
+        results.push({
+          reminder_id: r.id,
+          user_id: userId,
+          channel: r.channel,
+          status,
+          ...(reason ? { reason } : {}),
+        });
+
+      const due = isDue(r, timeZone, now);
+      if (!due.due) {
+        result("skipped", due.reason);
+        continue;
+      }
+
+      try {
+        const { data: logged, error: logErr } = await admin
+          .from("daily_logs")
+          .select("id")
+          .eq("user_id", userId)
+          .eq("log_date", due.date)
+          .maybeSingle();
+        if (logErr) throw logErr;
+        if (logged) {
+          result("skipped", "Already logged today");
+          continue;
+        }
+
+        const message = reminderMessage(due.date, opts.baseUrl);
+        let skipped: string | null = null;
+        if (r.channel === "push") {
+          skipped = await deliverPush(admin, transport, userId, message);
+        } else if (user?.email) {
+          await transport.email(user.email, message);
+        } else {
+          skipped = "No email address";
+        }
+        if (skipped) {
+          result("skipped", skipped);
+          continue;
+        }
+
+        const { error: markErr } = await admin
+          .from("reminders")
+          .update({ last_sent_on: due.date })
+          .eq("id", r.id);
+        if (markErr) throw markErr;
+        result("sent");
+      } catch (e) {
+        result("failed", e instanceof Error ? e.message : String(e));
+      }
+    }
+  }
+  return results;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { isDue, parseSchedule, WINDOW_MINUTES } from "./schedule";
+import type { Reminder } from "./types";
+
+describe("parseSchedule", () => {
+  it("reads every day and daily", () => {
+    const all = [1, 2, 3, 4, 5, 6, 7];
+    expect(parseSchedule("21:30 every day")).toEqual({
+      ok: true,
+      time: "21:30",
+      days: all,
+    });
+    expect(parseSchedule("7:00 daily")).toEqual({
+      ok: true,
+      time: "07:00",
+      days: all,
+    });
+    expect(parseSchedule("21:30")).toEqual({
+      ok: true,
+      time: "21:30",
+      days: all,
+    });
+  });
+
+  it("reads weekdays and weekends", () => {
+    expect(parseSchedule("21:30 on weekdays")).toEqual({
+      ok: true,
+      time: "21:30",
+      days: [1, 2, 3, 4, 5],
+    });
+    expect(parseSchedule("09:15 weekends")).toEqual({
+      ok: true,
+      time: "09:15",
+      days: [6, 7],
+    });
+  });
+
+  it("reads named days in any order", () => {
+    expect(parseSchedule("20:00 on Fri, mon and Wednesday")).toEqual({
+      ok: true,
+      time: "20:00",
+      days: [1, 3, 5],
+    });
+    expect(parseSchedule("20:00 every sunday")).toEqual({
+      ok: true,
+      time: "20:00",
+      days: [7],
+    });
+  });
+
+  it("rejects a bad time or day", () => {
+    expect(parseSchedule("on weekdays").ok).toBe(false);
+    expect(parseSchedule("25:00 daily").ok).toBe(false);
+    expect(parseSchedule("21:30 on funday")).toEqual({
+      ok: false,
+      error: "Unknown day “funday”",
+    });
+  });
+});
+
+describe("isDue", () => {
+  const reminder = (r: Partial<Reminder> = {}): Reminder => ({
+    id: "r1",
+    user_id: "u1",
+    time: "21:30",
+    days: [1, 2, 3, 4, 5, 6, 7],
+    channel: "push",
+    enabled: true,
+    last_sent_on: null,
+    created_at: "2026-10-01T00:00:00Z",
+    ...r,
+  });
+  // 2026-10-19 is a Monday
+  const at = (iso: string) => new Date(iso);
+
+  it("is due from its time until the window closes", () => {
+    expect(isDue(reminder(), "UTC", at("2026-10-19T21:29:00Z"))).toEqual({
+      due: false,
+      reason: "Not time yet",
+    });
+    expect(isDue(reminder(), "UTC", at("2026-10-19T21:30:00Z"))).toEqual({
+      due: true,
+      date: "2026-10-19",
+    });
+    const closes = new Date(
+      at("2026-10-19T21:30:00Z").getTime() + WINDOW_MINUTES * 60_000
+    );
+    expect(isDue(reminder(), "UTC", closes).due).toBe(true);
+    expect(
+      isDue(reminder(), "UTC", new Date(closes.getTime() + 60_000))
+    ).toEqual({ due: false, reason: "Window passed" });
+  });
+
+  it("is sent once a day", () => {
+    expect(
+      isDue(
+        reminder({ last_sent_on: "2026-10-19" }),
+        "UTC",
+        at("2026-10-19T21:35:00Z")
+      )
+    ).toEqual({ due: false, reason: "Already sent today" });
+    expect(
+      isDue(
+        reminder({ last_sent_on: "2026-10-18" }),
+        "UTC",
+        at("2026-10-19T21:35:00Z")
+      ).due
+    ).toBe(true);
+  });
+
+  it("skips days it isn't scheduled on and disabled reminders", () => {
+    const weekends = reminder({ days: [6, 7] });
+    expect(isDue(weekends, "UTC", at("2026-10-19T21:35:00Z"))).toEqual({
+      due: false,
+      reason: "Not scheduled today",
+    });
+    expect(
+      isDue(reminder({ enabled: false }), "UTC", at("2026-10-19T21:35:00Z"))
+    ).toEqual({ due: false, reason: "Disabled" });
+  });
+
+  it("uses the user's timezone for the time, day and date", () => {
+    // 16:05Z is 21:35 on Monday in Asia/Kolkata
+    expect(
+      isDue(reminder(), "Asia/Kolkata", at("2026-10-19T16:05:00Z"))
+    ).toEqual({ due: true, date: "2026-10-19" });
+    expect(isDue(reminder(), "UTC", at("2026-10-19T16:05:00Z")).due).toBe(
+      false
+    );
+    // 01:35Z Tuesday is still 21:35 on Monday in New York
+    const mondays = reminder({ days: [1] });
+    expect(
+      isDue(mondays, "America/New_York", at("2026-10-20T01:35:00Z"))
+    ).toEqual({ due: true, date: "2026-10-19" });
+  });
+});
@@ -0,0 +1,103 @@
+// src/lib/reminders/schedule.ts
+import { todayIn } from "@/lib/dates";
+import type { Reminder } from "./types";
+
+/**
+ * Schedules read like "21:30 on weekdays", "07:00 daily" or
+ * "20:00 on mon, wed, fri". A reminder is due once its time has passed on
+ * one of its days in the user's timezone, for up to WINDOW_MINUTES, so a
+ * cron that runs every few minutes (or misses a run) still sends it once.
+ */
+
+export const WINDOW_MINUTES = Number(process.env.REMINDER_WINDOW_MINUTES || 60);
+
+const DAY_NAMES = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+const DAY_SETS: Record<string, number[]> = {
+  daily: [1, 2, 3, 4, 5, 6, 7],
+  "every day": [1, 2, 3, 4, 5, 6, 7],
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [6, 7],
+};
+
+const TIME_RE = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export function parseSchedule(
+  text: string
+): { ok: true; time: string; days: number[] } | { ok: false; error: string } {
+  const m = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2}:\d{2})\s*(.*)$/);
+  const t = m?.[1].match(TIME_RE);
+  if (!m || !t) return { ok: false, error: "Start with a time, e.g. 21:30" };
+  const time = `${t[1].padStart(2, "0")}:${t[2]}`;
+
+  // "every day" is a set of its own, so look it up before the prefix goes
+  const after = m[2].trim() || "daily";
+  if (DAY_SETS[after]) return { ok: true, time, days: DAY_SETS[after] };
+  const rest = after.replace(/^(?:on|every)\s+/, "");
+  if (DAY_SETS[rest]) return { ok: true, time, days: DAY_SETS[rest] };
+
+  const days = new Set<number>();
+  for (const part of rest.split(/\s*(?:,|\band\b)\s*/).filter(Boolean)) {
+    const i = DAY_NAMES.indexOf(part.slice(0, 3));
+    if (i < 0) return { ok: false, error: `Unknown day “${part}”` };
+    days.add(i + 1);
+  }
+  return { ok: true, time, days: [...days].sort((a, b) => a - b) };
+}
+
+/** "21:30 on weekdays" */
+export function describeSchedule(r: Pick<Reminder, "time" | "days">) {
+  const key = [...r.days].sort((a, b) => a - b).join();
+  const named = Object.entries(DAY_SETS).find(
+    ([name, days]) => name !== "every day" && days.join() === key
+  )?.[0];
+  if (named === "daily") return `${r.time} daily`;
+  const days = named ?? r.days.map((d) => DAY_NAMES[d - 1]).join(", ");
+  return `${r.time} on ${days}`;
+}
+
+/** The user's local date, HH:MM time and ISO weekday at `now` */
+export function localNow(timeZone: string, now: Date = new Date()) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, p.value])
+  );
+  return {
+    date: todayIn(timeZone, now),
+    time: `${parts.hour}:${parts.minute}`,
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()) + 1,
+  };
+}
+
+const minutes = (hhmm: string) =>
+  Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3, 5));
+
+/** Due now, and not yet sent today; the reason when it isn't */
+export function isDue(
+  r: Reminder,
+  timeZone: string,
+  now: Date = new Date()
+): { due: true; date: string } | { due: false; reason: string } {
+  if (!r.enabled) return { due: false, reason: "Disabled" };
+  const local = localNow(timeZone, now);
+  if (!r.days.includes(local.weekday)) {
+    return { due: false, reason: "Not scheduled today" };
+  }
+  const late = minutes(local.time) - minutes(r.time);
+  if (late < 0) return { due: false, reason: "Not time yet" };
+  if (late > WINDOW_MINUTES) return { due: false, reason: "Window passed" };
+  if (r.last_sent_on === local.date) {
+    return { due: false, reason: "Already sent today" };
+  }
+  return { due: true, date: local.date };
+}
@@ -0,0 +1,33 @@
+// src/lib/reminders/stub.ts
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { ReminderMessage, ReminderTransport } from "./types";
+
+/**
+ * Records each delivery instead of sending it: one JSON line appended to
+ * REMINDER_STUB_FILE, or logged to the console when that isn't set.
+ */
+async function record(entry: Record<string, unknown>) {
+  const line = JSON.stringify({ at: new Date().toISOString(), ...entry });
+  const file = process.env.REMINDER_STUB_FILE;
+  if (!file) {
+    console.log(`[reminders] ${line}`);
+    return;
+  }
+  const full = path.resolve(file);
+  await mkdir(path.dirname(full), { recursive: true });
+  await appendFile(full, line + "\n");
+}
+
+export const stubTransport: ReminderTransport = {
+  name: "stub",
+
+  async push(target, message: ReminderMessage) {
+    await record({ channel: "push", to: target.endpoint, message });
+    return "sent";
+  },
+
+  async email(to, message) {
+    await record({ channel: "email", to, message });
+  },
+};
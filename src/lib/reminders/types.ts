@@ -0,0 +1,56 @@
+// src/lib/reminders/types.ts
+
+export const REMINDER_CHANNELS = ["push", "email"] as const;
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export function isReminderChannel(x: unknown): x is ReminderChannel {
+  return REMINDER_CHANNELS.includes(x as ReminderChannel);
+}
+
+export type TransportName = "live" | "stub";
+
+/** A stored schedule: `time` (HH:MM) on `days` (1 = Monday … 7 = Sunday) */
+export type Reminder = {
+  id: string;
+  user_id: string;
+  time: string;
+  days: number[];
+  channel: ReminderChannel;
+  enabled: boolean;
+  /** The user's local date it last went out, so it fires once a day */
+  last_sent_on: string | null;
+  created_at: string;
+};
+
+/** A browser's PushSubscription, as stored in `push_subscriptions` */
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+export type ReminderMessage = {
+  title: string;
+  body: string;
+  /** Opened when the notification or email link is clicked */
+  url: string;
+};
+
+/** How reminders leave the server. The stub records instead of sending. */
+export interface ReminderTransport {
+  readonly name: TransportName;
+  /** "expired" when the push service says the subscription is gone */
+  push(
+    target: PushTarget,
+    message: ReminderMessage
+  ): Promise<"sent" | "expired">;
+  email(to: string, message: ReminderMessage): Promise<void>;
+}
+
+export type ReminderResult = {
+  reminder_id: string;
+  user_id: string;
+  channel: ReminderChannel;
+  status: "sent" | "skipped" | "failed";
+  reason?: string;
+};
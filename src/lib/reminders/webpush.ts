@@ -0,0 +1,131 @@
+// src/lib/reminders/webpush.ts
+import {
+  createECDH,
+  createPrivateKey,
+  createCipheriv,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from "node:crypto";
+import type { PushTarget, ReminderMessage } from "./types";
+
+/**
+ * Web Push without a client library: the payload is encrypted for the
+ * browser's keys (RFC 8291, aes128gcm) and the request is signed with the
+ * server's VAPID key pair (RFC 8292). Keys are base64url, as printed by
+ * `npx web-push generate-vapid-keys`.
+ */
+
+const TTL_SECONDS = 60 * 60 * 12;
+const RECORD_SIZE = 4096;
+
+const b64url = (buf: Buffer | Uint8Array) =>
+  Buffer.from(buf).toString("base64url");
+
+function vapidKeys() {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    throw new Error(
+      "NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are required"
+    );
+  }
+  return { publicKey, privateKey };
+}
+
+/** An ES256 JWT for the push service's origin */
+function vapidAuthorization(endpoint: string) {
+  const { publicKey, privateKey } = vapidKeys();
+  const pub = Buffer.from(publicKey, "base64url");
+  const key = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: b64url(pub.subarray(1, 33)),
+      y: b64url(pub.subarray(33, 65)),
+      d: privateKey,
+    },
+    format: "jwk",
+  });
+
+  const header = b64url(
+    Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" }))
+  );
+  const claims = b64url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + TTL_SECONDS,
+        sub: process.env.VAPID_SUBJECT || "mailto:reminders@localhost",
+      })
+    )
+  );
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `vapid t=${header}.${claims}.${b64url(signature)}, k=${publicKey}`;
+}
+
+/** One aes128gcm record: salt, record size, our public key, ciphertext */
+export function encryptPayload(target: PushTarget, plaintext: Buffer) {
+  const uaPublic = Buffer.from(target.p256dh, "base64url");
+  const authSecret = Buffer.from(target.auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  const asPublic = ecdh.generateKeys();
+  const shared = ecdh.computeSecret(uaPublic);
+
+  const ikm = Buffer.from(
+    hkdfSync(
+      "sha256",
+      shared,
+      authSecret,
+      Buffer.concat([Buffer.from("WebPush: info\0"), uaPublic, asPublic]),
+      32
+    )
+  );
+  const salt = randomBytes(16);
+  const cek = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: aes128gcm\0", 16)
+  );
+  const nonce = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: nonce\0", 12)
+  );
+
+  const cipher = createCipheriv("aes-128-gcm", cek, nonce);
+  const body = Buffer.concat([
+    // 0x02 marks the last (and only) record
+    cipher.update(Buffer.concat([plaintext, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+  return Buffer.concat([header, asPublic, body]);
+}
+
+export async function sendWebPush(
+  target: PushTarget,
+  message: ReminderMessage
+): Promise<"sent" | "expired"> {
+  const res = await fetch(target.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: vapidAuthorization(target.endpoint),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(TTL_SECONDS),
+      Urgency: "normal",
+    },
+    body: encryptPayload(target, Buffer.from(JSON.stringify(message))),
+  });
+  if (res.status === 404 || res.status === 410) return "expired";
+  if (!res.ok) {
+    throw new Error(`Push failed (${res.status}): ${await res.text()}`);
+  }
+  return "sent";
+}
@@ -0,0 +1,82 @@
+// src/lib/revisions.ts
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { Extracted } from "@/lib/extracted";
+import { addEditedFields, diffFields, type FieldChange } from "@/lib/edits";
+import { LATEST_SCHEMA_VERSION, migrateRow } from "@/lib/migrations";
+import { syncTasks } from "@/lib/tasks";
+
+export type RevisionSource = "edit" | "revert";
+
+export type LogRevision = {
+  id: string;
+  daily_log_id: string;
+  user_id: string;
+  author_id: string;
+  source: RevisionSource;
+  created_at: string;
+  before: Extracted | null;
+  after: Extracted;
+  diff: FieldChange[];
+};
+
+/**
+ * Replaces a day's `extracted` as `user` and records the change in
+ * `log_revisions`. Returns null when the day doesn't exist or isn't theirs.
+ * The revision is written first, so no edit is stored without its history.
+ */
+export async function saveRevision(
+  supabase: SupabaseClient,
+  user: User,
+  id: string,
+  next: Extracted,
+  source: RevisionSource = "edit"
+) {
+  const { data: current, error: readErr } = await supabase
+    .from("daily_logs")
+    .select("id, extracted, schema_version, edited_fields")
+    .eq("id", id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (readErr) throw readErr;
+  if (!current) return null;
+
+  const before = (migrateRow(current).extracted ?? null) as Extracted | null;
+  const after = { ...next, schema_version: LATEST_SCHEMA_VERSION };
+  const diff = diffFields(before ?? {}, after);
+
+  const { data: revision, error: revErr } = await supabase
+    .from("log_revisions")
+    .insert({
+      daily_log_id: id,
+      user_id: user.id,
+      author_id: user.id,
+      source,
+      before,
+      after,
+      diff,
+    })
+    .select()
+    .single();
+  if (revErr) throw revErr;
+
+  const { data: row, error } = await supabase
+    .from("daily_logs")
+    .update({
+      extracted: after,
+      schema_version: LATEST_SCHEMA_VERSION,
+      // Remember which fields were corrected by hand so re-extraction keeps them
+      edited_fields: addEditedFields(
+        current.edited_fields,
+        diff.map((c) => c.path)
+      ),
+    })
+    .eq("id", id)
+    .select()
+    .single();
+  // History is append-only: if this fails, the revision stays as an
+  // attempted edit, which is safer than an edit with no history
+  if (error) throw error;
+  await syncTasks(supabase, user.id, row);
+
+  return { row, revision: revision as LogRevision };
+}
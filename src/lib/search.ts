@@ -0,0 +1,31 @@
+// src/lib/search.ts
+
+/** Part of a search snippet; `hit` parts matched the query */
+export type SnippetPart = { text: string; hit: boolean };
+
+export type SearchResult = {
+  id: string;
+  log_date: string;
+  rank: number;
+  snippet: SnippetPart[];
+};
+
+// Markers the `search_logs` function wraps matches in (see its migration)
+const START = "\u0002";
+const STOP = "\u0003";
+
+/** "…a \x02job\x03 offer…" → [{ "…a ", false }, { "job", true }, { " offer…", false }] */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const chunk of snippet.split(START)) {
+    const stop = chunk.indexOf(STOP);
+    if (stop === -1) {
+      if (chunk) parts.push({ text: chunk, hit: false });
+      continue;
+    }
+    parts.push({ text: chunk.slice(0, stop), hit: true });
+    const rest = chunk.slice(stop + 1);
+    if (rest) parts.push({ text: rest, hit: false });
+  }
+  return parts;
+}
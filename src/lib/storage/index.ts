@@ -0,0 +1,42 @@
+// src/lib/storage/index.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { localAudioStorage } from "./local";
+import { supabaseStorage } from "./supabase";
+import type { AudioStorage } from "./types";
+
+export type { AudioStorage, AudioStorageName } from "./types";
+
+/** Signed URLs are stored on rows, so they are long-lived (default: 1 year) */
+export const AUDIO_URL_TTL_SECONDS = Number(
+  process.env.AUDIO_URL_TTL_SECONDS || 60 * 60 * 24 * 365
+);
+
+/** AUDIO_STORAGE picks the adapter; otherwise Supabase in production, disk in dev */
+export function getAudioStorage(supabase: SupabaseClient): AudioStorage {
+  const name =
+    process.env.AUDIO_STORAGE ||
+    (process.env.NODE_ENV === "production" ? "supabase" : "local");
+  if (name === "supabase") return supabaseStorage(supabase);
+  if (name === "local") return localAudioStorage;
+  throw new Error(`Unknown AUDIO_STORAGE: ${name}`);
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+};
+
+/** `<user_id>/<log_date>/<uuid>.<ext>` — the user id prefix is what bucket policies check */
+export function audioPath(
+  userId: string,
+  logDate: string,
+  contentType: string
+) {
+  const ext = EXTENSIONS[contentType.split(";")[0].trim()] ?? "bin";
+  return `${userId}/${logDate}/${crypto.randomUUID()}.${ext}`;
+}
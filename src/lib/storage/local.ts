@@ -0,0 +1,73 @@
+// src/lib/storage/local.ts
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AudioStorage } from "./types";
+
+/** Files under AUDIO_DIR (default ./.data/audio), served by /api/audio */
+export function localRoot() {
+  return path.resolve(process.env.AUDIO_DIR || ".data/audio");
+}
+
+function secret() {
+  return process.env.AUDIO_URL_SECRET || "dev-only-audio-secret";
+}
+
+function sign(relPath: string, expires: number) {
+  return createHmac("sha256", secret())
+    .update(`${relPath}:${expires}`)
+    .digest("base64url");
+}
+
+/** Resolves a storage path inside the root, refusing `..` escapes */
+export function resolveLocalPath(relPath: string) {
+  const root = localRoot();
+  const full = path.resolve(root, relPath);
+  if (!full.startsWith(root + path.sep)) throw new Error("Invalid audio path");
+  return full;
+}
+
+export function verifyLocalUrl(relPath: string, expires: number, sig: string) {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+  const expected = Buffer.from(sign(relPath, expires));
+  const given = Buffer.from(sig);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+export function readLocalAudio(relPath: string) {
+  return readFile(resolveLocalPath(relPath));
+}
+
+export const localAudioStorage: AudioStorage = {
+  name: "local",
+
+  async put(relPath, bytes) {
+    const full = resolveLocalPath(relPath);
+    await mkdir(path.dirname(full), { recursive: true });
+    await writeFile(full, Buffer.from(bytes), { flag: "wx" });
+  },
+
+  async get(relPath) {
+    const buf = await readLocalAudio(relPath);
+    return buf.buffer.slice(
+      buf.byteOffset,
+      buf.byteOffset + buf.byteLength
+    ) as ArrayBuffer;
+  },
+
+  async signedUrl(relPath, ttlSeconds) {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const qs = new URLSearchParams({
+      exp: String(expires),
+      sig: sign(relPath, expires),
+    });
+    const encoded = relPath.split("/").map(encodeURIComponent).join("/");
+    return `/api/audio/${encoded}?${qs}`;
+  },
+
+  async remove(paths) {
+    await Promise.all(
+      paths.map((p) => rm(resolveLocalPath(p), { force: true }))
+    );
+  },
+};
@@ -0,0 +1,45 @@
+// src/lib/storage/supabase.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AudioStorage } from "./types";
+
+/** Supabase Storage, accessed as the caller so bucket policies apply */
+export function supabaseStorage(supabase: SupabaseClient): AudioStorage {
+  const bucket = () =>
+    supabase.storage.from(process.env.AUDIO_BUCKET || "audio");
+
+  return {
+    name: "supabase",
+
+    async put(path, bytes, contentType) {
+      const { error } = await bucket().upload(path, bytes, {
+        contentType,
+        upsert: false,
+      });
+      if (error) throw new Error(`Audio upload failed: ${error.message}`);
+    },
+
+    async get(path) {
+      const { data, error } = await bucket().download(path);
+      if (error || !data) {
+        throw new Error(
+          `Audio download failed: ${error?.message ?? "no data"}`
+        );
+      }
+      return data.arrayBuffer();
+    },
+
+    async signedUrl(path, ttlSeconds) {
+      const { data, error } = await bucket().createSignedUrl(path, ttlSeconds);
+      if (error || !data) {
+        throw new Error(`Audio URL failed: ${error?.message ?? "no data"}`);
+      }
+      return data.signedUrl;
+    },
+
+    async remove(paths) {
+      if (!paths.length) return;
+      const { error } = await bucket().remove(paths);
+      if (error) throw new Error(`Audio delete failed: ${error.message}`);
+    },
+  };
+}
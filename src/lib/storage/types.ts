@@ -0,0 +1,13 @@
+// src/lib/storage/types.ts
+
+export type AudioStorageName = "supabase" | "local";
+
+/** Where uploaded recordings live. Paths are `<user_id>/<log_date>/<file>`. */
+export interface AudioStorage {
+  readonly name: AudioStorageName;
+  put(path: string, bytes: ArrayBuffer, contentType: string): Promise<void>;
+  get(path: string): Promise<ArrayBuffer>;
+  /** A URL the browser can play without sending an Authorization header */
+  signedUrl(path: string, ttlSeconds: number): Promise<string>;
+  remove(paths: string[]): Promise<void>;
+}
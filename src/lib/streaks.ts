@@ -0,0 +1,107 @@
+// src/lib/streaks.ts
+import type { HabitDefinition } from "@/lib/habits";
+import { addDays, daysBetween } from "@/lib/dates";
+import type { DayRow } from "@/lib/metrics";
+
+/**
+ * Streaks and completion rates per habit. A day counts as done when a yes/no
+ * habit is true or a numeric habit is above zero; a day with no log counts as
+ * not done. Today only extends the current streak — it never breaks it, since
+ * the day isn't over yet.
+ */
+
+export type PeriodCompletion = {
+  /** Monday of the week, or yyyy-mm for months */
+  period: string;
+  done: number;
+  /** Days of the period inside the range (and not after today) */
+  days: number;
+  pct: number;
+};
+
+export type HabitStreak = {
+  key: string;
+  current: number;
+  longest: number;
+  /** When the longest streak ended (yyyy-mm-dd) */
+  longest_end: string | null;
+  weeks: PeriodCompletion[];
+  months: PeriodCompletion[];
+};
+
+export function isDone(def: HabitDefinition, value: unknown) {
+  if (def.type === "boolean") return value === true;
+  return typeof value === "number" && value > 0;
+}
+
+/** Monday of the week `date` falls in */
+export function weekStart(date: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+const monthOf = (date: string) => date.slice(0, 7);
+
+function completion(
+  done: Set<string>,
+  from: string,
+  to: string,
+  periodOf: (date: string) => string
+): PeriodCompletion[] {
+  const periods = new Map<string, PeriodCompletion>();
+  for (let i = 0; i <= daysBetween(from, to); i++) {
+    const date = addDays(from, i);
+    const key = periodOf(date);
+    const p = periods.get(key) ?? { period: key, done: 0, days: 0, pct: 0 };
+    p.days++;
+    if (done.has(date)) p.done++;
+    periods.set(key, p);
+  }
+  return [...periods.values()].map((p) => ({
+    ...p,
+    pct: Math.round((p.done / p.days) * 100),
+  }));
+}
+
+/** Streaks for `def` over `from`–`today`, from the rows loaded for that range */
+export function habitStreak(
+  rows: DayRow[],
+  def: HabitDefinition,
+  from: string,
+  today: string
+): HabitStreak {
+  const done = new Set(
+    rows
+      .filter((r) => isDone(def, r.extracted?.habits?.[def.key]))
+      .map((r) => r.log_date)
+  );
+
+  let current = 0;
+  let day = done.has(today) ? today : addDays(today, -1);
+  while (done.has(day) && day >= from) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  let longestEnd: string | null = null;
+  let run = 0;
+  for (let i = 0; i <= daysBetween(from, today); i++) {
+    const date = addDays(from, i);
+    run = done.has(date) ? run + 1 : 0;
+    if (run > longest) {
+      longest = run;
+      longestEnd = date;
+    }
+  }
+
+  return {
+    key: def.key,
+    current,
+    longest,
+    longest_end: longestEnd,
+    weeks: completion(done, from, today, weekStart),
+    months: completion(done, from, today, monthOf),
+  };
+}
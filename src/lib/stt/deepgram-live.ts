@@ -0,0 +1,95 @@
+// src/lib/stt/deepgram-live.ts
+import type { StreamingSttProvider } from "./types";
+
+const DEFAULT_MODEL = "nova-2";
+const FINISH_TIMEOUT_MS = 10_000;
+
+type LiveResult = {
+  type?: string;
+  is_final?: boolean;
+  channel?: { alternatives?: { transcript?: string }[] };
+};
+
+/**
+ * Deepgram's live endpoint over a WebSocket. Needs a runtime with a global
+ * WebSocket client (Node 22+).
+ */
+export const deepgramLiveProvider: StreamingSttProvider = {
+  name: "deepgram",
+
+  open({ onPartial }) {
+    if (typeof WebSocket === "undefined") {
+      throw new Error("Deepgram streaming needs a runtime with WebSocket");
+    }
+    const model = process.env.DEEPGRAM_MODEL || DEFAULT_MODEL;
+    const ws = new WebSocket(
+      `wss://api.deepgram.com/v1/listen?model=${encodeURIComponent(
+        model
+      )}&smart_format=true&interim_results=true`,
+      ["token", process.env.DEEPGRAM_API_KEY!]
+    );
+
+    const finals: string[] = [];
+    let interim = "";
+    let failure: Error | null = null;
+    const pending: Uint8Array[] = [];
+    const text = () => [...finals, interim].filter(Boolean).join(" ").trim();
+
+    const closed = new Promise<void>((resolve) => {
+      ws.addEventListener("close", () => resolve());
+    });
+
+    ws.addEventListener("open", () => {
+      for (const chunk of pending.splice(0)) ws.send(chunk);
+    });
+    ws.addEventListener("error", () => {
+      failure = new Error("Deepgram streaming connection failed");
+    });
+    ws.addEventListener("message", (ev) => {
+      let msg: LiveResult;
+      try {
+        msg = JSON.parse(String(ev.data));
+      } catch {
+        return;
+      }
+      if (msg.type !== "Results") return;
+      const said = msg.channel?.alternatives?.[0]?.transcript?.trim() ?? "";
+      if (msg.is_final) {
+        if (said) finals.push(said);
+        interim = "";
+      } else {
+        interim = said;
+      }
+      onPartial(text());
+    });
+
+    return {
+      write(chunk) {
+        if (ws.readyState === WebSocket.OPEN) ws.send(chunk);
+        else if (ws.readyState === WebSocket.CONNECTING) pending.push(chunk);
+      },
+      async finish() {
+        if (ws.readyState === WebSocket.CONNECTING) {
+          await Promise.race([
+            new Promise((r) => ws.addEventListener("open", r)),
+            closed,
+          ]);
+        }
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ type: "CloseStream" }));
+        }
+        // Deepgram flushes its last results and then closes the socket
+        await Promise.race([
+          closed,
+          new Promise((r) => setTimeout(r, FINISH_TIMEOUT_MS)),
+        ]);
+        if (failure && !finals.length) throw failure;
+        interim = "";
+        return finals.join(" ").trim();
+      },
+      abort() {
+        ws.close();
+      },
+    };
+  },
+};
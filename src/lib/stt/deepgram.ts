@@ -0,0 +1,35 @@
+// src/lib/stt/deepgram.ts
+import type { SttProvider, TranscribeInput } from "./types";
+
+const DEFAULT_MODEL = "nova-2";
+
+export const deepgramProvider: SttProvider = {
+  name: "deepgram",
+
+  async transcribe({ bytes, contentType }: TranscribeInput) {
+    const body = new Blob([bytes], {
+      type: contentType || "application/octet-stream",
+    });
+
+    const model = process.env.DEEPGRAM_MODEL || DEFAULT_MODEL;
+    const res = await fetch(
+      `https://api.deepgram.com/v1/listen?model=${encodeURIComponent(
+        model
+      )}&smart_format=true`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Token ${process.env.DEEPGRAM_API_KEY!}`,
+          "Content-Type": body.type || "application/octet-stream",
+        },
+        body,
+      }
+    );
+    if (!res.ok) throw new Error(`Deepgram failed: ${await res.text()}`);
+
+    const j = await res.json();
+    const transcript: string =
+      j?.results?.channels?.[0]?.alternatives?.[0]?.transcript?.trim() ?? "";
+    return transcript;
+  },
+};
@@ -0,0 +1,23 @@
+// src/lib/stt/fake.ts
+import type { SttProvider } from "./types";
+
+const DEFAULT_TRANSCRIPT =
+  "Slept about seven and a half hours. Energy was around six, focus seven. " +
+  "Did yoga in the morning and read for twenty minutes. " +
+  "Grateful for a quiet evening. Tomorrow I want to finish the report first.";
+
+/**
+ * Deterministic provider for tests and offline UI work.
+ * Returns FAKE_STT_TRANSCRIPT (or a canned entry) regardless of the audio.
+ */
+export const fakeProvider: SttProvider = {
+  name: "fake",
+
+  async transcribe() {
+    return fakeTranscript();
+  },
+};
+
+export function fakeTranscript() {
+  return (process.env.FAKE_STT_TRANSCRIPT ?? DEFAULT_TRANSCRIPT).trim();
+}
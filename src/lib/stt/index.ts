@@ -0,0 +1,68 @@
+// src/lib/stt/index.ts
+import type { User } from "@supabase/supabase-js";
+import { deepgramProvider } from "./deepgram";
+import { deepgramLiveProvider } from "./deepgram-live";
+import { fakeProvider } from "./fake";
+import { localProvider } from "./local";
+import { mockStreamingProvider } from "./mock-stream";
+import type {
+  SttProvider,
+  SttProviderName,
+  StreamingProviderName,
+  StreamingSttProvider,
+} from "./types";
+
+export type {
+  SttProvider,
+  SttProviderName,
+  StreamingProviderName,
+  StreamingSession,
+  StreamingSttProvider,
+  TranscribeInput,
+} from "./types";
+
+const providers: Record<SttProviderName, SttProvider> = {
+  deepgram: deepgramProvider,
+  local: localProvider,
+  fake: fakeProvider,
+};
+
+function isProviderName(x: unknown): x is SttProviderName {
+  return typeof x === "string" && Object.hasOwn(providers, x);
+}
+
+/**
+ * Provider precedence: the user's `stt_provider` metadata, then the
+ * STT_PROVIDER env var for the deployment, then Deepgram.
+ */
+export function getSttProvider(user?: User | null): SttProvider {
+  const fromUser = user?.user_metadata?.stt_provider;
+  if (isProviderName(fromUser)) return providers[fromUser];
+
+  const fromEnv = process.env.STT_PROVIDER;
+  if (!fromEnv) return deepgramProvider;
+  if (!isProviderName(fromEnv)) {
+    throw new Error(`Unknown STT_PROVIDER: ${fromEnv}`);
+  }
+  return providers[fromEnv];
+}
+
+const streamingProviders: Record<StreamingProviderName, StreamingSttProvider> =
+  {
+    deepgram: deepgramLiveProvider,
+    mock: mockStreamingProvider,
+  };
+
+/**
+ * Live transcription while recording: STT_STREAMING_PROVIDER, else Deepgram
+ * in production and the mock provider in development.
+ */
+export function getStreamingProvider(): StreamingSttProvider {
+  const name =
+    process.env.STT_STREAMING_PROVIDER ||
+    (process.env.NODE_ENV === "production" ? "deepgram" : "mock");
+  if (!(name in streamingProviders)) {
+    throw new Error(`Unknown STT_STREAMING_PROVIDER: ${name}`);
+  }
+  return streamingProviders[name as StreamingProviderName];
+}
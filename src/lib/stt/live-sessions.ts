@@ -0,0 +1,99 @@
+// src/lib/stt/live-sessions.ts
+import { getStreamingProvider } from "./index";
+import type { StreamingProviderName, StreamingSession } from "./types";
+
+/**
+ * In-memory registry of live transcription sessions. Chunks, the SSE feed
+ * and the save step must reach the same server process, so this suits a
+ * single long-running instance (and `next dev`), not serverless fan-out.
+ */
+
+type Listener = (event: { text: string; final: boolean }) => void;
+
+type LiveSession = {
+  id: string;
+  userId: string;
+  provider: StreamingProviderName;
+  stream: StreamingSession;
+  partial: string;
+  final: Promise<string> | null;
+  listeners: Set<Listener>;
+  touchedAt: number;
+};
+
+/** Sessions nobody has written to or finished in this long are dropped */
+const IDLE_MS = 5 * 60 * 1000;
+
+// Survives module reloads in dev
+const g = globalThis as { __liveSttSessions?: Map<string, LiveSession> };
+const sessions = (g.__liveSttSessions ??= new Map());
+
+function sweep(now = Date.now()) {
+  for (const s of sessions.values()) {
+    if (now - s.touchedAt > IDLE_MS) {
+      s.stream.abort();
+      sessions.delete(s.id);
+    }
+  }
+}
+
+function emit(s: LiveSession, text: string, final: boolean) {
+  s.partial = text;
+  for (const l of s.listeners) l({ text, final });
+}
+
+export function startSession(userId: string, contentType: string) {
+  sweep();
+  const provider = getStreamingProvider();
+  const id = crypto.randomUUID();
+  const s: LiveSession = {
+    id,
+    userId,
+    provider: provider.name,
+    partial: "",
+    final: null,
+    listeners: new Set(),
+    touchedAt: Date.now(),
+    stream: provider.open({
+      contentType,
+      onPartial: (text) => emit(s, text, false),
+    }),
+  };
+  sessions.set(id, s);
+  return { id, provider: s.provider };
+}
+
+/** The caller's session, or null (unknown, expired or someone else's) */
+export function getSession(id: string, userId: string) {
+  const s = sessions.get(id);
+  return s && s.userId === userId ? s : null;
+}
+
+export function writeChunk(s: LiveSession, chunk: Uint8Array) {
+  if (s.final) throw new Error("Session already finished");
+  s.touchedAt = Date.now();
+  s.stream.write(chunk);
+}
+
+/** Subscribes to partials; replays the latest one right away */
+export function subscribe(s: LiveSession, listener: Listener) {
+  s.listeners.add(listener);
+  if (s.partial) listener({ text: s.partial, final: false });
+  return () => s.listeners.delete(listener);
+}
+
+/** Resolves with the final transcript; safe to call more than once */
+export function finishSession(s: LiveSession) {
+  s.touchedAt = Date.now();
+  s.final ??= s.stream.finish().then((text) => {
+    emit(s, text, true);
+    return text;
+  });
+  return s.final;
+}
+
+export function endSession(s: LiveSession) {
+  if (!s.final) s.stream.abort();
+  for (const l of s.listeners) l({ text: s.partial, final: true });
+  sessions.delete(s.id);
+}
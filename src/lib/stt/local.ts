@@ -0,0 +1,90 @@
+// src/lib/stt/local.ts
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import type { SttProvider, TranscribeInput } from "./types";
+
+const run = promisify(execFile);
+
+/** Both engines want 16 kHz mono PCM, so every upload goes through ffmpeg first. */
+async function toWav16k(input: string, output: string) {
+  await run(process.env.FFMPEG_BIN || "ffmpeg", [
+    "-y",
+    "-loglevel",
+    "error",
+    "-i",
+    input,
+    "-ar",
+    "16000",
+    "-ac",
+    "1",
+    "-c:a",
+    "pcm_s16le",
+    output,
+  ]);
+}
+
+/** whisper.cpp CLI: prints the transcript to stdout with -nt (no timestamps) */
+async function runWhisperCpp(wav: string) {
+  const model = process.env.WHISPER_CPP_MODEL;
+  if (!model) throw new Error("WHISPER_CPP_MODEL is not set");
+
+  const { stdout } = await run(
+    process.env.WHISPER_CPP_BIN || "whisper-cli",
+    [
+      "-m",
+      model,
+      "-f",
+      wav,
+      "-nt",
+      "-np",
+      "-l",
+      process.env.STT_LANGUAGE || "en",
+    ],
+    { maxBuffer: 16 * 1024 * 1024 }
+  );
+  return stdout.replace(/\s+/g, " ").trim();
+}
+
+/** Vosk: vosk-transcriber writes plain text to the -o file */
+async function runVosk(wav: string, dir: string) {
+  const out = path.join(dir, "out.txt");
+  const args = ["-i", wav, "-o", out, "-t", "txt"];
+  if (process.env.VOSK_MODEL) args.push("-m", process.env.VOSK_MODEL);
+
+  await run(process.env.VOSK_BIN || "vosk-transcriber", args, {
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  return (await readFile(out, "utf8")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Offline engine. Picks whisper.cpp or Vosk via LOCAL_STT_ENGINE
+ * (default: whisper) and shells out to the installed binary.
+ */
+export const localProvider: SttProvider = {
+  name: "local",
+
+  async transcribe({ bytes, contentType }: TranscribeInput) {
+    const dir = await mkdtemp(path.join(tmpdir(), "voice-diary-"));
+    try {
+      const ext = contentType.includes("ogg") ? "ogg" : "webm";
+      const input = path.join(dir, `input.${ext}`);
+      const wav = path.join(dir, "input.wav");
+      await writeFile(input, Buffer.from(bytes));
+      await toWav16k(input, wav);
+
+      const engine = process.env.LOCAL_STT_ENGINE || "whisper";
+      if (engine === "vosk") return await runVosk(wav, dir);
+      if (engine === "whisper") return await runWhisperCpp(wav);
+      throw new Error(`Unknown LOCAL_STT_ENGINE: ${engine}`);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw new Error(`Local STT failed: ${msg}`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  },
+};
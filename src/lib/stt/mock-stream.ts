@@ -0,0 +1,32 @@
+// src/lib/stt/mock-stream.ts
+import { fakeTranscript } from "./fake";
+import type { StreamingSttProvider } from "./types";
+
+const WORDS_PER_CHUNK = 3;
+
+/**
+ * Development stand-in for a live provider: every chunk "recognises" a few
+ * more words of the fake transcript, and finish() returns all of it.
+ */
+export const mockStreamingProvider: StreamingSttProvider = {
+  name: "mock",
+
+  open({ onPartial }) {
+    const words = fakeTranscript().split(/\s+/);
+    let heard = 0;
+
+    return {
+      write() {
+        if (heard >= words.length) return;
+        heard = Math.min(words.length, heard + WORDS_PER_CHUNK);
+        onPartial(words.slice(0, heard).join(" "));
+      },
+      async finish() {
+        const text = words.join(" ");
+        onPartial(text);
+        return text;
+      },
+      abort() {},
+    };
+  },
+};
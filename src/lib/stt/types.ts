@@ -0,0 +1,36 @@
+// src/lib/stt/types.ts
+
+export type SttProviderName = "deepgram" | "local" | "fake";
+
+export type TranscribeInput = {
+  bytes: ArrayBuffer;
+  contentType: string;
+};
+
+/** A speech-to-text backend. Implementations must return plain trimmed text. */
+export interface SttProvider {
+  readonly name: SttProviderName;
+  transcribe(input: TranscribeInput): Promise<string>;
+}
+
+export type StreamingProviderName = "deepgram" | "mock";
+
+/** One live recording. Chunks arrive in MediaRecorder order; the first carries the container header. */
+export interface StreamingSession {
+  write(chunk: Uint8Array): void;
+  /** Flushes the provider and resolves with the final transcript */
+  finish(): Promise<string>;
+  /** Drops the session without waiting for a transcript */
+  abort(): void;
+}
+
+export type StreamingOptions = {
+  contentType: string;
+  /** Called with the whole transcript so far (final segments + current guess) */
+  onPartial: (text: string) => void;
+};
+
+export interface StreamingSttProvider {
+  readonly name: StreamingProviderName;
+  open(opts: StreamingOptions): StreamingSession;
+}
@@ -0,0 +1,126 @@
+// src/lib/summaries/index.ts
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { getExtractor } from "@/lib/extract";
+import { habitsFor } from "@/lib/habits";
+import { timeZoneFor, todayIn } from "@/lib/dates";
+import { upgradeRow } from "@/lib/migrations";
+import { localNarrator, openaiNarrator, templateNarrator } from "./narrators";
+import {
+  buildReview,
+  periodBounds,
+  previousPeriod,
+  type ReviewRow,
+  type ReviewTask,
+} from "./review";
+import type { Narrator, NarratorName, Summary, SummaryPeriod } from "./types";
+
+export * from "./types";
+export { periodBounds, previousPeriod } from "./review";
+
+const narrators: Record<NarratorName, Narrator> = {
+  openai: openaiNarrator,
+  local: localNarrator,
+  template: templateNarrator,
+};
+
+function isNarratorName(x: unknown): x is NarratorName {
+  return typeof x === "string" && Object.hasOwn(narrators, x);
+}
+
+/**
+ * SUMMARY_NARRATOR if set; otherwise the same backend as extraction
+ * (the rules extractor pairs with the template narrator).
+ */
+export function getNarrator(user?: User | null): Narrator {
+  const fromEnv = process.env.SUMMARY_NARRATOR;
+  if (fromEnv) {
+    if (!isNarratorName(fromEnv)) {
+      throw new Error(`Unknown SUMMARY_NARRATOR: ${fromEnv}`);
+    }
+    return narrators[fromEnv];
+  }
+  const extractor = getExtractor(user).name;
+  return extractor === "rules" ? templateNarrator : narrators[extractor];
+}
+
+/**
+ * Builds the review for the `period` containing `date` from the caller's
+ * logs (and the period before, for comparisons), narrates it and upserts
+ * the stored summary. A failing model falls back to the template narrator.
+ */
+export async function generateSummary(
+  supabase: SupabaseClient,
+  user: User,
+  period: SummaryPeriod,
+  date: string
+): Promise<Summary> {
+  const bounds = periodBounds(period, date);
+  const prev = previousPeriod(period, bounds.start);
+
+  const { data, error } = await supabase
+    .from("daily_logs")
+    .select("log_date, transcript, extracted, schema_version")
+    .eq("user_id", user.id)
+    .gte("log_date", prev.start)
+    .lte("log_date", bounds.end)
+    .order("log_date", { ascending: true });
+  if (error) throw error;
+  const rows = (data ?? []).map(upgradeRow) as ReviewRow[];
+
+  // Todos come from `tasks`, so the review agrees with the task timeline
+  const { data: tasks, error: tasksErr } = await supabase
+    .from("tasks")
+    .select("title, status, origin_date, completed_on")
+    .eq("user_id", user.id)
+    .or(
+      `and(origin_date.gte.${bounds.start},origin_date.lte.${bounds.end}),` +
+        `and(completed_on.gte.${bounds.start},completed_on.lte.${bounds.end})`
+    )
+    .order("origin_date", { ascending: true });
+  if (tasksErr) throw tasksErr;
+
+  const review = buildReview(
+    period,
+    bounds,
+    rows.filter((r) => r.log_date >= bounds.start),
+    rows.filter((r) => r.log_date < bounds.start),
+    (tasks ?? []) as ReviewTask[],
+    habitsFor(user),
+    todayIn(timeZoneFor(user))
+  );
+
+  const narrator = getNarrator(user);
+  let narrative: string;
+  let fallback: string | null = null;
+  try {
+    narrative = await narrator.narrate(review);
+  } catch (e) {
+    if (narrator.name === "template") throw e;
+    fallback = e instanceof Error ? e.message : String(e);
+    console.warn(`[summaries] ${narrator.name} failed, using template:`, e);
+    narrative = await templateNarrator.narrate(review);
+  }
+
+  const { data: saved, error: saveErr } = await supabase
+    .from("summaries")
+    .upsert(
+      {
+        user_id: user.id,
+        period,
+        start_date: bounds.start,
+        end_date: bounds.end,
+        compare_start: prev.start,
+        review,
+        narrative,
+        narrator: fallback ? "template" : narrator.name,
+        narrator_fallback: fallback,
+        stale: false,
+        generated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,period,start_date" }
+    )
+    .select()
+    .single();
+  if (saveErr) throw saveErr;
+  return saved as Summary;
+}
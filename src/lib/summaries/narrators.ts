@@ -0,0 +1,148 @@
+// src/lib/summaries/narrators.ts
+import type { Narrator, Review } from "./types";
+
+const SYSTEM_PROMPT =
+  "You write short, warm weekly or monthly reviews of a personal voice diary. " +
+  "You are given the facts as JSON. Write 3–5 sentences in the second person. " +
+  "Mention what kept coming up, how mood and the main metrics moved compared " +
+  "with the previous period, and how the todos went. Use only the facts given; " +
+  "do not invent events. Plain text, no lists or headings.";
+
+const userPrompt = (review: Review) =>
+  `Review for the ${review.period} of ${review.start} to ${review.end}:\n` +
+  JSON.stringify(review);
+
+type ChatCompletion = {
+  choices?: { message?: { content?: string | null } }[];
+};
+
+type ResponsesOutput = {
+  output?: { content?: { type?: string; text?: string }[] }[];
+  output_text?: string;
+};
+
+/** OpenAI Responses API, plain text output */
+export const openaiNarrator: Narrator = {
+  name: "openai",
+
+  async narrate(review) {
+    const res = await fetch("https://api.openai.com/v1/responses", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY!}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+        input: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: userPrompt(review) },
+        ],
+      }),
+    });
+    if (!res.ok) throw new Error(`OpenAI failed: ${await res.text()}`);
+    const j = (await res.json()) as ResponsesOutput;
+    const text =
+      j.output?.[0]?.content?.find((c) => c?.type === "output_text")?.text ||
+      j.output_text ||
+      "";
+    if (!text.trim()) throw new Error("OpenAI returned an empty narrative");
+    return text.trim();
+  },
+};
+
+/** Any OpenAI-compatible chat server (LOCAL_LLM_BASE_URL, as for extraction) */
+export const localNarrator: Narrator = {
+  name: "local",
+
+  async narrate(review) {
+    const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+    if (!baseUrl) throw new Error("LOCAL_LLM_BASE_URL is not set");
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (process.env.LOCAL_LLM_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.LOCAL_LLM_API_KEY}`;
+    }
+
+    const res = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+        temperature: 0.3,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: userPrompt(review) },
+        ],
+      }),
+    });
+    if (!res.ok) throw new Error(`Local LLM failed: ${await res.text()}`);
+    const j = (await res.json()) as ChatCompletion;
+    const text = j.choices?.[0]?.message?.content?.trim() ?? "";
+    if (!text) throw new Error("Local LLM returned an empty narrative");
+    return text;
+  },
+};
+
+const list = (xs: string[]) =>
+  xs.length <= 1
+    ? xs.join("")
+    : `${xs.slice(0, -1).join(", ")} and ${xs[xs.length - 1]}`;
+
+/** Deterministic sentences from the facts; no model needed (and the fallback) */
+export const templateNarrator: Narrator = {
+  name: "template",
+
+  async narrate(r) {
+    const span = r.period === "week" ? "week" : "month";
+    if (!r.days_logged) return `Nothing was logged this ${span}.`;
+
+    const out = [`You logged ${r.days_logged} of ${r.days} days this ${span}.`];
+    if (r.highlights.length) {
+      out.push(
+        `Good days kept involving ${list(
+          r.highlights.slice(0, 3).map((t) => t.theme)
+        )}.`
+      );
+    }
+    if (r.challenges.length) {
+      out.push(
+        `Recurring challenges: ${list(
+          r.challenges.slice(0, 3).map((t) => t.theme)
+        )}.`
+      );
+    }
+    if (r.mood.trend !== "unknown") {
+      out.push(
+        r.mood.trend === "steady"
+          ? "Your mood held steady."
+          : `Your mood trended ${r.mood.trend} over the ${span}.`
+      );
+    }
+    const moved = r.metrics
+      .filter((m) => m.change !== null && m.change !== 0)
+      .slice(0, 3)
+      .map(
+        (m) =>
+          `${m.label.replace(/^\P{L}+/u, "").toLowerCase()} ${
+            m.change! > 0 ? "up" : "down"
+          } ${Math.abs(m.change!)}${
+            // "hrs", "min" read well after a number; "0–10" doesn't
+            m.unit && /^[a-z]+$/i.test(m.unit) ? ` ${m.unit}` : ""
+          }`
+      );
+    if (moved.length)
+      out.push(`Compared with the last ${span}: ${list(moved)}.`);
+    const { completed, dropped } = r.todos;
+    if (completed.length || dropped.length) {
+      out.push(
+        `Of the todos you planned, ${completed.length} got done and ${
+          dropped.length
+        } ${dropped.length === 1 ? "was" : "were"} dropped.`
+      );
+    }
+    return out.join(" ");
+  },
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { buildReview, periodBounds, type ReviewTask } from "./review";
+
+const week = periodBounds("week", "2026-10-14"); // Mon 12th – Sun 18th
+
+const task = (t: Partial<ReviewTask> & { title: string }): ReviewTask => ({
+  status: "open",
+  origin_date: "2026-10-12",
+  completed_on: null,
+  ...t,
+});
+
+const todos = (tasks: ReviewTask[]) =>
+  buildReview("week", week, [], [], tasks, [], "2026-10-19").todos;
+
+describe("buildReview todos", () => {
+  it("takes completed, dropped and open from the task's status", () => {
+    expect(
+      todos([
+        task({ title: "Call mom", status: "done", completed_on: "2026-10-13" }),
+        task({ title: "Fix bike", status: "dropped" }),
+        task({ title: "Finish the report" }),
+      ])
+    ).toEqual({
+      completed: [
+        { text: "Call mom", planned_on: "2026-10-12", done_on: "2026-10-13" },
+      ],
+      dropped: [{ text: "Fix bike", planned_on: "2026-10-12" }],
+      open: [{ text: "Finish the report", planned_on: "2026-10-12" }],
+    });
+  });
+
+  it("counts a task said last week but completed this week", () => {
+    expect(
+      todos([
+        task({
+          title: "Book flights",
+          status: "done",
+          origin_date: "2026-10-08",
+          completed_on: "2026-10-15",
+        }),
+      ]).completed
+    ).toEqual([
+      { text: "Book flights", planned_on: "2026-10-08", done_on: "2026-10-15" },
+    ]);
+  });
+
+  it("keeps a task open when it was closed after the period", () => {
+    expect(
+      todos([
+        task({
+          title: "Renew passport",
+          status: "done",
+          completed_on: "2026-10-20",
+        }),
+      ])
+    ).toEqual({
+      completed: [],
+      dropped: [],
+      open: [{ text: "Renew passport", planned_on: "2026-10-12" }],
+    });
+  });
+
+  it("never reports a carried-forward open task as dropped", () => {
+    const t = task({ title: "Email Sam", origin_date: "2026-10-12" });
+    expect(todos([t]).dropped).toEqual([]);
+    expect(todos([t]).open).toHaveLength(1);
+  });
+});
@@ -0,0 +1,206 @@
+// src/lib/summaries/review.ts
+import type { Extracted } from "@/lib/extracted";
+import type { HabitDefinition } from "@/lib/habits";
+import { addDays, daysBetween } from "@/lib/dates";
+import { metricsFor, moodScore } from "@/lib/metrics";
+import { weekStart } from "@/lib/streaks";
+import type { Task } from "@/lib/tasks";
+import type { MetricChange, Review, SummaryPeriod, Theme, Todo } from "./types";
+
+export type ReviewRow = {
+  log_date: string;
+  transcript: string | null;
+  extracted: Extracted | null;
+};
+
+/** The `tasks` columns a review reads */
+export type ReviewTask = Pick<
+  Task,
+  "title" | "status" | "origin_date" | "completed_on"
+>;
+
+/** First and last day of the week (Monday–Sunday) or month containing `date` */
+export function periodBounds(period: SummaryPeriod, date: string) {
+  if (period === "week") {
+    const start = weekStart(date);
+    return { start, end: addDays(start, 6) };
+  }
+  const start = `${date.slice(0, 7)}-01`;
+  const [y, m] = date.split("-").map(Number);
+  const next = new Date(Date.UTC(y, m, 1)).toISOString().slice(0, 10);
+  return { start, end: addDays(next, -1) };
+}
+
+/** The period before the one starting on `start` */
+export const previousPeriod = (period: SummaryPeriod, start: string) =>
+  periodBounds(period, addDays(start, -1));
+
+const STOPWORDS = new Set(
+  (
+    "all and any are but can day did for get got had has her him his how " +
+    "its not now off one our out see she the too two was way who why yet you " +
+    "about after again also been being before could didn does doing done " +
+    "from have having into just last like made make more most much need " +
+    "next over really some still than that their them then there these " +
+    "they this today tomorrow very want went were what when which while " +
+    "will with would your"
+  ).split(" ")
+);
+
+/** Lowercase content words, with a trailing plural "s" dropped */
+function words(text: string) {
+  return new Set(
+    (text.toLowerCase().match(/[a-z][a-z']{2,}/g) ?? [])
+      .map((w) => (w.length > 3 ? w.replace(/'s$|s$/, "") : w))
+      .filter((w) => w.length > 2 && !STOPWORDS.has(w))
+  );
+}
+
+/** Words that show up on at least two days, with the items they came from */
+function themes(rows: ReviewRow[], field: "highlights" | "challenges") {
+  const byWord = new Map<string, { days: Set<string>; examples: string[] }>();
+  for (const r of rows) {
+    for (const item of r.extracted?.[field] ?? []) {
+      for (const w of words(item)) {
+        const t = byWord.get(w) ?? { days: new Set(), examples: [] };
+        t.days.add(r.log_date);
+        if (t.examples.length < 3 && !t.examples.includes(item)) {
+          t.examples.push(item);
+        }
+        byWord.set(w, t);
+      }
+    }
+  }
+  return [...byWord]
+    .filter(([, t]) => t.days.size >= 2)
+    .map(
+      ([theme, t]): Theme => ({
+        theme,
+        days: t.days.size,
+        examples: t.examples,
+      })
+    )
+    .sort((a, b) => b.days - a.days)
+    .slice(0, 5);
+}
+
+const mean = (xs: number[]) =>
+  xs.length
+    ? Math.round((xs.reduce((a, b) => a + b, 0) / xs.length) * 10) / 10
+    : null;
+
+function moodOf(rows: ReviewRow[], previous: ReviewRow[]): Review["mood"] {
+  const scores = rows
+    .map((r) => moodScore(r.extracted?.mood))
+    .filter((s): s is number => s !== undefined);
+  let trend: Review["mood"]["trend"] = "unknown";
+  if (scores.length >= 3) {
+    const half = Math.floor(scores.length / 2);
+    const diff =
+      (mean(scores.slice(-half)) ?? 0) - (mean(scores.slice(0, half)) ?? 0);
+    trend = diff >= 0.5 ? "up" : diff <= -0.5 ? "down" : "steady";
+  }
+  const counts = new Map<string, number>();
+  for (const r of rows) {
+    const m = r.extracted?.mood?.trim().toLowerCase();
+    if (m) counts.set(m, (counts.get(m) ?? 0) + 1);
+  }
+  return {
+    trend,
+    average: mean(scores),
+    previous: mean(
+      previous
+        .map((r) => moodScore(r.extracted?.mood))
+        .filter((s): s is number => s !== undefined)
+    ),
+    words: [...counts]
+      .map(([mood, days]) => ({ mood, days }))
+      .sort((a, b) => b.days - a.days),
+  };
+}
+
+function metricChanges(
+  rows: ReviewRow[],
+  previous: ReviewRow[],
+  habits: HabitDefinition[]
+): MetricChange[] {
+  const averageOf = (rs: ReviewRow[], value: (x: Extracted) => unknown) =>
+    mean(
+      rs
+        .map((r) => (r.extracted ? value(r.extracted) : undefined))
+        .filter((v): v is number => typeof v === "number")
+    );
+  return metricsFor(habits)
+    .map((m) => {
+      const average = averageOf(rows, m.value);
+      const prev = averageOf(previous, m.value);
+      return {
+        key: m.key,
+        label: m.label,
+        unit: m.unit,
+        average,
+        previous: prev,
+        change:
+          average !== null && prev !== null
+            ? Math.round((average - prev) * 10) / 10
+            : null,
+      };
+    })
+    .filter((m) => m.average !== null || m.previous !== null);
+}
+
+/**
+ * The period's tracked tasks, as the task timeline shows them: completed
+ * when closed within the period, dropped when the user dropped it, and
+ * otherwise still open at the period's end (a task closed after the period
+ * was open during it).
+ */
+function todosOf(
+  tasks: ReviewTask[],
+  bounds: { start: string; end: string }
+): Review["todos"] {
+  const todos: Review["todos"] = { completed: [], dropped: [], open: [] };
+  const inPeriod = (d: string | null) =>
+    d !== null && d >= bounds.start && d <= bounds.end;
+  for (const t of tasks) {
+    const todo: Todo = { text: t.title, planned_on: t.origin_date };
+    if (t.status === "done" && inPeriod(t.completed_on)) {
+      todos.completed.push({ ...todo, done_on: t.completed_on! });
+    } else if (!inPeriod(t.origin_date)) {
+      continue; // closed before or after a period it wasn't said in
+    } else if (t.status === "dropped") {
+      todos.dropped.push(todo);
+    } else {
+      todos.open.push(todo);
+    }
+  }
+  return todos;
+}
+
+/**
+ * Everything in a review except the narrative; `rows` must be sorted by
+ * date. `tasks` are those said or completed within the period.
+ */
+export function buildReview(
+  period: SummaryPeriod,
+  bounds: { start: string; end: string },
+  rows: ReviewRow[],
+  previous: ReviewRow[],
+  tasks: ReviewTask[],
+  habits: HabitDefinition[],
+  today: string
+): Review {
+  const last = bounds.end < today ? bounds.end : today;
+  return {
+    period,
+    start: bounds.start,
+    end: bounds.end,
+    days_logged: rows.length,
+    days: Math.max(0, daysBetween(bounds.start, last) + 1),
+    highlights: themes(rows, "highlights"),
+    challenges: themes(rows, "challenges"),
+    mood: moodOf(rows, previous),
+    metrics: metricChanges(rows, previous, habits),
+    todos: todosOf(tasks, bounds),
+  };
+}
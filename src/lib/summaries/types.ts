@@ -0,0 +1,77 @@
+// src/lib/summaries/types.ts
+
+export const SUMMARY_PERIODS = ["week", "month"] as const;
+export type SummaryPeriod = (typeof SUMMARY_PERIODS)[number];
+
+export function isSummaryPeriod(x: unknown): x is SummaryPeriod {
+  return SUMMARY_PERIODS.includes(x as SummaryPeriod);
+}
+
+/** A word that keeps coming up in highlights or challenges */
+export type Theme = { theme: string; days: number; examples: string[] };
+
+export type MetricChange = {
+  key: string;
+  label: string;
+  unit?: string;
+  average: number | null;
+  previous: number | null;
+  change: number | null;
+};
+
+export type Todo = {
+  text: string;
+  planned_on: string;
+  /** The day its task was closed */
+  done_on?: string;
+};
+
+/** The structured part of a review; the narrative is written from this */
+export type Review = {
+  period: SummaryPeriod;
+  start: string;
+  end: string;
+  days_logged: number;
+  /** Days of the period so far */
+  days: number;
+  highlights: Theme[];
+  challenges: Theme[];
+  mood: {
+    trend: "up" | "down" | "steady" | "unknown";
+    average: number | null;
+    previous: number | null;
+    /** Most frequent first */
+    words: { mood: string; days: number }[];
+  };
+  metrics: MetricChange[];
+  todos: {
+    completed: Todo[];
+    dropped: Todo[];
+    /** Still open at the end of the period, carried forward or not */
+    open: Todo[];
+  };
+};
+
+export type NarratorName = "openai" | "local" | "template";
+
+/** Turns a review into a few sentences of prose */
+export interface Narrator {
+  readonly name: NarratorName;
+  narrate(review: Review): Promise<string>;
+}
+
+export type Summary = {
+  id: string;
+  user_id: string;
+  period: SummaryPeriod;
+  start_date: string;
+  end_date: string;
+  compare_start: string;
+  review: Review;
+  narrative: string;
+  narrator: NarratorName;
+  narrator_fallback: string | null;
+  /** A log in the period (or the one it's compared with) changed since */
+  stale: boolean;
+  generated_at: string;
+};
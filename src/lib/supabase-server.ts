@@ -0,0 +1,27 @@
+// src/lib/supabase-server.ts
+import { createClient } from "@supabase/supabase-js";
+
+/** Supabase client that runs as the caller (forwards their JWT, RLS-friendly) */
+export function supabaseForRequest(req: Request) {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: {
+        headers: { Authorization: req.headers.get("Authorization") ?? "" },
+      },
+    }
+  );
+}
+
+/**
+ * Service-role client for work that isn't done on a user's behalf (the
+ * reminder cron). It bypasses RLS, so always filter by user_id.
+ */
+export function supabaseAdmin() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) throw new Error("SUPABASE_SERVICE_ROLE_KEY is required");
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
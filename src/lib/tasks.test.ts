@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { mentionsTask, taskKey } from "./tasks";
+import { rulesExtractor } from "./extract/rules";
+
+describe("taskKey", () => {
+  it("ignores word order, filler and light inflection", () => {
+    expect(taskKey("Email Sam the invoice")).toBe(taskKey("invoice email sam"));
+    expect(taskKey("Called the dentist")).toBe(taskKey("call dentist"));
+  });
+});
+
+describe("mentionsTask", () => {
+  it("needs more than one shared word", () => {
+    expect(mentionsTask("Call mom", "I called the dentist")).toBe(false);
+    expect(mentionsTask("Call mom", "called mom after lunch")).toBe(true);
+  });
+
+  it("accepts two shared words when they are more than half", () => {
+    expect(
+      mentionsTask("Book flights to Berlin", "booked the Berlin flights")
+    ).toBe(true);
+    expect(
+      mentionsTask("Write quarterly report draft intro", "wrote the report")
+    ).toBe(false);
+  });
+
+  it("matches a one-word task only on that word", () => {
+    expect(mentionsTask("Laundry", "finally did the laundry")).toBe(true);
+    expect(mentionsTask("Laundry", "did the dishes")).toBe(false);
+  });
+});
+
+describe("rules extractor tasks_done", () => {
+  const done = async (transcript: string, openTasks: string[]) =>
+    (await rulesExtractor.extract(transcript, [], { openTasks })).tasks_done;
+
+  it("closes only the task that was named", async () => {
+    expect(
+      await done("I called the dentist this morning.", [
+        "Call mom",
+        "Call dentist",
+      ])
+    ).toEqual(["Call dentist"]);
+  });
+
+  it("ignores sentences that say it wasn't done", async () => {
+    expect(
+      await done("I didn't finish the report.", ["Finish the report"])
+    ).toEqual([]);
+  });
+});
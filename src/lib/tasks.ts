@@ -0,0 +1,175 @@
+// src/lib/tasks.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Extracted } from "@/lib/extracted";
+import type { ExtractionContext } from "@/lib/extract/types";
+import { addDays } from "@/lib/dates";
+
+/**
+ * `todos_tomorrow` items promoted to tracked `tasks`. A task is opened on
+ * the day it was said, for the day after. Each saved day then closes the
+ * open tasks its extraction lists in `tasks_done`, and carries the rest
+ * forward to the next day. Dropping a task is always the user's call.
+ */
+export const TASK_STATUSES = ["open", "done", "dropped"] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export type Task = {
+  id: string;
+  user_id: string;
+  title: string;
+  status: TaskStatus;
+  /** The day it was said */
+  origin_date: string;
+  /** The day it's for; moves forward each time it's carried */
+  due_date: string;
+  completed_on: string | null;
+  /** Days it has been carried past its due date */
+  carried: number;
+  source_log_id: string | null;
+  closed_log_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export function isTaskStatus(x: unknown): x is TaskStatus {
+  return TASK_STATUSES.includes(x as TaskStatus);
+}
+
+const FILLER = new Set(
+  "the and for with into onto from that this then have get got make some my a an to of on at in up".split(
+    " "
+  )
+);
+
+/** Content words with light stemming: "Called the dentist" → call, dentist */
+export function taskWords(text: string) {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9']+/g) ?? [])
+      .filter((w) => !FILLER.has(w))
+      .map((w) =>
+        w.length > 4 ? w.replace(/(?:ing|ed|es|s)$/, "") : w.replace(/'s$/, "")
+      )
+  );
+}
+
+/** Order-insensitive identity, so "email Sam" said twice is one task */
+export const taskKey = (title: string) =>
+  [...taskWords(title)].sort().join(" ") || title.trim().toLowerCase();
+
+/**
+ * `text` names the task: every one of its words, or at least two and more
+ * than half of them. One shared word isn't enough ("Call dentist" is not
+ * "Call mom").
+ */
+export function mentionsTask(title: string, text: string) {
+  const wanted = [...taskWords(title)];
+  if (!wanted.length) return false;
+  const said = taskWords(text);
+  const shared = wanted.filter((w) => said.has(w)).length;
+  return (
+    shared === wanted.length || (shared >= 2 && shared * 2 > wanted.length)
+  );
+}
+
+/** Open tasks said before `date`: the prompts for that day and the extractor's candidates */
+export async function openTasksBefore(
+  supabase: SupabaseClient,
+  userId: string,
+  date: string
+) {
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("status", "open")
+    .lt("origin_date", date)
+    .order("origin_date", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as Task[];
+}
+
+/** The open tasks the extractor may close for `date`; none if they can't be read */
+export async function extractionContextFor(
+  supabase: SupabaseClient,
+  userId: string,
+  date: string
+): Promise<ExtractionContext> {
+  try {
+    const tasks = await openTasksBefore(supabase, userId, date);
+    return { openTasks: tasks.map((t) => t.title) };
+  } catch (e) {
+    console.error(`[tasks] open tasks before ${date}:`, e);
+    return {};
+  }
+}
+
+/**
+ * Brings `tasks` in line with a saved day: closes what it says was done,
+ * carries the rest forward and opens its new todos. Safe to repeat for the
+ * same day (re-extraction, edits). Never throws — a failure is logged and
+ * the day itself stays saved.
+ */
+export async function syncTasks(
+  supabase: SupabaseClient,
+  userId: string,
+  day: { id: string; log_date: string; extracted: Extracted | null }
+) {
+  try {
+    const { data, error } = await supabase
+      .from("tasks")
+      .select("*")
+      .eq("user_id", userId)
+      .or(`status.eq.open,source_log_id.eq.${day.id}`);
+    if (error) throw error;
+    const tasks = (data ?? []) as Task[];
+    const now = new Date().toISOString();
+
+    const done = day.extracted?.tasks_done ?? [];
+    for (const t of tasks) {
+      if (t.status !== "open" || t.origin_date >= day.log_date) continue;
+      // Extractors copy titles from the open list, so no fuzzy matching here
+      const closed = done.some((d) => taskKey(d) === taskKey(t.title));
+      const patch = closed
+        ? {
+            status: "done",
+            completed_on: day.log_date,
+            closed_log_id: day.id,
+          }
+        : t.due_date <= day.log_date
+        ? { due_date: addDays(day.log_date, 1), carried: t.carried + 1 }
+        : null;
+      if (!patch) continue;
+      const { error: updErr } = await supabase
+        .from("tasks")
+        .update({ ...patch, updated_at: now })
+        .eq("id", t.id);
+      if (updErr) throw updErr;
+      Object.assign(t, patch);
+    }
+
+    const known = new Set(
+      tasks
+        .filter((t) => t.status === "open" || t.source_log_id === day.id)
+        .map((t) => taskKey(t.title))
+    );
+    const fresh = [];
+    for (const title of day.extracted?.todos_tomorrow ?? []) {
+      const key = taskKey(title);
+      if (!title.trim() || known.has(key)) continue;
+      known.add(key);
+      fresh.push({
+        user_id: userId,
+        title: title.trim(),
+        origin_date: day.log_date,
+        due_date: addDays(day.log_date, 1),
+        source_log_id: day.id,
+      });
+    }
+    if (fresh.length) {
+      const { error: insErr } = await supabase.from("tasks").insert(fresh);
+      if (insErr) throw insErr;
+    }
+  } catch (e) {
+    console.error(`[tasks] sync for ${day.log_date}:`, e);
+  }
+}
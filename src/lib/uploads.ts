@@ -0,0 +1,95 @@
+// src/lib/uploads.ts
+
+/**
+ * Limits for what the home page sends to /api/process besides a live
+ * recording: a typed entry, or a voice memo picked from disk. Shared by the
+ * picker (which also checks duration, as only the browser can decode it)
+ * and the route (which checks type and size).
+ */
+
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+export const MAX_AUDIO_SECONDS = 30 * 60;
+export const MAX_TEXT_CHARS = 20_000;
+
+/** Extension → content type for the accepted formats */
+export const AUDIO_UPLOAD_TYPES: Record<string, string> = {
+  m4a: "audio/mp4",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  webm: "audio/webm",
+};
+
+/** Browsers disagree on names (audio/x-m4a, audio/x-wav, audio/mp3…) */
+const TYPE_ALIASES: Record<string, string> = {
+  "audio/x-m4a": "audio/mp4",
+  "audio/m4a": "audio/mp4",
+  "audio/aac": "audio/mp4",
+  "audio/mp3": "audio/mpeg",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/vnd.wave": "audio/wav",
+  "video/webm": "audio/webm",
+  "application/ogg": "audio/ogg",
+};
+
+/** `accept` for the file picker */
+export const AUDIO_ACCEPT = Object.keys(AUDIO_UPLOAD_TYPES)
+  .map((ext) => `.${ext}`)
+  .join(",");
+
+/** The normalised content type, or null for a format we don't take */
+export function audioUploadType(name: string, type: string) {
+  const base = type.split(";")[0].trim().toLowerCase();
+  const known = new Set(Object.values(AUDIO_UPLOAD_TYPES));
+  if (known.has(base)) return base;
+  if (TYPE_ALIASES[base]) return TYPE_ALIASES[base];
+  // Phones often send memos without a type; fall back to the extension
+  const ext = name.split(".").pop()?.toLowerCase() ?? "";
+  return AUDIO_UPLOAD_TYPES[ext] ?? null;
+}
+
+/** "entry.m4a" for audio/mp4, so the format survives a missing content type */
+export function uploadFileName(contentType: string) {
+  const type = audioUploadType("", contentType);
+  const ext = Object.entries(AUDIO_UPLOAD_TYPES).find(([, t]) => t === type);
+  return `entry.${ext?.[0] ?? "webm"}`;
+}
+
+const mb = (bytes: number) => `${Math.round(bytes / 1024 / 1024)} MB`;
+
+/** Why an audio file can't be uploaded, or null if it can */
+export function audioUploadError(file: {
+  name: string;
+  type: string;
+  size: number;
+  durationSec?: number | null;
+}) {
+  if (!audioUploadType(file.name, file.type)) {
+    return `Unsupported format; use ${Object.keys(AUDIO_UPLOAD_TYPES).join(
+      ", "
+    )}`;
+  }
+  if (!file.size) return "The file is empty";
+  if (file.size > MAX_AUDIO_BYTES) {
+    return `The file is ${mb(file.size)}; the limit is ${mb(MAX_AUDIO_BYTES)}`;
+  }
+  if (file.durationSec != null) {
+    if (file.durationSec < 1) return "The recording is under a second long";
+    if (file.durationSec > MAX_AUDIO_SECONDS) {
+      return `The recording is over ${MAX_AUDIO_SECONDS / 60} minutes long`;
+    }
+  }
+  return null;
+}
+
+/** Why a typed entry can't be saved, or null if it can */
+export function typedEntryError(text: string) {
+  if (!text.trim()) return "Write something first";
+  if (text.length > MAX_TEXT_CHARS) {
+    return `Entries are limited to ${MAX_TEXT_CHARS.toLocaleString(
+      "en-US"
+    )} characters`;
+  }
+  return null;
+}
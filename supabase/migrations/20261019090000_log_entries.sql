@@ -0,0 +1,30 @@
+-- Each recording is its own entry; daily_logs keeps the merged view of the day.
+create table if not exists public.log_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  daily_log_id uuid not null references public.daily_logs (id) on delete cascade,
+  log_date date not null,
+  recorded_at timestamptz not null default now(),
+  transcript text,
+  extracted jsonb,
+  schema_version integer not null default 2,
+  stt_provider text,
+  extractor text
+);
+
+create index if not exists log_entries_daily_log_id_recorded_at_idx
+  on public.log_entries (daily_log_id, recorded_at);
+
+alter table public.log_entries enable row level security;
+
+create policy "log_entries owner access" on public.log_entries
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Backfill: every existing day becomes a single entry
+insert into public.log_entries
+  (user_id, daily_log_id, log_date, recorded_at, transcript, extracted, schema_version)
+select user_id, id, log_date, created_at, transcript, extracted, coalesce(schema_version, 1)
+from public.daily_logs d
+where not exists (select 1 from public.log_entries e where e.daily_log_id = d.id);
@@ -0,0 +1,27 @@
+-- Original recordings: path in storage per entry, playable (signed) URLs on rows.
+alter table public.log_entries
+  add column if not exists audio_path text,
+  add column if not exists audio_url text;
+
+alter table public.daily_logs
+  add column if not exists audio_url text;
+
+insert into storage.buckets (id, name, public)
+values ('audio', 'audio', false)
+on conflict (id) do nothing;
+
+-- Objects are stored as <user_id>/<log_date>/<file>
+create policy "audio owner read" on storage.objects
+  for select using (
+    bucket_id = 'audio' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "audio owner insert" on storage.objects
+  for insert with check (
+    bucket_id = 'audio' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "audio owner delete" on storage.objects
+  for delete using (
+    bucket_id = 'audio' and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,34 @@
+-- Uploads are processed in the background; each one is tracked as a job.
+create table if not exists public.process_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'transcribing', 'extracting', 'saved', 'failed')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  last_error text,
+  next_attempt_at timestamptz,
+  log_date date not null,
+  audio_path text not null,
+  audio_url text,
+  content_type text not null,
+  -- Kept between attempts so a retry doesn't pay for transcription twice
+  transcript text,
+  stt_provider text,
+  extractor text,
+  extraction_fallback text,
+  daily_log_id uuid references public.daily_logs (id) on delete set null,
+  entry_id uuid references public.log_entries (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists process_jobs_user_id_created_at_idx
+  on public.process_jobs (user_id, created_at desc);
+
+alter table public.process_jobs enable row level security;
+
+create policy "process_jobs owner access" on public.process_jobs
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
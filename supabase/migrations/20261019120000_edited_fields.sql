@@ -0,0 +1,3 @@
+-- Fields the user corrected by hand; re-extraction keeps them unless asked not to.
+alter table public.daily_logs
+  add column if not exists edited_fields text[] not null default '{}';
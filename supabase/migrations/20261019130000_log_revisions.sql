@@ -0,0 +1,24 @@
+-- Every edit of a day's extracted view, so it can be reviewed and reverted.
+create table if not exists public.log_revisions (
+  id uuid primary key default gen_random_uuid(),
+  daily_log_id uuid not null references public.daily_logs (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  author_id uuid not null references auth.users (id) on delete cascade,
+  source text not null default 'edit' check (source in ('edit', 'revert')),
+  created_at timestamptz not null default now(),
+  before jsonb,
+  after jsonb not null,
+  diff jsonb not null default '[]'
+);
+
+create index if not exists log_revisions_daily_log_id_created_at_idx
+  on public.log_revisions (daily_log_id, created_at desc);
+
+alter table public.log_revisions enable row level security;
+
+-- History is append-only: owners can read and add, never rewrite
+create policy "log_revisions owner read" on public.log_revisions
+  for select using (auth.uid() = user_id);
+
+create policy "log_revisions owner insert" on public.log_revisions
+  for insert with check (auth.uid() = user_id and auth.uid() = author_id);
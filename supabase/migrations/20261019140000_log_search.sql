@@ -0,0 +1,38 @@
+-- Full-text search over what was said and the free-text extracted fields.
+alter table public.daily_logs
+  add column if not exists search_tsv tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(extracted->>'notes', '')), 'A') ||
+    setweight(to_tsvector('english',
+      coalesce((extracted->'highlights')::text, '') || ' ' ||
+      coalesce((extracted->'challenges')::text, '') || ' ' ||
+      coalesce((extracted->'gratitude')::text, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(transcript, '')), 'B')
+  ) stored;
+
+create index if not exists daily_logs_search_tsv_idx
+  on public.daily_logs using gin (search_tsv);
+
+-- Runs as the caller, so RLS limits results to their own days.
+-- Matches in the snippet are wrapped in \x02 … \x03 for the API to split on.
+create or replace function public.search_logs(q text, max_results int default 20)
+returns table (id uuid, log_date date, rank real, snippet text)
+language sql stable security invoker
+as $$
+  with query as (select websearch_to_tsquery('english', q) as tsq)
+  select d.id, d.log_date, ts_rank(d.search_tsv, query.tsq) as rank,
+    ts_headline('english',
+      concat_ws(' … ',
+        d.extracted->>'notes',
+        (select string_agg(x, '; ') from jsonb_array_elements_text(
+          coalesce(d.extracted->'highlights', '[]') ||
+          coalesce(d.extracted->'challenges', '[]') ||
+          coalesce(d.extracted->'gratitude', '[]')) as x),
+        d.transcript),
+      query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+        ', MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "')
+  from public.daily_logs d, query
+  where d.search_tsv @@ query.tsq
+  order by rank desc, d.log_date desc
+  limit least(max_results, 100);
+$$;
@@ -0,0 +1,60 @@
+-- Stored weekly and monthly reviews, one per user, period and start date.
+create table if not exists public.summaries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  period text not null check (period in ('week', 'month')),
+  start_date date not null,
+  end_date date not null,
+  -- Start of the previous period, which the review compares against
+  compare_start date not null,
+  review jsonb not null,
+  narrative text not null,
+  narrator text not null,
+  narrator_fallback text,
+  stale boolean not null default false,
+  generated_at timestamptz not null default now(),
+  unique (user_id, period, start_date)
+);
+
+alter table public.summaries enable row level security;
+
+create policy "summaries owner select" on public.summaries
+  for select using (auth.uid() = user_id);
+
+create policy "summaries owner insert" on public.summaries
+  for insert with check (auth.uid() = user_id);
+
+create policy "summaries owner update" on public.summaries
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "summaries owner delete" on public.summaries
+  for delete using (auth.uid() = user_id);
+
+-- Any change to a day marks the reviews that read it as stale, whichever
+-- path made the change (recording, edit, revert, re-extract, import, delete).
+create or replace function public.mark_summaries_stale()
+returns trigger
+language plpgsql
+as $$
+declare
+  changed public.daily_logs;
+begin
+  if tg_op = 'DELETE' then
+    changed := old;
+  else
+    changed := new;
+  end if;
+  update public.summaries s
+    set stale = true
+    where s.user_id = changed.user_id
+      and changed.log_date between s.compare_start and s.end_date
+      and not s.stale;
+  return null;
+end;
+$$;
+
+drop trigger if exists daily_logs_mark_summaries_stale on public.daily_logs;
+create trigger daily_logs_mark_summaries_stale
+  after insert or delete or update of transcript, extracted
+  on public.daily_logs
+  for each row execute function public.mark_summaries_stale();
@@ -0,0 +1,32 @@
+-- Todos said in a day's log, tracked until they're done or dropped.
+create table if not exists public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  status text not null default 'open' check (status in ('open', 'done', 'dropped')),
+  origin_date date not null,
+  due_date date not null,
+  completed_on date,
+  carried int not null default 0,
+  source_log_id uuid references public.daily_logs (id) on delete set null,
+  closed_log_id uuid references public.daily_logs (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists tasks_user_id_status_origin_date_idx
+  on public.tasks (user_id, status, origin_date);
+
+alter table public.tasks enable row level security;
+
+create policy "tasks owner select" on public.tasks
+  for select using (auth.uid() = user_id);
+
+create policy "tasks owner insert" on public.tasks
+  for insert with check (auth.uid() = user_id);
+
+create policy "tasks owner update" on public.tasks
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "tasks owner delete" on public.tasks
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+-- Targets against a metric (see src/lib/goals.ts), each with the dates it applies.
+create table if not exists public.goals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Metric key, e.g. sleep_hours, health.steps, habits.workout
+  metric text not null,
+  op text not null default '>=' check (op in ('>=', '<=')),
+  target numeric not null default 1,
+  -- null: every logged day; n: at least n days a week
+  per_week int check (per_week between 1 and 7),
+  start_date date not null,
+  end_date date,
+  created_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create index if not exists goals_user_id_start_date_idx
+  on public.goals (user_id, start_date);
+
+alter table public.goals enable row level security;
+
+create policy "goals owner select" on public.goals
+  for select using (auth.uid() = user_id);
+
+create policy "goals owner insert" on public.goals
+  for insert with check (auth.uid() = user_id);
+
+create policy "goals owner update" on public.goals
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "goals owner delete" on public.goals
+  for delete using (auth.uid() = user_id);
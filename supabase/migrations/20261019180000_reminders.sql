@@ -0,0 +1,59 @@
+-- Journaling reminders (see src/lib/reminders) and the browsers they push to.
+create table if not exists public.reminders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- HH:MM in the user's timezone
+  time text not null check (time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  -- ISO weekdays, 1 = Monday … 7 = Sunday
+  days smallint[] not null default '{1,2,3,4,5,6,7}'
+    check (days <@ '{1,2,3,4,5,6,7}' and cardinality(days) > 0),
+  channel text not null default 'push' check (channel in ('push', 'email')),
+  enabled boolean not null default true,
+  -- The user's local date it was last sent, so it goes out once a day
+  last_sent_on date,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reminders_user_id_idx
+  on public.reminders (user_id);
+
+alter table public.reminders enable row level security;
+
+create policy "reminders owner select" on public.reminders
+  for select using (auth.uid() = user_id);
+
+create policy "reminders owner insert" on public.reminders
+  for insert with check (auth.uid() = user_id);
+
+create policy "reminders owner update" on public.reminders
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "reminders owner delete" on public.reminders
+  for delete using (auth.uid() = user_id);
+
+-- One row per browser PushSubscription; pruned when the push service says it's gone.
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_id_idx
+  on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "push_subscriptions owner select" on public.push_subscriptions
+  for select using (auth.uid() = user_id);
+
+create policy "push_subscriptions owner insert" on public.push_subscriptions
+  for insert with check (auth.uid() = user_id);
+
+create policy "push_subscriptions owner update" on public.push_subscriptions
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "push_subscriptions owner delete" on public.push_subscriptions
+  for delete using (auth.uid() = user_id);
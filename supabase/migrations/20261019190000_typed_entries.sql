@@ -0,0 +1,2 @@
+-- Typed entries are processed as jobs too, with the text as their transcript and no audio.
+alter table public.process_jobs alter column audio_path drop not null;
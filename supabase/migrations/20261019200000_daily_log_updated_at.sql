@@ -0,0 +1,21 @@
+-- saveEntry merges a recording onto the stored day and writes it back only
+-- if `updated_at` is still what it read, so two jobs for the same day can't
+-- overwrite each other. Bumped on every update, whichever path made it.
+alter table public.daily_logs
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.touch_daily_log()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- clock_timestamp, not now(): two updates in one transaction must differ
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+drop trigger if exists daily_logs_touch on public.daily_logs;
+create trigger daily_logs_touch
+  before update on public.daily_logs
+  for each row execute function public.touch_daily_log();
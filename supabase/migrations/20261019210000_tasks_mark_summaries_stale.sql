@@ -0,0 +1,33 @@
+-- Reviews list their todos from `tasks`, so closing, dropping or reopening a
+-- task marks the reviews covering the day it was said or completed as stale.
+create or replace function public.mark_summaries_stale_for_task()
+returns trigger
+language plpgsql
+as $$
+declare
+  changed public.tasks;
+begin
+  if tg_op = 'DELETE' then
+    changed := old;
+  else
+    changed := new;
+  end if;
+  update public.summaries s
+    set stale = true
+    where s.user_id = changed.user_id
+      and (
+        changed.origin_date between s.start_date and s.end_date
+        or changed.completed_on between s.start_date and s.end_date
+        or (tg_op = 'UPDATE'
+          and old.completed_on between s.start_date and s.end_date)
+      )
+      and not s.stale;
+  return null;
+end;
+$$;
+
+drop trigger if exists tasks_mark_summaries_stale on public.tasks;
+create trigger tasks_mark_summaries_stale
+  after insert or delete or update of title, status, completed_on
+  on public.tasks
+  for each row execute function public.mark_summaries_stale_for_task();
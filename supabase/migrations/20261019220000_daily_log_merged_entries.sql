@@ -0,0 +1,5 @@
+-- Ids of the log_entries already folded into the day. saveEntry merges the
+-- day before it inserts the entry row, so a retried save checks this list
+-- instead of merging the same recording twice.
+alter table public.daily_logs
+  add column if not exists merged_entry_ids uuid[] not null default '{}';